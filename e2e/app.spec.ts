@@ -22,7 +22,7 @@ test.describe('Duckboard App', () => {
     await expect(page.getByRole('button', { name: 'SQL Editor' })).toBeVisible()
     
     // Ensure the drawer is visible (it starts open by default). If not, toggle it.
-    const drawerContent = page.getByText('Drop CSV or Parquet files here')
+    const drawerContent = page.getByText('Drop CSV, Parquet, JSON, Excel, Arrow or DuckDB files here')
     if (!(await drawerContent.isVisible())) {
       await page.getByRole('button', { name: /Datasets/ }).click()
     }
@@ -0,0 +1,190 @@
+// Minimal Parquet writer for e2e fixtures: required INT64, DOUBLE and UTF8 columns,
+// PLAIN encoded and uncompressed, split into row groups so readers issue range requests.
+
+const TYPES = { int64: 2, double: 5, utf8: 6 }
+
+// Thrift compact protocol, just the parts the Parquet footer and page headers use
+class CompactWriter {
+  constructor() {
+    this.bytes = []
+    this.lastField = [0]
+  }
+
+  varint(value) {
+    let n = BigInt(value)
+    while (n >= 0x80n) {
+      this.bytes.push(Number(n & 0x7fn) | 0x80)
+      n >>= 7n
+    }
+    this.bytes.push(Number(n))
+  }
+
+  zigzag(value) {
+    const n = BigInt(value)
+    this.varint(n >= 0n ? n << 1n : ((-n) << 1n) - 1n)
+  }
+
+  fieldHeader(id, type) {
+    const delta = id - this.lastField[this.lastField.length - 1]
+    if (delta > 0 && delta <= 15) {
+      this.bytes.push((delta << 4) | type)
+    } else {
+      this.bytes.push(type)
+      this.zigzag(id)
+    }
+    this.lastField[this.lastField.length - 1] = id
+  }
+
+  i32(id, value) {
+    this.fieldHeader(id, 5)
+    this.zigzag(value)
+  }
+
+  i64(id, value) {
+    this.fieldHeader(id, 6)
+    this.zigzag(value)
+  }
+
+  string(id, value) {
+    this.fieldHeader(id, 8)
+    this.binary(value)
+  }
+
+  binary(value) {
+    const encoded = new TextEncoder().encode(value)
+    this.varint(encoded.length)
+    this.bytes.push(...encoded)
+  }
+
+  struct(id, write) {
+    this.fieldHeader(id, 12)
+    this.structBody(write)
+  }
+
+  structBody(write) {
+    this.lastField.push(0)
+    write(this)
+    this.bytes.push(0)
+    this.lastField.pop()
+  }
+
+  list(id, elementType, items, writeItem) {
+    this.fieldHeader(id, 9)
+    if (items.length < 15) {
+      this.bytes.push((items.length << 4) | elementType)
+    } else {
+      this.bytes.push(0xf0 | elementType)
+      this.varint(items.length)
+    }
+    for (const item of items) writeItem(item)
+  }
+
+  toBytes() {
+    return Uint8Array.from(this.bytes)
+  }
+}
+
+function plainValues(type, values) {
+  const parts = values.map(value => {
+    if (type === 'int64') {
+      const buffer = new Uint8Array(8)
+      new DataView(buffer.buffer).setBigInt64(0, BigInt(value), true)
+      return buffer
+    }
+    if (type === 'double') {
+      const buffer = new Uint8Array(8)
+      new DataView(buffer.buffer).setFloat64(0, value, true)
+      return buffer
+    }
+    const text = new TextEncoder().encode(value)
+    const buffer = new Uint8Array(4 + text.length)
+    new DataView(buffer.buffer).setUint32(0, text.length, true)
+    buffer.set(text, 4)
+    return buffer
+  })
+  return concat(parts)
+}
+
+function concat(parts) {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    out.set(part, offset)
+    offset += part.length
+  }
+  return out
+}
+
+// columns: [{ name, type: 'int64' | 'double' | 'utf8', values }]
+export function writeParquet(columns, rowGroupSize) {
+  const numRows = columns[0].values.length
+  const parts = [new TextEncoder().encode('PAR1')]
+  let offset = 4
+  const rowGroups = []
+
+  for (let start = 0; start < numRows; start += rowGroupSize) {
+    const end = Math.min(start + rowGroupSize, numRows)
+    const chunks = []
+    for (const column of columns) {
+      const data = plainValues(column.type, column.values.slice(start, end))
+      const header = new CompactWriter()
+      header.structBody(w => {
+        w.i32(1, 0) // DATA_PAGE
+        w.i32(2, data.length)
+        w.i32(3, data.length)
+        w.struct(5, d => {
+          d.i32(1, end - start)
+          d.i32(2, 0) // PLAIN
+          d.i32(3, 3) // RLE
+          d.i32(4, 3)
+        })
+      })
+      const headerBytes = header.toBytes()
+      chunks.push({ column, offset, size: headerBytes.length + data.length, numValues: end - start })
+      parts.push(headerBytes, data)
+      offset += headerBytes.length + data.length
+    }
+    rowGroups.push({ chunks, numRows: end - start })
+  }
+
+  const footer = new CompactWriter()
+  footer.structBody(w => {
+    w.i32(1, 1)
+    w.list(2, 12, [null, ...columns], column => w.structBody(s => {
+      if (column === null) {
+        s.string(4, 'schema')
+        s.i32(5, columns.length)
+        return
+      }
+      s.i32(1, TYPES[column.type])
+      s.i32(3, 0) // REQUIRED
+      s.string(4, column.name)
+      if (column.type === 'utf8') s.i32(6, 0) // UTF8
+    }))
+    w.i64(3, numRows)
+    w.list(4, 12, rowGroups, group => w.structBody(g => {
+      g.list(1, 12, group.chunks, chunk => g.structBody(c => {
+        c.i64(2, chunk.offset)
+        c.struct(3, m => {
+          m.i32(1, TYPES[chunk.column.type])
+          m.list(2, 5, [0, 3], encoding => m.zigzag(encoding))
+          m.list(3, 8, [chunk.column.name], name => m.binary(name))
+          m.i32(4, 0) // UNCOMPRESSED
+          m.i64(5, chunk.numValues)
+          m.i64(6, chunk.size)
+          m.i64(7, chunk.size)
+          m.i64(9, chunk.offset)
+        })
+      }))
+      g.i64(2, group.chunks.reduce((n, c) => n + c.size, 0))
+      g.i64(3, group.numRows)
+    }))
+    w.string(6, 'duckboard e2e fixtures')
+  })
+
+  const footerBytes = footer.toBytes()
+  const length = new Uint8Array(4)
+  new DataView(length.buffer).setUint32(0, footerBytes.length, true)
+  parts.push(footerBytes, length, new TextEncoder().encode('PAR1'))
+  return concat(parts)
+}
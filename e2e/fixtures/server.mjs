@@ -0,0 +1,79 @@
+// Static server for e2e dataset fixtures, standing in for a remote HTTP source.
+// Sends CORS and Cross-Origin-Resource-Policy headers (the app is cross-origin isolated),
+// answers single Range requests, and lists the requests it served at /__requests.
+
+import { createServer } from 'node:http'
+import { readFile } from 'node:fs/promises'
+import { extname, join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { writeParquet } from './parquet.mjs'
+
+const port = Number(process.env.E2E_FIXTURE_PORT ?? 4180)
+const root = fileURLToPath(new URL('.', import.meta.url))
+
+// 20,000 rows in 8 row groups, large enough that DuckDB reads it in ranges
+const ids = Array.from({ length: 20_000 }, (_, i) => i + 1)
+const generated = {
+  '/sales.parquet': writeParquet([
+    { name: 'id', type: 'int64', values: ids },
+    { name: 'region', type: 'utf8', values: ids.map(i => ['north', 'south', 'east', 'west'][i % 4]) },
+    { name: 'amount', type: 'double', values: ids.map(i => i * 1.5) }
+  ], 2_500)
+}
+
+const contentTypes = { '.csv': 'text/csv', '.parquet': 'application/octet-stream', '.json': 'application/json' }
+const served = []
+
+const cors = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Range',
+  'Access-Control-Expose-Headers': 'Content-Length, Content-Range, Accept-Ranges',
+  'Cross-Origin-Resource-Policy': 'cross-origin'
+}
+
+async function load(path) {
+  if (generated[path]) return generated[path]
+  if (!/^\/[\w.-]+$/.test(path) || !contentTypes[extname(path)]) return null
+  try {
+    return await readFile(join(root, path))
+  } catch {
+    return null
+  }
+}
+
+createServer(async (req, res) => {
+  const path = new URL(req.url ?? '/', `http://localhost:${port}`).pathname
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, cors).end()
+    return
+  }
+  if (path === '/__requests') {
+    res.writeHead(200, { ...cors, 'Content-Type': 'application/json' }).end(JSON.stringify(served))
+    return
+  }
+
+  const body = await load(path)
+  if (!body) {
+    res.writeHead(404, cors).end()
+    return
+  }
+  served.push({ method: req.method, path, range: req.headers.range ?? null })
+
+  const headers = { ...cors, 'Accept-Ranges': 'bytes', 'Content-Type': contentTypes[extname(path)] }
+  const range = /^bytes=(\d*)-(\d*)$/.exec(req.headers.range ?? '')
+  if (range && (range[1] || range[2])) {
+    const start = range[1] ? Number(range[1]) : Math.max(0, body.length - Number(range[2]))
+    const end = range[1] && range[2] ? Math.min(Number(range[2]), body.length - 1) : body.length - 1
+    if (start > end) {
+      res.writeHead(416, { ...headers, 'Content-Range': `bytes */${body.length}` }).end()
+      return
+    }
+    res.writeHead(206, { ...headers, 'Content-Range': `bytes ${start}-${end}/${body.length}`, 'Content-Length': end - start + 1 })
+    res.end(req.method === 'HEAD' ? undefined : body.subarray(start, end + 1))
+    return
+  }
+
+  res.writeHead(200, { ...headers, 'Content-Length': body.length })
+  res.end(req.method === 'HEAD' ? undefined : body)
+}).listen(port, () => console.log(`e2e fixtures on http://localhost:${port}`))
@@ -0,0 +1,45 @@
+import { test, expect } from '@playwright/test'
+
+// Served by e2e/fixtures/server.mjs (see playwright.config.ts)
+const FIXTURES = 'http://localhost:4180'
+
+test.describe('Remote datasets', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/')
+    await page.waitForLoadState('networkidle')
+    await expect(page.getByRole('button', { name: 'SQL Editor' })).toBeVisible()
+
+    // The drawer starts open by default. If not, toggle it.
+    const urlInput = page.getByLabel('Dataset URL')
+    if (!(await urlInput.isVisible())) {
+      await page.getByRole('button', { name: /Datasets/ }).click()
+    }
+    await expect(urlInput).toBeVisible()
+  })
+
+  test('should add a CSV file from a URL', async ({ page }) => {
+    await page.getByLabel('Dataset URL').fill(`${FIXTURES}/sales.csv`)
+    await page.getByRole('button', { name: 'Add from URL' }).click()
+
+    // CSV files still go through the import dialog
+    const dialog = page.getByRole('dialog', { name: 'CSV import options' })
+    await expect(dialog).toBeVisible()
+    await dialog.getByRole('button', { name: 'Import' }).click()
+
+    await expect(page.getByText('6 rows')).toBeVisible()
+    await expect(page.getByText(`URL: ${FIXTURES}/sales.csv`)).toBeVisible()
+  })
+
+  test('should read a Parquet file from a URL in byte ranges', async ({ page, request }) => {
+    await page.getByLabel('Dataset URL').fill(`${FIXTURES}/sales.parquet`)
+    await page.getByRole('button', { name: 'Add from URL' }).click()
+
+    await expect(page.getByText('20,000 rows')).toBeVisible()
+
+    const served: Array<{ method: string; path: string; range: string | null }> =
+      await (await request.get(`${FIXTURES}/__requests`)).json()
+    const reads = served.filter(r => r.path === '/sales.parquet' && r.method === 'GET')
+    expect(reads.length).toBeGreaterThan(0)
+    expect(reads.some(r => r.range !== null)).toBe(true)
+  })
+})
@@ -2,6 +2,7 @@ import { defineConfig, devices } from '@playwright/test'
 
 const isCI = !!process.env.CI
 const port = isCI ? 4173 : 5173
+const fixturePort = 4180
 
 export default defineConfig({
   testDir: './e2e',
@@ -36,9 +37,18 @@ export default defineConfig({
         },
       ],
 
-  webServer: {
-    command: isCI ? 'npm run preview' : 'npm run dev',
-    port,
-    reuseExistingServer: !isCI,
-  },
+  webServer: [
+    {
+      command: isCI ? 'npm run preview' : 'npm run dev',
+      port,
+      reuseExistingServer: !isCI,
+    },
+    {
+      // Remote dataset fixtures (CSV and range-readable Parquet) served from another origin
+      command: 'node e2e/fixtures/server.mjs',
+      port: fixturePort,
+      reuseExistingServer: !isCI,
+      env: { E2E_FIXTURE_PORT: String(fixturePort) },
+    },
+  ],
 })
\ No newline at end of file
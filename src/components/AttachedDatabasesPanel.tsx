@@ -0,0 +1,80 @@
+import { useDuckDB } from '../providers/DuckDBProvider'
+import { useStore } from '../store/store'
+import { qualifiedRelationName, relationsBySchema, type AttachedDatabase } from '../utils/databaseFile'
+
+const formatMB = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(2)} MB`
+
+// Read-only .duckdb files attached to the session, with their schemas and tables
+export function AttachedDatabasesPanel() {
+  const { worker } = useDuckDB()
+  const { attachedDatabases, removeAttachedDatabase, setCurrentQuery, setActivePanel } = useStore()
+
+  if (attachedDatabases.length === 0) return null
+
+  const detach = async (database: AttachedDatabase) => {
+    if (!worker) return
+    try {
+      await worker.detachDatabase(database.alias)
+      await worker.unregisterFile(database.fileName).catch(e => console.warn(`Unable to unregister ${database.fileName}:`, e))
+      removeAttachedDatabase(database.alias)
+    } catch (error) {
+      console.error(`Failed to detach ${database.alias}:`, error)
+      alert(`Detach failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  return (
+    <div style={{ marginTop: '16px' }}>
+      <div style={{
+        fontSize: '12px',
+        color: '#6c757d',
+        marginBottom: '8px',
+        fontWeight: 'bold'
+      }}>
+        Attached Databases ({attachedDatabases.length})
+      </div>
+      {attachedDatabases.map(database => (
+        <div key={database.alias} className="panel-surface" style={{
+          padding: '8px',
+          marginBottom: '8px',
+          border: '1px solid var(--border)'
+        }}>
+          <div style={{ fontSize: '12px', fontWeight: 'bold' }}>{database.alias}</div>
+          <div style={{ fontSize: '10px', color: 'var(--muted)' }}>
+            {database.fileName} • {formatMB(database.size)} • Read-only
+          </div>
+          {database.relations.length === 0 && (
+            <div style={{ fontSize: '11px', color: 'var(--muted)', marginTop: '4px' }}>No tables or views</div>
+          )}
+          {relationsBySchema(database.relations).map(([schema, relations]) => (
+            <div key={schema} style={{ marginTop: '4px', fontSize: '11px' }}>
+              <div style={{ color: 'var(--muted)' }}>{schema}</div>
+              {relations.map(relation => (
+                <button
+                  key={relation.name}
+                  className="btn"
+                  title={`Insert a SELECT from ${qualifiedRelationName(database.alias, relation)}`}
+                  style={{ display: 'block', width: '100%', textAlign: 'left', fontSize: '11px', padding: '2px 6px', marginTop: '2px' }}
+                  onClick={() => {
+                    setCurrentQuery(`SELECT * FROM ${qualifiedRelationName(database.alias, relation)} LIMIT 10;`)
+                    setActivePanel('sql')
+                  }}
+                >
+                  {relation.name}
+                  {relation.type === 'view' && <span style={{ color: 'var(--muted)' }}> (view)</span>}
+                </button>
+              ))}
+            </div>
+          ))}
+          <button
+            className="btn btn-danger"
+            style={{ fontSize: '12px', marginTop: '8px' }}
+            onClick={() => detach(database)}
+          >
+            Detach
+          </button>
+        </div>
+      ))}
+    </div>
+  )
+}
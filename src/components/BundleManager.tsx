@@ -1,15 +1,41 @@
 import { useState, useRef } from 'react'
 import { useStore } from '../store/store'
-import { createBundle, downloadBundlePdf, loadBundle, type BundlePdfOptions } from '../types/bundle'
-// import { useDuckDB } from '../providers/DuckDBProvider'
+import {
+  createBundle,
+  decodeEmbeddedDataset,
+  downloadBundle,
+  downloadBundlePdf,
+  embedDataset,
+  loadBundle,
+  restoreDashboardCharts,
+  restoreSavedQueries,
+  type BundlePdfOptions,
+  type EmbeddedDataset
+} from '../types/bundle'
+import { useDuckDB } from '../providers/DuckDBProvider'
+import { queryResultTable } from '../utils/columnarResult'
+import { clearDatasetCache, isDatasetCacheAvailable, putCachedDataset } from '../utils/datasetCache'
+import { detectFileType, isInsertedFileType } from '../utils/fileFormats'
+import { datasetFieldsFromProfile } from '../utils/datasetProfile'
+import type { MaterializedInfo } from '../utils/materialize'
+import { exportViewsFor } from '../utils/databaseFile'
+import type { Column, Dataset } from '../types'
+
+type EmbedMode = 'none' | 'raw' | 'parquet'
 
 export function BundleManager() {
   const store = useStore()
+  const { worker } = useDuckDB()
   const [isExporting, setIsExporting] = useState(false)
   const [isImporting, setIsImporting] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [showOptions, setShowOptions] = useState(false)
+  const [showBundleOptions, setShowBundleOptions] = useState(false)
+  const [isSavingBundle, setIsSavingBundle] = useState(false)
+  const [isExportingDatabase, setIsExportingDatabase] = useState(false)
+  const [embedMode, setEmbedMode] = useState<EmbedMode>('raw')
   const defaultBaseName = `duckboard-${new Date().toISOString().split('T')[0]}`
+  const [bundleName, setBundleName] = useState<string>(defaultBaseName)
   const [pdfName, setPdfName] = useState<string>(`${defaultBaseName}.pdf`)
   const [options, setOptions] = useState<BundlePdfOptions>({
     includeMetadata: true,
@@ -42,14 +68,18 @@ export function BundleManager() {
         {
           datasets: store.datasets,
           currentQuery: store.currentQuery,
+          queries: store.queries,
+          activeQueryId: store.activeQueryId,
           queryResult: store.queryResult,
           queryStatus: store.queryStatus,
           chartConfig: store.chartConfig,
+          charts: store.charts,
+          dashboardCols: store.dashboardCols,
           activePanel: store.activePanel
         },
         `Duckboard session exported on ${new Date().toLocaleDateString()}`
       )
-      await downloadBundlePdf(bundle, finalName, options)
+      await downloadBundlePdf(bundle, finalName, options, queryResultTable(store.queryResult))
       setShowOptions(false)
     } catch (err) {
       setError(`Export failed: ${err instanceof Error ? err.message : 'Unknown error'}`)
@@ -58,6 +88,82 @@ export function BundleManager() {
     }
   }
 
+  const confirmSaveBundle = async () => {
+    if (isSavingBundle) return
+    setIsSavingBundle(true)
+    setError(null)
+    try {
+      const baseName = ((bundleName || '').trim() || defaultBaseName)
+        .replace(/[\\/:*?"<>|]/g, '-')
+        .replace(/\.duckboard$/i, '')
+
+      // Collect dataset bytes from the worker's virtual filesystem
+      const embedded: Record<string, EmbeddedDataset> = {}
+      if (embedMode !== 'none') {
+        if (!worker) throw new Error('DuckDB is not initialized')
+        for (const dataset of store.datasets) {
+          // Remote datasets are fetched from their URL again on import
+          if (dataset.sourceUrl) continue
+          embedded[dataset.id] = await embedDataset(worker, dataset, embedMode)
+        }
+      }
+
+      const bundle = createBundle(
+        baseName,
+        {
+          datasets: store.datasets,
+          currentQuery: store.currentQuery,
+          queries: store.queries,
+          activeQueryId: store.activeQueryId,
+          queryResult: store.queryResult,
+          queryStatus: store.queryStatus,
+          chartConfig: store.chartConfig,
+          charts: store.charts,
+          dashboardCols: store.dashboardCols,
+          activePanel: store.activePanel
+        },
+        `Duckboard session exported on ${new Date().toLocaleDateString()}`,
+        embedded
+      )
+      downloadBundle(bundle, `${baseName}.duckboard`)
+      setShowBundleOptions(false)
+    } catch (err) {
+      setError(`Bundle export failed: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    } finally {
+      setIsSavingBundle(false)
+    }
+  }
+
+  // Whole session as a DuckDB file: every table and view as a table, saved queries as views
+  const handleExportDatabase = async () => {
+    if (!worker || isExportingDatabase) return
+    setIsExportingDatabase(true)
+    setError(null)
+    try {
+      const fileName = `${defaultBaseName}.duckdb`
+      const tables = await worker.listRelations()
+      const { views, skipped } = exportViewsFor(store.queries, tables)
+      const result = await worker.exportDatabase(fileName, views)
+      const blob = new Blob([result.bytes as BlobPart], { type: 'application/octet-stream' })
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = fileName
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      URL.revokeObjectURL(url)
+      const notExported = [...skipped, ...result.skipped]
+      if (notExported.length > 0) {
+        alert(`Queries not saved as views:\n${notExported.map(v => `${v.name}: ${v.reason}`).join('\n')}`)
+      }
+    } catch (err) {
+      setError(`Database export failed: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    } finally {
+      setIsExportingDatabase(false)
+    }
+  }
+
   const handleImport = async () => {
     fileInputRef.current?.click()
   }
@@ -71,33 +177,117 @@ export function BundleManager() {
 
     try {
       const bundle = await loadBundle(file)
+
+      // Verify every embedded payload before touching the current session
+      const payloads = new Map<string, Uint8Array>()
+      for (const dataset of bundle.datasets) {
+        if (dataset.data) {
+          payloads.set(dataset.id, await decodeEmbeddedDataset(dataset))
+        }
+      }
+      if (payloads.size > 0 && !worker) {
+        throw new Error('DuckDB is not initialized')
+      }
       
-      // Clear current session
+      // Clear current session; the old views, files and attached databases go too, so the
+      // bundle's datasets get their own names and aliases back
+      if (worker) await worker.resetSession()
       store.clearSession()
+      await clearDatasetCache().catch(e => console.warn('Unable to clear dataset cache:', e))
       
-      // Import datasets and register files
+      // Import datasets and replay file registration for embedded data
       for (const dataset of bundle.datasets) {
-        // Convert bundle dataset to store dataset format
-        const storeDataset = {
+        const tableName = dataset.tableName || dataset.id
+        const bytes = payloads.get(dataset.id)
+        let fileName = dataset.fileName
+        let columns: Column[] = []
+        let profile: Partial<Dataset> = {}
+        let materialized: MaterializedInfo | undefined
+        let cached = false
+        let loaded = false
+        const fileType = dataset.data?.fileType ?? (dataset.sourceUrl ? detectFileType(dataset.fileName) : null)
+
+        if (bytes && dataset.data && worker) {
+          fileName = dataset.data.fileName
+          await worker.registerFile(fileName, bytes.slice().buffer)
+          loaded = true
+        } else if (dataset.sourceUrl && fileType && worker) {
+          // An unreachable URL leaves the dataset's metadata in place; Reload fetches it again
+          loaded = await worker.registerUrl(fileName, dataset.sourceUrl).then(() => true, e => {
+            console.warn(`Unable to register ${dataset.sourceUrl}:`, e)
+            return false
+          })
+        }
+
+        if (loaded && fileType && worker) {
+          await worker.createView(tableName, fileName, fileType, { sheet: dataset.data?.sheet, csv: dataset.csvOptions })
+          const tableInfo = await worker.getTableInfo(tableName)
+          columns = tableInfo.columns.map(col => ({ name: col.name, type: col.type, nullable: true }))
+          if (dataset.materialize && !isInsertedFileType(fileType)) {
+            materialized = await worker.materializeTable(tableName, dataset.materialize.orderBy).catch(e => {
+              console.warn(`Unable to materialize ${tableName}; keeping it as a view:`, e)
+              return undefined
+            })
+          }
+          try {
+            profile = datasetFieldsFromProfile(await worker.profileTable(tableName))
+          } catch (profileError) {
+            console.warn(`Unable to profile ${tableName}:`, profileError)
+          }
+
+          if (bytes && dataset.data && isDatasetCacheAvailable()) {
+            try {
+              await putCachedDataset({
+                id: dataset.id,
+                fileName,
+                fileType: dataset.data.fileType,
+                sheet: dataset.data.sheet,
+                bytes: bytes.slice().buffer,
+                size: bytes.byteLength,
+                cachedAt: new Date().toISOString()
+              })
+              cached = true
+            } catch (cacheError) {
+              console.warn(`Unable to cache ${fileName}:`, cacheError)
+            }
+          }
+        }
+
+        // Datasets without embedded data or a URL only restore metadata; their files must be re-uploaded
+        store.addDataset({
           id: dataset.id,
           name: dataset.name,
-          tableName: dataset.tableName || dataset.id,
-          fileName: dataset.fileName,
+          tableName,
+          fileName,
           fileSize: dataset.fileSize,
           size: dataset.fileSize,
-          rowCount: dataset.columnCount || 0,
-          columns: [], // We'll need to get this from the actual table
+          rowCount: 0,
+          columns,
           file: null,
-          embedded: false, // Default to false since we don't have the original file
+          embedded: !!bytes,
+          sha256: dataset.sha256,
+          sheet: dataset.data?.sheet,
+          // Options only apply while the dataset is still backed by the original CSV
+          csvOptions: fileType === 'csv' ? dataset.csvOptions : undefined,
+          sourceUrl: dataset.sourceUrl,
+          cached,
+          materialized,
           uploadedAt: dataset.uploadedAt,
-          createdAt: new Date()
-        }
-        // Note: We can't actually re-upload the files, but we can restore metadata
-        // In a real implementation, you'd need to handle file restoration
-        store.addDataset(storeDataset)
+          createdAt: new Date(),
+          ...profile
+        })
       }
       
-      // Restore query and results
+      // Restore query tabs, the active query and results
+      if (bundle.queries?.length) {
+        store.loadQueries(restoreSavedQueries(bundle.queries), bundle.activeQueryId)
+      }
+
+      // Dashboard charts keep their query ids, so they stay bound to the restored tabs
+      if (bundle.charts) {
+        store.loadCharts(restoreDashboardCharts(bundle.charts), bundle.layout?.gridCols)
+      }
+
       if (bundle.currentQuery) {
         store.setCurrentQuery(bundle.currentQuery)
       }
@@ -156,6 +346,47 @@ export function BundleManager() {
         {isExporting ? '⏳' : '📄'}
         Export PDF
       </button>
+
+      <button
+        onClick={() => setShowBundleOptions(true)}
+        disabled={isSavingBundle}
+        style={{
+          padding: '6px 12px',
+          border: '1px solid #ced4da',
+          borderRadius: '4px',
+          backgroundColor: isSavingBundle ? '#e9ecef' : '#fff',
+          color: '#495057',
+          fontSize: '12px',
+          cursor: isSavingBundle ? 'not-allowed' : 'pointer',
+          display: 'flex',
+          alignItems: 'center',
+          gap: '4px'
+        }}
+      >
+        {isSavingBundle ? '⏳' : '💾'}
+        Save Bundle
+      </button>
+
+      <button
+        onClick={handleExportDatabase}
+        disabled={isExportingDatabase || !worker}
+        title="Download all datasets as tables and saved queries as views in a DuckDB database file"
+        style={{
+          padding: '6px 12px',
+          border: '1px solid #ced4da',
+          borderRadius: '4px',
+          backgroundColor: isExportingDatabase ? '#e9ecef' : '#fff',
+          color: '#495057',
+          fontSize: '12px',
+          cursor: isExportingDatabase ? 'not-allowed' : 'pointer',
+          display: 'flex',
+          alignItems: 'center',
+          gap: '4px'
+        }}
+      >
+        {isExportingDatabase ? '⏳' : '🦆'}
+        Export .duckdb
+      </button>
       
       <button
         onClick={handleImport}
@@ -329,6 +560,84 @@ export function BundleManager() {
         </div>
       )}
 
+      {showBundleOptions && (
+        <div style={{
+          position: 'fixed',
+          top: 0,
+          left: 0,
+          right: 0,
+          bottom: 0,
+          backgroundColor: 'rgba(0,0,0,0.3)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          zIndex: 1000
+        }}>
+          <div className="panel-surface" style={{
+            width: '420px',
+            backgroundColor: 'var(--surface-2)',
+            border: '1px solid var(--border)',
+            borderRadius: '8px',
+            padding: '16px'
+          }}>
+            <div style={{ fontSize: '14px', fontWeight: 600, marginBottom: '8px' }}>
+              Save Bundle
+            </div>
+            <div style={{ display: 'grid', gap: '8px' }}>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                <label style={{ fontSize: '12px', color: 'var(--muted)' }}>Bundle name</label>
+                <input
+                  type="text"
+                  value={bundleName}
+                  onChange={(e) => setBundleName(e.target.value)}
+                  placeholder={defaultBaseName}
+                  style={{
+                    flex: 1,
+                    padding: '4px 6px',
+                    border: '1px solid var(--border)',
+                    borderRadius: '4px',
+                    backgroundColor: 'var(--bg)',
+                    color: 'var(--text)',
+                    fontSize: '12px'
+                  }}
+                />
+              </div>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                <label style={{ fontSize: '12px', color: 'var(--muted)' }}>Dataset data</label>
+                <select
+                  value={embedMode}
+                  onChange={(e) => setEmbedMode(e.target.value as EmbedMode)}
+                  style={{
+                    flex: 1,
+                    padding: '4px 6px',
+                    border: '1px solid var(--border)',
+                    borderRadius: '4px',
+                    backgroundColor: 'var(--bg)',
+                    color: 'var(--text)',
+                    fontSize: '12px'
+                  }}
+                >
+                  <option value="raw">Embed original files</option>
+                  <option value="parquet">Embed as Parquet (smaller)</option>
+                  <option value="none">Metadata only</option>
+                </select>
+              </div>
+              {embedMode === 'none' && store.datasets.length > 0 && (
+                <div style={{ fontSize: '11px', color: 'var(--muted)' }}>
+                  Without embedded data, datasets must be re-uploaded after import.
+                </div>
+              )}
+            </div>
+            <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '8px', marginTop: '12px' }}>
+              <button className="btn" style={{ fontSize: '12px' }} onClick={() => setShowBundleOptions(false)}>Cancel</button>
+              <button className="btn" style={{ fontSize: '12px' }} onClick={confirmSaveBundle} disabled={isSavingBundle}>
+                {isSavingBundle ? 'Saving…' : 'Save'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {error && (
         <div style={{
           padding: '4px 8px',
@@ -1,17 +1,57 @@
 import { useState, useEffect, useMemo } from 'react'
-import * as vega from 'vega'
-import * as vegaLite from 'vega-lite'
+import { v4 as uuidv4 } from 'uuid'
+import { useDuckDB } from '../providers/DuckDBProvider'
 import { useStore } from '../store/store'
+import type { ChartConfig, ChartEncodings, ChartTimeUnit, ChartType } from '../types'
+import { addChartInteraction, buildFilteredQuerySQL, selectionFilterSQL, type ChartDragMode, type ChartSelectionTuple } from '../utils/chartFilter'
+import { buildChartQuery, clampBinCount, CHART_TIME_UNITS, DEFAULT_BIN_COUNT } from '../utils/chartSql'
+import { buildAggregatedChartSpec, buildChartSpec } from '../utils/chartSpec'
+import { CHART_TYPES, guessCoordinateFields } from '../utils/chartTypes'
+import { fieldTypeFor, findColumnType, isNumericType, isTemporalType } from '../utils/columnTypes'
+import { chartResultFrom, type ChartResult } from '../utils/dashboard'
+import { queryResultTable } from '../utils/columnarResult'
+import { ChartEncodingOptions } from './ChartEncodingOptions'
+import { VegaChart } from './VegaChart'
 
 export function ChartBuilder() {
-  const { queryResult, chartConfig, setChartConfig } = useStore()
-  const [selectedChart, setSelectedChart] = useState<'bar' | 'line' | 'scatter' | 'histogram'>(chartConfig?.type || 'bar')
+  const { worker } = useDuckDB()
+  const {
+    queryResult,
+    chartConfig,
+    setChartConfig,
+    queries,
+    activeQueryId,
+    dashboardCols,
+    addChart,
+    setActivePanel,
+    openQueryTab,
+    updateQuery,
+    setRunRequested
+  } = useStore()
+  const [selectedChart, setSelectedChart] = useState<ChartType>(chartConfig?.type || 'bar')
   const [xField, setXField] = useState<string>(chartConfig?.xField || '')
   const [yField, setYField] = useState<string>(chartConfig?.yField || '')
   const [colorField, setColorField] = useState<string>(chartConfig?.colorField || '')
-  const [chartContainer, setChartContainer] = useState<HTMLDivElement | null>(null)
+  const [timeUnit, setTimeUnit] = useState<ChartTimeUnit>(chartConfig?.timeUnit || 'auto')
+  const [bins, setBins] = useState<number>(chartConfig?.bins || DEFAULT_BIN_COUNT)
+  const [encodings, setEncodings] = useState<ChartEncodings>(chartConfig?.encodings ?? {})
+  const [showEncodings, setShowEncodings] = useState(Object.keys(encodings).length > 0)
+  const [savedChartName, setSavedChartName] = useState<string | null>(null)
+  const [aggregate, setAggregate] = useState<(ChartResult & { sql: string }) | null>(null)
+  const [isAggregating, setIsAggregating] = useState(false)
+  const [showSql, setShowSql] = useState(false)
+  const [dragMode, setDragMode] = useState<ChartDragMode>('select')
+  const [selection, setSelection] = useState<Record<string, ChartSelectionTuple[]>>({})
+  const [viewKey, setViewKey] = useState(0)
+  const activeQuery = queries.find(q => q.id === activeQueryId)
+  const typeInfo = CHART_TYPES[selectedChart]
 
-  const { data, columns } = queryResult
+  const { columns, schema } = queryResult
+  // Vega needs row objects; materialize the loaded rows once per result page
+  const data = useMemo(
+    () => queryResultTable(queryResult).toRows(),
+    [queryResult.table, queryResult.data, columns]
+  )
 
   // Auto-populate fields when data changes
   useEffect(() => {
@@ -22,125 +62,131 @@ export function ChartBuilder() {
       // Only auto-set yField if the second column is quantitative
       if (!yField && columns.length > 1) {
         const second = columns[1]
-        const type = getFieldType(data, second)
+        const type = fieldTypeFor(schema, data, second)
         if (type === 'quantitative') {
           setYField(second)
         }
       }
     }
-  }, [columns, xField, yField, data])
+  }, [columns, xField, yField, data, schema])
+
+  const config = useMemo<ChartConfig>(() => ({
+    type: selectedChart,
+    xField,
+    yField: yField || undefined,
+    colorField: colorField || undefined,
+    timeUnit,
+    bins,
+    encodings: Object.keys(encodings).length > 0 ? encodings : undefined
+  }), [selectedChart, xField, yField, colorField, timeUnit, bins, encodings])
 
   // Save chart config to store
   useEffect(() => {
-    if (xField) {
-      setChartConfig({
-        type: selectedChart,
-        xField,
-        yField: yField || undefined,
-        colorField: colorField || undefined
-      })
-    }
-  }, [selectedChart, xField, yField, colorField, setChartConfig])
+    if (config.xField) setChartConfig(config)
+  }, [config, setChartConfig])
 
-  // Generate Vega-Lite specification
-  const vegaLiteSpec = useMemo(() => {
-    if (!data || data.length === 0 || !xField) return null
+  // Aggregate in DuckDB over the statement that produced the result; results restored from
+  // bundles or multi-statement scripts are drawn from the loaded rows instead
+  const chartQuery = useMemo(
+    () => (queryResult.sql ? buildChartQuery(queryResult.sql, config, schema) : null),
+    [queryResult.sql, config, schema]
+  )
+  const xType = findColumnType(schema, xField)
+  const yType = findColumnType(schema, yField)
+  const missingY = typeInfo.requiresY && !yField
+  const showTimeUnit = (!!xType && isTemporalType(xType) && !['scatter', 'map', 'boxplot'].includes(selectedChart))
+    || (selectedChart === 'heatmap' && !!yType && isTemporalType(yType))
+  const showBins = (selectedChart === 'histogram' && !!xType && isNumericType(xType))
+    || (selectedChart === 'heatmap' && [xType, yType].some(type => !!type && isNumericType(type)))
 
-    const spec: any = {
-      $schema: 'https://vega.github.io/schema/vega-lite/v5.json',
-      data: { values: data },
-      width: 'container',
-      height: 'container',
-      background: 'transparent'
+  // Maps start from columns named like coordinates
+  const chooseChartType = (type: ChartType) => {
+    setSelectedChart(type)
+    if (type !== 'map') return
+    const { longitude, latitude } = guessCoordinateFields(columns)
+    if (longitude && latitude) {
+      setXField(longitude)
+      setYField(latitude)
     }
+  }
 
-    switch (selectedChart) {
-      case 'bar': {
-        spec.mark = 'bar'
-        const xEnc = { field: xField, type: getFieldType(data, xField) }
-        let yEnc: any
-        if (yField) {
-          const yType = getFieldType(data, yField)
-          // For non-numeric y, default to count; for numeric y, sum values
-          yEnc = yType === 'quantitative'
-            ? { field: yField, type: yType, aggregate: 'sum' }
-            : { aggregate: 'count' }
-        } else {
-          yEnc = { aggregate: 'count' }
-        }
-        spec.encoding = { x: xEnc, y: yEnc }
-        break
-      }
-
-      case 'line':
-        spec.mark = 'line'
-        spec.encoding = {
-          x: { field: xField, type: getFieldType(data, xField) },
-          y: yField ? { field: yField, type: getFieldType(data, yField) } : { aggregate: 'count' }
-        }
-        break
-
-      case 'scatter':
-        spec.mark = 'point'
-        spec.encoding = {
-          x: { field: xField, type: getFieldType(data, xField) },
-          y: yField ? { field: yField, type: getFieldType(data, yField) } : { aggregate: 'count' }
-        }
-        break
-
-      case 'histogram':
-        spec.mark = 'bar'
-        spec.encoding = {
-          x: { 
-            bin: true,
-            field: xField, 
-            type: getFieldType(data, xField) 
-          },
-          y: { aggregate: 'count' }
-        }
-        break
+  useEffect(() => {
+    if (!worker || !chartQuery) {
+      setAggregate(null)
+      return
     }
-
-    // Add color encoding if specified
-    if (colorField && colorField !== xField && colorField !== yField) {
-      spec.encoding.color = { field: colorField, type: getFieldType(data, colorField) }
+    let cancelled = false
+    setIsAggregating(true)
+    worker.query(chartQuery.sql)
+      .then(rows => {
+        if (!cancelled) setAggregate({ sql: chartQuery.sql, ...chartResultFrom(rows, chartQuery.limit) })
+      })
+      .catch(error => {
+        console.error('Chart aggregation failed:', error)
+        if (!cancelled) {
+          const message = error instanceof Error ? error.message : 'Unknown error'
+          setAggregate({ sql: chartQuery.sql, rows: [], refreshedAt: new Date().toISOString(), error: message })
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsAggregating(false)
+      })
+    return () => {
+      cancelled = true
     }
+  }, [worker, chartQuery])
 
-    // Add tooltip
-    spec.encoding.tooltip = [
-      { field: xField, type: getFieldType(data, xField) }
-    ]
-    if (yField && getFieldType(data, yField) === 'quantitative') {
-      spec.encoding.tooltip.push({ field: yField, type: 'quantitative' })
+  // Generate Vega-Lite specification
+  const vegaLiteSpec = useMemo(() => {
+    if (chartQuery) {
+      if (!aggregate || aggregate.sql !== chartQuery.sql || aggregate.error || aggregate.rows.length === 0) return null
+      return buildAggregatedChartSpec(chartQuery, aggregate.rows, config)
     }
+    if (!data || data.length === 0 || !xField || missingY) return null
+    return buildChartSpec(config, data, schema)
+  }, [chartQuery, aggregate, data, schema, config, xField, missingY])
 
-    return spec
-  }, [data, selectedChart, xField, yField, colorField])
-
-  // Render chart
-  useEffect(() => {
-    if (!chartContainer || !vegaLiteSpec) return
-
-    try {
-      // Compile Vega-Lite to Vega
-      const vegaSpec = vegaLite.compile(vegaLiteSpec).spec
-      
-      // Create Vega view
-      const view = new vega.View(vega.parse(vegaSpec), {
-        renderer: 'canvas',
-        container: chartContainer,
-        hover: true
-      })
+  // Brushing, clicking and legend selections filter the query that produced the result
+  const interaction = useMemo(
+    () => addChartInteraction(vegaLiteSpec, config, { aggregated: !!chartQuery, dragMode }),
+    [vegaLiteSpec, config, chartQuery, dragMode]
+  )
+  useEffect(() => setSelection({}), [interaction])
+  const filter = selectionFilterSQL(selection, interaction.columns, vegaLiteSpec?.data?.values ?? [])
+  const filteredSql = filter && queryResult.sql ? buildFilteredQuerySQL(queryResult.sql, filter) : null
+  // Only replace the tab's SQL while it still holds the statement the chart was drawn from
+  const canApplyFilter = !!filteredSql && !!activeQuery && activeQuery.sql === queryResult.sql
+  const clearSelection = () => {
+    setSelection({})
+    setViewKey(key => key + 1)
+  }
 
-      view.runAsync()
+  // Saved charts re-run the active tab's SQL on the dashboard
+  const saveToDashboard = () => {
+    if (!activeQuery || !xField) return
+    const name = `${activeQuery.name} – ${typeInfo.label}`
+    addChart({
+      id: uuidv4(),
+      name,
+      queryId: activeQuery.id,
+      config,
+      width: Math.min(2, dashboardCols),
+      height: 2,
+      createdAt: new Date()
+    })
+    setSavedChartName(name)
+  }
 
-      return () => {
-        view.finalize()
-      }
-    } catch (error) {
-      console.error('Error rendering chart:', error)
-    }
-  }, [chartContainer, vegaLiteSpec])
+  // Where the drawn rows come from
+  let status = ''
+  if (missingY) status = `Choose a ${typeInfo.yLabel?.toLowerCase()} to draw this chart`
+  else if (!chartQuery) status = `Drawn from the ${data.length.toLocaleString()} loaded rows`
+  else if (isAggregating) status = 'Aggregating in DuckDB...'
+  else if (aggregate?.error) status = `Aggregation failed: ${aggregate.error}`
+  else if (aggregate) {
+    const limited = aggregate.truncated ? ` (first ${chartQuery.limit.toLocaleString()})` : ''
+    status = `${aggregate.rows.length.toLocaleString()} ${chartQuery.sampled ? 'sampled points' : 'aggregated rows'}${limited}`
+  }
 
   if (!data || data.length === 0) {
     return (
@@ -182,7 +228,7 @@ export function ChartBuilder() {
           </label>
           <select 
             value={selectedChart} 
-            onChange={(e) => setSelectedChart(e.target.value as any)}
+            onChange={(e) => chooseChartType(e.target.value as ChartType)}
             style={{
               width: '100%',
               padding: '8px',
@@ -191,17 +237,16 @@ export function ChartBuilder() {
               fontSize: '12px'
             }}
           >
-            <option value="bar">Bar Chart</option>
-            <option value="line">Line Chart</option>
-            <option value="scatter">Scatter Plot</option>
-            <option value="histogram">Histogram</option>
+            {Object.entries(CHART_TYPES).map(([value, info]) => (
+              <option key={value} value={value}>{info.label}</option>
+            ))}
           </select>
         </div>
 
         <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '16px', marginBottom: '16px' }}>
           <div>
             <label style={{ display: 'block', marginBottom: '4px', fontSize: '12px', fontWeight: 'bold' }}>
-              X Field
+              {typeInfo.xLabel}
             </label>
             <select 
               value={xField} 
@@ -221,13 +266,39 @@ export function ChartBuilder() {
             </select>
           </div>
 
+          {typeInfo.yLabel && (
+            <div>
+              <label style={{ display: 'block', marginBottom: '4px', fontSize: '12px', fontWeight: 'bold' }}>
+                {typeInfo.yLabel}
+              </label>
+              <select 
+                value={yField} 
+                onChange={(e) => setYField(e.target.value)}
+                style={{
+                  width: '100%',
+                  padding: '8px',
+                  border: '1px solid #ced4da',
+                  borderRadius: '4px',
+                  fontSize: '12px'
+                }}
+              >
+                <option value="">Select field...</option>
+                {columns.map(col => (
+                  <option key={col} value={col}>{col}</option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+
+        {typeInfo.colorLabel && (
           <div>
             <label style={{ display: 'block', marginBottom: '4px', fontSize: '12px', fontWeight: 'bold' }}>
-              Y Field
+              {typeInfo.colorLabel}
             </label>
             <select 
-              value={yField} 
-              onChange={(e) => setYField(e.target.value)}
+              value={colorField} 
+              onChange={(e) => setColorField(e.target.value)}
               style={{
                 width: '100%',
                 padding: '8px',
@@ -236,39 +307,194 @@ export function ChartBuilder() {
                 fontSize: '12px'
               }}
             >
-              <option value="">Select field...</option>
+              <option value="">None</option>
               {columns.map(col => (
                 <option key={col} value={col}>{col}</option>
               ))}
             </select>
           </div>
-        </div>
+        )}
 
-        <div>
-          <label style={{ display: 'block', marginBottom: '4px', fontSize: '12px', fontWeight: 'bold' }}>
-            Color Field (Optional)
-          </label>
-          <select 
-            value={colorField} 
-            onChange={(e) => setColorField(e.target.value)}
-            style={{
-              width: '100%',
-              padding: '8px',
-              border: '1px solid #ced4da',
-              borderRadius: '4px',
-              fontSize: '12px'
-            }}
+        {showTimeUnit && (
+          <div style={{ marginTop: '16px' }}>
+            <label style={{ display: 'block', marginBottom: '4px', fontSize: '12px', fontWeight: 'bold' }}>
+              Time Unit
+            </label>
+            <select
+              value={timeUnit}
+              onChange={(e) => setTimeUnit(e.target.value as ChartTimeUnit)}
+              style={{
+                width: '100%',
+                padding: '8px',
+                border: '1px solid #ced4da',
+                borderRadius: '4px',
+                fontSize: '12px'
+              }}
+            >
+              {CHART_TIME_UNITS.map(unit => (
+                <option key={unit} value={unit}>{unit === 'auto' ? 'Automatic' : unit}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {showBins && (
+          <div style={{ marginTop: '16px' }}>
+            <label style={{ display: 'block', marginBottom: '4px', fontSize: '12px', fontWeight: 'bold' }}>
+              Bins
+            </label>
+            <input
+              type="number"
+              min={2}
+              value={bins}
+              onChange={(e) => setBins(clampBinCount(Number(e.target.value)))}
+              style={{
+                width: '100%',
+                padding: '8px',
+                border: '1px solid #ced4da',
+                borderRadius: '4px',
+                fontSize: '12px',
+                boxSizing: 'border-box'
+              }}
+            />
+          </div>
+        )}
+
+        <div style={{ marginTop: '16px' }}>
+          <button
+            className="btn"
+            style={{ fontSize: '12px' }}
+            aria-expanded={showEncodings}
+            onClick={() => setShowEncodings(!showEncodings)}
           >
-            <option value="">None</option>
-            {columns.map(col => (
-              <option key={col} value={col}>{col}</option>
-            ))}
-          </select>
+            {showEncodings ? '▾' : '▸'} Encoding options
+          </button>
+          {Object.keys(encodings).length > 0 && (
+            <button className="btn" style={{ fontSize: '12px', marginLeft: '8px' }} onClick={() => setEncodings({})}>
+              Reset
+            </button>
+          )}
+          {showEncodings && (
+            <div style={{ marginTop: '8px' }}>
+              <ChartEncodingOptions type={selectedChart} encodings={encodings} onChange={setEncodings} />
+            </div>
+          )}
         </div>
       </div>
 
-      <div 
-        ref={setChartContainer}
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px', padding: '8px 0', fontSize: '12px' }}>
+        <button
+          className="btn"
+          style={{ fontSize: '12px' }}
+          disabled={!activeQuery || !xField}
+          title={activeQuery ? `Add this chart to the dashboard; it re-runs "${activeQuery.name}" on refresh` : 'Open a query tab to save charts'}
+          onClick={saveToDashboard}
+        >
+          Save to dashboard
+        </button>
+        {savedChartName && (
+          <span style={{ color: '#6c757d' }}>
+            Saved "{savedChartName}" •{' '}
+            <a href="#" onClick={(e) => { e.preventDefault(); setActivePanel('dashboard') }}>Open dashboard</a>
+          </span>
+        )}
+        <div style={{ flex: 1 }} />
+        <span style={{ color: aggregate?.error && chartQuery ? '#dc3545' : '#6c757d' }}>
+          {status}
+        </span>
+        {chartQuery && (
+          <button className="btn" style={{ fontSize: '12px' }} aria-expanded={showSql} onClick={() => setShowSql(!showSql)}>
+            {showSql ? 'Hide SQL' : 'Show SQL'}
+          </button>
+        )}
+      </div>
+
+      {chartQuery && showSql && (
+        <div style={{ marginBottom: '8px', border: '1px solid #dee2e6', borderRadius: '4px', backgroundColor: '#f8f9fa' }}>
+          <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '8px', padding: '4px 8px', borderBottom: '1px solid #dee2e6' }}>
+            <button className="btn" style={{ fontSize: '12px' }} onClick={() => navigator.clipboard?.writeText(chartQuery.sql)}>
+              Copy
+            </button>
+            <button
+              className="btn"
+              style={{ fontSize: '12px' }}
+              onClick={() => {
+                openQueryTab(chartQuery.sql)
+                setActivePanel('sql')
+              }}
+            >
+              Open in new tab
+            </button>
+          </div>
+          <pre style={{ margin: 0, padding: '8px', maxHeight: '160px', overflow: 'auto', fontSize: '11px', whiteSpace: 'pre-wrap' }}>
+            {chartQuery.sql}
+          </pre>
+        </div>
+      )}
+
+      {(interaction.selections.length > 0 || interaction.zoomable) && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px', paddingBottom: '8px', fontSize: '12px' }}>
+          {interaction.zoomable && (
+            <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+              Drag to
+              <select value={dragMode} onChange={(e) => setDragMode(e.target.value as ChartDragMode)} style={{ fontSize: '12px' }}>
+                <option value="select">select</option>
+                <option value="zoom">pan and zoom</option>
+              </select>
+            </label>
+          )}
+          {filter ? (
+            <>
+              <code
+                title={filter}
+                style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', fontSize: '11px' }}
+              >
+                WHERE {filter.replace(/\n/g, ' ')}
+              </code>
+              <button
+                className="btn"
+                style={{ fontSize: '12px' }}
+                disabled={!canApplyFilter}
+                title={canApplyFilter ? 'Filter and re-run the query in this tab' : 'The query has changed since the chart was drawn'}
+                onClick={() => {
+                  if (!activeQuery || !filteredSql) return
+                  updateQuery(activeQuery.id, filteredSql)
+                  setActivePanel('sql')
+                  setRunRequested(true)
+                }}
+              >
+                Apply to query
+              </button>
+              <button
+                className="btn"
+                style={{ fontSize: '12px' }}
+                disabled={!filteredSql}
+                onClick={() => {
+                  if (!filteredSql) return
+                  openQueryTab(filteredSql)
+                  setActivePanel('sql')
+                  setRunRequested(true)
+                }}
+              >
+                Open in new tab
+              </button>
+              <button className="btn" style={{ fontSize: '12px' }} onClick={clearSelection}>
+                Clear
+              </button>
+            </>
+          ) : interaction.selections.length > 0 && (
+            <span style={{ color: '#6c757d' }}>
+              Drag across the chart, click marks or click legend entries to filter the query; shift-click selects more
+            </span>
+          )}
+        </div>
+      )}
+
+      <VegaChart
+        key={viewKey}
+        spec={interaction.spec}
+        selections={interaction.selections}
+        onSelectionChange={(name, tuples) => setSelection(current => ({ ...current, [name]: tuples }))}
         style={{
           flex: 1,
           border: '1px solid #dee2e6',
@@ -279,24 +505,3 @@ export function ChartBuilder() {
     </div>
   )
 }
-
-// Helper function to determine field type
-function getFieldType(data: any[], field: string): 'quantitative' | 'ordinal' | 'nominal' | 'temporal' {
-  if (!data || data.length === 0) return 'nominal'
-  
-  const sampleValues = data.slice(0, 10).map(row => row[field]).filter(v => v !== null && v !== undefined)
-  
-  // Check if all values are numeric
-  const allNumeric = sampleValues.every(v => !isNaN(Number(v)) && v !== '')
-  if (allNumeric) return 'quantitative'
-  
-  // Check if values look like dates
-  const allDates = sampleValues.every(v => !isNaN(Date.parse(v)))
-  if (allDates) return 'temporal'
-  
-  // Check if values are categorical with few unique values
-  const uniqueValues = new Set(sampleValues)
-  if (uniqueValues.size <= 10) return 'ordinal'
-  
-  return 'nominal'
-}
\ No newline at end of file
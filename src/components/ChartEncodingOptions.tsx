@@ -0,0 +1,117 @@
+import type { ChartAggregate, ChartChannel, ChartEncodings, ChartScaleType, ChartSort, ChartType, EncodingOverride } from '../types'
+import { CHART_AGGREGATES, CHART_SCALES, CHART_SORTS, CHART_TYPES, measureChannel, setEncodingOverride } from '../utils/chartTypes'
+
+const FIELD_TYPES: NonNullable<EncodingOverride['type']>[] = ['quantitative', 'temporal', 'ordinal', 'nominal']
+
+const controlStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '4px',
+  border: '1px solid #ced4da',
+  borderRadius: '4px',
+  fontSize: '12px',
+  boxSizing: 'border-box'
+}
+
+interface ChartEncodingOptionsProps {
+  type: ChartType
+  encodings: ChartEncodings
+  onChange: (encodings: ChartEncodings) => void
+}
+
+// Per-channel overrides for what the chart would otherwise infer from the data
+export function ChartEncodingOptions({ type, encodings, onChange }: ChartEncodingOptionsProps) {
+  const info = CHART_TYPES[type]
+  const measure = measureChannel(type)
+  const channels: { channel: ChartChannel; label: string }[] = [
+    { channel: 'x', label: info.xLabel },
+    ...(info.yLabel ? [{ channel: 'y' as const, label: info.yLabel }] : []),
+    ...(info.colorLabel ? [{ channel: 'color' as const, label: info.colorLabel }] : [])
+  ]
+  const set = <K extends keyof EncodingOverride>(channel: ChartChannel, key: K, value: EncodingOverride[K] | undefined) =>
+    onChange(setEncodingOverride(encodings, channel, key, value))
+
+  return (
+    <div style={{ display: 'grid', gridTemplateColumns: '110px repeat(6, minmax(0, 1fr))', gap: '6px', alignItems: 'center', fontSize: '12px' }}>
+      <div />
+      {['Type', 'Aggregate', 'Sort', 'Scale', 'Title', 'Format'].map(heading => (
+        <div key={heading} style={{ fontWeight: 'bold' }}>{heading}</div>
+      ))}
+      {channels.map(({ channel, label }) => {
+        const override = encodings[channel] ?? {}
+        // Pies and maps place their fields by angle or projection, not along a sortable axis
+        const sortable = channel !== 'color' && !['pie', 'donut', 'map'].includes(type)
+        return [
+          <div key={`${channel}-label`} style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{label}</div>,
+          <select
+            key={`${channel}-type`}
+            aria-label={`${label} type`}
+            value={override.type ?? ''}
+            onChange={(e) => set(channel, 'type', (e.target.value || undefined) as EncodingOverride['type'])}
+            style={controlStyle}
+          >
+            <option value="">Automatic</option>
+            {FIELD_TYPES.map(fieldType => (
+              <option key={fieldType} value={fieldType}>{fieldType}</option>
+            ))}
+          </select>,
+          measure === channel ? (
+            <select
+              key={`${channel}-aggregate`}
+              aria-label={`${label} aggregate`}
+              value={override.aggregate ?? ''}
+              onChange={(e) => set(channel, 'aggregate', (e.target.value || undefined) as ChartAggregate | undefined)}
+              style={controlStyle}
+            >
+              <option value="">Automatic</option>
+              {Object.entries(CHART_AGGREGATES).map(([value, name]) => (
+                <option key={value} value={value}>{name}</option>
+              ))}
+            </select>
+          ) : <div key={`${channel}-aggregate`} />,
+          sortable ? (
+            <select
+              key={`${channel}-sort`}
+              aria-label={`${label} sort`}
+              value={override.sort ?? ''}
+              onChange={(e) => set(channel, 'sort', (e.target.value || undefined) as ChartSort | undefined)}
+              style={controlStyle}
+            >
+              <option value="">Automatic</option>
+              {Object.entries(CHART_SORTS).map(([value, name]) => (
+                <option key={value} value={value}>{name}</option>
+              ))}
+            </select>
+          ) : <div key={`${channel}-sort`} />,
+          <select
+            key={`${channel}-scale`}
+            aria-label={`${label} scale`}
+            value={override.scale ?? ''}
+            onChange={(e) => set(channel, 'scale', (e.target.value || undefined) as ChartScaleType | undefined)}
+            style={controlStyle}
+          >
+            <option value="">Automatic</option>
+            {CHART_SCALES.map(scale => (
+              <option key={scale} value={scale}>{scale}</option>
+            ))}
+          </select>,
+          <input
+            key={`${channel}-title`}
+            aria-label={`${label} title`}
+            placeholder="Automatic"
+            value={override.title ?? ''}
+            onChange={(e) => set(channel, 'title', e.target.value)}
+            style={controlStyle}
+          />,
+          <input
+            key={`${channel}-format`}
+            aria-label={`${label} format`}
+            placeholder="e.g. ,.2f or %b %Y"
+            value={override.format ?? ''}
+            onChange={(e) => set(channel, 'format', e.target.value)}
+            style={controlStyle}
+          />
+        ]
+      })}
+    </div>
+  )
+}
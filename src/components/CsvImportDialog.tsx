@@ -0,0 +1,259 @@
+import React, { useEffect, useState } from 'react'
+import { useDuckDB } from '../providers/DuckDBProvider'
+import { buildReadCsvSQL, parseCsvSniff, sqlString, type CsvOptions, type CsvSniffResult } from '../utils/fileFormats'
+import { formatValue } from '../utils/columnTypes'
+
+const PREVIEW_ROWS = 20
+const COLUMN_TYPES = ['VARCHAR', 'BIGINT', 'INTEGER', 'DOUBLE', 'DECIMAL(18,3)', 'BOOLEAN', 'DATE', 'TIMESTAMP', 'TIME']
+
+interface CsvImportDialogProps {
+  fileName: string // Registered file to read
+  initialOptions?: CsvOptions // Options of an existing dataset when re-importing
+  onConfirm: (options: CsvOptions) => void
+  onCancel: () => void
+}
+
+interface Preview {
+  columns: Array<{ name: string; type: string }> // As sniffed, before type overrides and renaming
+  rows: Record<string, any>[]
+}
+
+// Tabs are typed as "\t" in the delimiter field
+const showChar = (value?: string) => (value === '\t' ? '\\t' : value ?? '')
+const readChar = (value: string) => (value === '\\t' ? '\t' : value)
+
+function optionsFromSniff(sniff: CsvSniffResult): CsvOptions {
+  return {
+    delimiter: sniff.delimiter,
+    quote: sniff.quote,
+    escape: sniff.escape,
+    header: sniff.header,
+    skipRows: sniff.skipRows,
+    dateFormat: sniff.dateFormat,
+    timestampFormat: sniff.timestampFormat,
+    nullStrings: [],
+    columnTypes: {},
+    ignoreErrors: false,
+    normalizeNames: false
+  }
+}
+
+// Import settings for a CSV file: DuckDB's sniffed dialect, user overrides and a live preview
+export const CsvImportDialog: React.FC<CsvImportDialogProps> = ({ fileName, initialOptions, onConfirm, onCancel }) => {
+  const { worker } = useDuckDB()
+  const [sniff, setSniff] = useState<CsvSniffResult | null>(null)
+  const [options, setOptions] = useState<CsvOptions | null>(initialOptions ?? null)
+  const [preview, setPreview] = useState<Preview | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCancel()
+    }
+    window.addEventListener('keydown', onKey)
+    return () => window.removeEventListener('keydown', onKey)
+  }, [onCancel])
+
+  // Sniff once; a re-import keeps its stored options but still shows what DuckDB detects
+  useEffect(() => {
+    if (!worker) return
+    let cancelled = false
+    worker.query(`SELECT * FROM sniff_csv(${sqlString(fileName)})`)
+      .then(rows => {
+        if (cancelled || !rows[0]) return
+        const result = parseCsvSniff(rows[0])
+        setSniff(result)
+        setOptions(current => current ?? optionsFromSniff(result))
+      })
+      .catch(e => {
+        if (cancelled) return
+        setError(`Unable to detect the CSV format: ${e instanceof Error ? e.message : String(e)}`)
+        setOptions(current => current ?? { header: true, ignoreErrors: false, normalizeNames: false })
+      })
+    return () => { cancelled = true }
+  }, [worker, fileName])
+
+  // Refresh the preview shortly after the options stop changing
+  useEffect(() => {
+    if (!worker || !options) return
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      try {
+        const raw = buildReadCsvSQL(fileName, { ...options, columnTypes: undefined, normalizeNames: false })
+        const described = await worker.query(`DESCRIBE SELECT * FROM ${raw}`)
+        const rows = await worker.query(`SELECT * FROM ${buildReadCsvSQL(fileName, options)} LIMIT ${PREVIEW_ROWS}`)
+        if (cancelled) return
+        setPreview({
+          columns: described.map(row => ({ name: String(row.column_name), type: String(row.column_type) })),
+          rows
+        })
+        setError(null)
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : String(e))
+      }
+    }, 300)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [worker, fileName, options])
+
+  const update = (changes: Partial<CsvOptions>) => setOptions(current => ({ ...current, ...changes }))
+
+  const setColumnType = (column: string, type: string) => {
+    const columnTypes = { ...options?.columnTypes }
+    if (type) columnTypes[column] = type
+    else delete columnTypes[column]
+    update({ columnTypes })
+  }
+
+  const fieldStyle: React.CSSProperties = { display: 'flex', flexDirection: 'column', gap: 2, fontSize: 12 }
+  const inputStyle: React.CSSProperties = { fontSize: 12, padding: '2px 6px' }
+  const previewColumns = preview?.rows[0] ? Object.keys(preview.rows[0]) : []
+
+  return (
+    <div
+      onClick={onCancel}
+      style={{ position: 'fixed', top: 0, left: 0, right: 0, bottom: 0, backgroundColor: 'rgba(0,0,0,0.24)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 1000 }}
+    >
+      <div
+        className="panel-surface"
+        role="dialog"
+        aria-label="CSV import options"
+        onClick={(e) => e.stopPropagation()}
+        style={{ width: 760, maxHeight: '90vh', overflowY: 'auto', backgroundColor: 'var(--surface-2)', border: '1px solid var(--border)', borderRadius: 10, padding: 16, boxShadow: '0 8px 24px rgba(0,0,0,0.18)' }}
+      >
+        <div style={{ fontSize: 15, fontWeight: 700, marginBottom: 4 }}>CSV import options</div>
+        <div style={{ fontSize: 12, color: 'var(--muted)', marginBottom: 12 }}>
+          {fileName}
+          {sniff && ` · detected delimiter "${showChar(sniff.delimiter)}", ${sniff.header ? 'header row' : 'no header'}, ${sniff.columns.length} columns`}
+        </div>
+
+        {!options ? (
+          <div style={{ fontSize: 12 }}>Detecting format...</div>
+        ) : (
+          <>
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: 8 }}>
+              <label style={fieldStyle}>
+                Delimiter
+                <input style={inputStyle} value={showChar(options.delimiter)} onChange={(e) => update({ delimiter: readChar(e.target.value) })} />
+              </label>
+              <label style={fieldStyle}>
+                Quote
+                <input style={inputStyle} maxLength={1} value={options.quote ?? ''} onChange={(e) => update({ quote: e.target.value })} />
+              </label>
+              <label style={fieldStyle}>
+                Escape
+                <input style={inputStyle} maxLength={1} value={options.escape ?? ''} onChange={(e) => update({ escape: e.target.value })} />
+              </label>
+              <label style={fieldStyle}>
+                Skip rows
+                <input
+                  style={inputStyle}
+                  type="number"
+                  min={0}
+                  value={options.skipRows ?? 0}
+                  onChange={(e) => update({ skipRows: Math.max(0, Number(e.target.value) || 0) })}
+                />
+              </label>
+              <label style={fieldStyle}>
+                Date format
+                <input style={inputStyle} placeholder="%Y-%m-%d" value={options.dateFormat ?? ''} onChange={(e) => update({ dateFormat: e.target.value || undefined })} />
+              </label>
+              <label style={fieldStyle}>
+                Timestamp format
+                <input style={inputStyle} placeholder="%Y-%m-%d %H:%M:%S" value={options.timestampFormat ?? ''} onChange={(e) => update({ timestampFormat: e.target.value || undefined })} />
+              </label>
+              <label style={{ ...fieldStyle, gridColumn: 'span 2' }}>
+                NULL strings (comma-separated)
+                <input
+                  style={inputStyle}
+                  placeholder="NA, N/A, -"
+                  value={(options.nullStrings ?? []).join(', ')}
+                  onChange={(e) => update({ nullStrings: e.target.value.split(',').map(v => v.trim()).filter(Boolean) })}
+                />
+              </label>
+            </div>
+            <div style={{ display: 'flex', gap: 16, marginTop: 8, fontSize: 12 }}>
+              <label style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+                <input type="checkbox" checked={options.header ?? true} onChange={(e) => update({ header: e.target.checked })} />
+                First row is a header
+              </label>
+              <label style={{ display: 'flex', alignItems: 'center', gap: 4 }} title="Rows that fail to parse are dropped instead of failing the import">
+                <input type="checkbox" checked={!!options.ignoreErrors} onChange={(e) => update({ ignoreErrors: e.target.checked })} />
+                Skip malformed rows
+              </label>
+              <label style={{ display: 'flex', alignItems: 'center', gap: 4 }} title="Lower-case column names and replace special characters">
+                <input type="checkbox" checked={!!options.normalizeNames} onChange={(e) => update({ normalizeNames: e.target.checked })} />
+                Normalize column names
+              </label>
+            </div>
+
+            {preview && preview.columns.length > 0 && (
+              <div style={{ marginTop: 12 }}>
+                <div style={{ fontSize: 12, fontWeight: 'bold', marginBottom: 4 }}>Column types</div>
+                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: 6 }}>
+                  {preview.columns.map(column => (
+                    <label key={column.name} style={{ ...fieldStyle, flexDirection: 'row', alignItems: 'center', gap: 6 }}>
+                      <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={column.name}>
+                        {column.name}
+                      </span>
+                      <select
+                        style={inputStyle}
+                        value={options.columnTypes?.[column.name] ?? ''}
+                        onChange={(e) => setColumnType(column.name, e.target.value)}
+                      >
+                        <option value="">Auto ({column.type})</option>
+                        {COLUMN_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+
+        {error && (
+          <pre style={{ color: 'var(--danger)', fontSize: 12, whiteSpace: 'pre-wrap', marginTop: 12 }}>{error}</pre>
+        )}
+
+        {preview && previewColumns.length > 0 && (
+          <div style={{ marginTop: 12, overflowX: 'auto', border: '1px solid var(--border)', maxHeight: 240 }}>
+            <table style={{ borderCollapse: 'collapse', fontSize: 11, width: '100%' }}>
+              <thead>
+                <tr>
+                  {previewColumns.map(column => (
+                    <th key={column} style={{ textAlign: 'left', padding: '4px 6px', borderBottom: '1px solid var(--border)', whiteSpace: 'nowrap' }}>
+                      {column}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {preview.rows.map((row, i) => (
+                  <tr key={i}>
+                    {previewColumns.map(column => (
+                      <td key={column} style={{ padding: '2px 6px', whiteSpace: 'nowrap', color: row[column] == null ? 'var(--muted)' : undefined }}>
+                        {formatValue(row[column])}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 8, marginTop: 16 }}>
+          <button className="btn" style={{ fontSize: 12 }} onClick={onCancel}>
+            {initialOptions ? 'Cancel' : 'Skip file'}
+          </button>
+          <button className="btn btn-primary" style={{ fontSize: 12 }} disabled={!options || !!error} onClick={() => options && onConfirm(options)}>
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,299 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useDuckDB } from '../providers/DuckDBProvider'
+import { useStore } from '../store/store'
+import type { Chart } from '../types'
+import { buildChartQuery, buildDescribeSQL, schemaFromDescribe } from '../utils/chartSql'
+import { buildAggregatedChartSpec, buildChartSpec } from '../utils/chartSpec'
+import {
+  buildChartDataSQL,
+  chartResultFrom,
+  chartSpan,
+  resizedSpan,
+  CHART_ROW_LIMIT,
+  DASHBOARD_ROW_HEIGHT,
+  MAX_CHART_ROWS_SPAN,
+  MAX_GRID_COLS,
+  type ChartResult
+} from '../utils/dashboard'
+import { VegaChart } from './VegaChart'
+
+const GRID_GAP = 12
+
+interface Span {
+  cols: number
+  rows: number
+}
+
+interface DashboardChartCardProps {
+  chart: Chart
+  queryName?: string
+  result?: ChartResult
+  span: Span
+  isRefreshing: boolean
+  onRefresh: () => void
+  onRemove: () => void
+  onOpenQuery: () => void
+  onResizeStart: (e: React.PointerEvent) => void
+  onDragStart: () => void
+  onDrop: () => void
+  onDragEnd: () => void
+}
+
+function DashboardChartCard({
+  chart,
+  queryName,
+  result,
+  span,
+  isRefreshing,
+  onRefresh,
+  onRemove,
+  onOpenQuery,
+  onResizeStart,
+  onDragStart,
+  onDrop,
+  onDragEnd
+}: DashboardChartCardProps) {
+  const spec = useMemo(() => {
+    if (!result || result.error || result.rows.length === 0) return null
+    return result.query
+      ? buildAggregatedChartSpec(result.query, result.rows, chart.config)
+      : buildChartSpec(chart.config, result.rows)
+  }, [chart.config, result])
+
+  return (
+    <div
+      className="panel-surface"
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={(e) => {
+        e.preventDefault()
+        onDrop()
+      }}
+      style={{
+        gridColumn: `span ${span.cols}`,
+        gridRow: `span ${span.rows}`,
+        position: 'relative',
+        display: 'flex',
+        flexDirection: 'column',
+        minWidth: 0,
+        padding: '8px',
+        border: '1px solid var(--border)',
+        borderRadius: '6px'
+      }}
+    >
+      <div
+        draggable
+        onDragStart={onDragStart}
+        onDragEnd={onDragEnd}
+        title="Drag to reorder"
+        style={{ display: 'flex', alignItems: 'center', gap: '8px', cursor: 'grab', fontSize: '12px' }}
+      >
+        <div style={{ flex: 1, minWidth: 0 }}>
+          <div style={{ fontWeight: 'bold', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{chart.name}</div>
+          <div style={{ fontSize: '10px', color: 'var(--muted)' }}>
+            {queryName ? (
+              <a href="#" onClick={(e) => { e.preventDefault(); onOpenQuery() }}>{queryName}</a>
+            ) : 'Query removed'}
+            {result && !result.error && ` • ${new Date(result.refreshedAt).toLocaleTimeString()}`}
+            {result?.truncated && ` • first ${(result.query?.limit ?? CHART_ROW_LIMIT).toLocaleString()} rows`}
+          </div>
+        </div>
+        <button className="btn" style={{ fontSize: '12px', padding: '2px 6px' }} title="Refresh" disabled={isRefreshing} onClick={onRefresh}>
+          {isRefreshing ? '⏳' : '↻'}
+        </button>
+        <button className="btn" style={{ fontSize: '12px', padding: '2px 6px' }} title="Remove from dashboard" onClick={onRemove}>
+          ×
+        </button>
+      </div>
+      {result?.error ? (
+        <div style={{ flex: 1, marginTop: '8px', fontSize: '12px', color: 'var(--danger)' }}>{result.error}</div>
+      ) : result && result.rows.length === 0 ? (
+        <div style={{ flex: 1, marginTop: '8px', fontSize: '12px', color: 'var(--muted)' }}>The query returned no rows</div>
+      ) : (
+        // Remount on resize so the view picks up the new container size
+        <VegaChart key={`${span.cols}x${span.rows}`} spec={spec} style={{ flex: 1, minHeight: 0, marginTop: '8px' }} />
+      )}
+      <div
+        role="separator"
+        aria-label="Resize chart"
+        title="Drag to resize"
+        onPointerDown={onResizeStart}
+        style={{
+          position: 'absolute',
+          right: 0,
+          bottom: 0,
+          width: '14px',
+          height: '14px',
+          cursor: 'nwse-resize',
+          borderRight: '3px solid var(--border)',
+          borderBottom: '3px solid var(--border)'
+        }}
+      />
+    </div>
+  )
+}
+
+// Saved charts in a grid; each one re-runs its saved query when refreshed
+export function DashboardPanel() {
+  const { worker, isInitialized } = useDuckDB()
+  const {
+    charts,
+    queries,
+    dashboardCols,
+    chartResults,
+    setDashboardCols,
+    setChartResult,
+    updateChart,
+    removeChart,
+    moveChart,
+    setActiveQuery,
+    setActivePanel
+  } = useStore()
+  const [refreshingIds, setRefreshingIds] = useState<string[]>([])
+  const [resizing, setResizing] = useState<({ id: string } & Span) | null>(null)
+  const [dragId, setDragId] = useState<string | null>(null)
+  const gridRef = useRef<HTMLDivElement>(null)
+  const requestedRef = useRef(new Set<string>())
+
+  const refreshChart = async (chart: Chart) => {
+    if (!worker) return
+    setRefreshingIds(ids => [...ids, chart.id])
+    const failed = (error: string) => setChartResult(chart.id, { rows: [], refreshedAt: new Date().toISOString(), error })
+    try {
+      // Read the query at refresh time so edits made in its tab are picked up
+      const query = useStore.getState().queries.find(q => q.id === chart.queryId)
+      const sql = query ? buildChartDataSQL(query.sql) : null
+      const describeSql = query ? buildDescribeSQL(query.sql) : null
+      if (!query) failed('The query this chart was saved from has been closed.')
+      else if (!sql || !describeSql) failed(`"${query.name}" is not a single SELECT statement.`)
+      else {
+        // Aggregate in DuckDB when the chart's fields are still in the query's result,
+        // otherwise draw from its first rows
+        const schema = schemaFromDescribe(await worker.query(describeSql))
+        const chartQuery = buildChartQuery(query.sql, chart.config, schema)
+        setChartResult(chart.id, chartQuery
+          ? { ...chartResultFrom(await worker.query(chartQuery.sql), chartQuery.limit), query: chartQuery }
+          : chartResultFrom(await worker.query(sql)))
+      }
+    } catch (error) {
+      console.error(`Failed to refresh chart ${chart.name}:`, error)
+      failed(error instanceof Error ? error.message : 'Unknown error')
+    } finally {
+      setRefreshingIds(ids => ids.filter(id => id !== chart.id))
+    }
+  }
+
+  // Queries run one after another on the worker's connection
+  const refreshAll = async () => {
+    for (const chart of charts) await refreshChart(chart)
+  }
+
+  // Draw charts that have no data yet, e.g. after a reload or a bundle import
+  useEffect(() => {
+    if (!worker || !isInitialized) return
+    const pending = charts.filter(c => !chartResults[c.id] && !requestedRef.current.has(c.id))
+    pending.forEach(c => requestedRef.current.add(c.id))
+    ;(async () => {
+      for (const chart of pending) await refreshChart(chart)
+    })()
+  }, [worker, isInitialized, charts, chartResults])
+
+  // Resize handles snap the chart to whole grid cells
+  const startResize = (chart: Chart, e: React.PointerEvent) => {
+    const grid = gridRef.current
+    if (!grid) return
+    e.preventDefault()
+    const start = chartSpan(chart, dashboardCols)
+    const cellWidth = (grid.clientWidth - GRID_GAP * (dashboardCols - 1)) / dashboardCols + GRID_GAP
+    const cellHeight = DASHBOARD_ROW_HEIGHT + GRID_GAP
+    const startX = e.clientX
+    const startY = e.clientY
+    let next = start
+    const onMove = (event: PointerEvent) => {
+      next = {
+        cols: resizedSpan(start.cols, event.clientX - startX, cellWidth, dashboardCols),
+        rows: resizedSpan(start.rows, event.clientY - startY, cellHeight, MAX_CHART_ROWS_SPAN)
+      }
+      setResizing({ id: chart.id, ...next })
+    }
+    const onUp = () => {
+      window.removeEventListener('pointermove', onMove)
+      window.removeEventListener('pointerup', onUp)
+      setResizing(null)
+      updateChart(chart.id, { width: next.cols, height: next.rows })
+    }
+    window.addEventListener('pointermove', onMove)
+    window.addEventListener('pointerup', onUp)
+  }
+
+  return (
+    <div style={{ height: '100%', display: 'flex', flexDirection: 'column', padding: '16px', overflow: 'hidden' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '12px', marginBottom: '12px', fontSize: '12px' }}>
+        <div style={{ fontWeight: 'bold', fontSize: '14px' }}>Dashboard</div>
+        <div style={{ color: 'var(--muted)' }}>{charts.length} chart{charts.length !== 1 ? 's' : ''}</div>
+        <div style={{ flex: 1 }} />
+        <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+          Columns
+          <select value={dashboardCols} onChange={(e) => setDashboardCols(Number(e.target.value))} style={{ fontSize: '12px' }}>
+            {Array.from({ length: MAX_GRID_COLS }, (_, i) => i + 1).map(n => (
+              <option key={n} value={n}>{n}</option>
+            ))}
+          </select>
+        </label>
+        <button
+          className="btn"
+          style={{ fontSize: '12px' }}
+          disabled={charts.length === 0 || refreshingIds.length > 0 || !worker || !isInitialized}
+          onClick={refreshAll}
+        >
+          {refreshingIds.length > 0 ? 'Refreshing...' : 'Refresh all'}
+        </button>
+      </div>
+
+      {charts.length === 0 ? (
+        <div style={{ flex: 1, display: 'flex', alignItems: 'center', justifyContent: 'center', color: 'var(--muted)', fontSize: '12px' }}>
+          Build a chart in the Charts tab and choose "Save to dashboard" to add it here.
+        </div>
+      ) : (
+        <div style={{ flex: 1, overflowY: 'auto' }}>
+          <div
+            ref={gridRef}
+            style={{
+              display: 'grid',
+              gridTemplateColumns: `repeat(${dashboardCols}, minmax(0, 1fr))`,
+              gridAutoRows: `${DASHBOARD_ROW_HEIGHT}px`,
+              gap: `${GRID_GAP}px`
+            }}
+          >
+            {charts.map((chart, index) => {
+              const query = queries.find(q => q.id === chart.queryId)
+              return (
+                <DashboardChartCard
+                  key={chart.id}
+                  chart={chart}
+                  queryName={query?.name}
+                  result={chartResults[chart.id]}
+                  span={resizing?.id === chart.id ? resizing : chartSpan(chart, dashboardCols)}
+                  isRefreshing={refreshingIds.includes(chart.id)}
+                  onRefresh={() => refreshChart(chart)}
+                  onRemove={() => removeChart(chart.id)}
+                  onOpenQuery={() => {
+                    if (!query) return
+                    setActiveQuery(query.id)
+                    setActivePanel('sql')
+                  }}
+                  onResizeStart={(e) => startResize(chart, e)}
+                  onDragStart={() => setDragId(chart.id)}
+                  onDrop={() => {
+                    if (dragId && dragId !== chart.id) moveChart(dragId, index)
+                    setDragId(null)
+                  }}
+                  onDragEnd={() => setDragId(null)}
+                />
+              )
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
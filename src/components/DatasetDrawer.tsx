@@ -1,7 +1,81 @@
-import { useState, useRef } from 'react'
+import { useState, useRef, useEffect } from 'react'
 
 import { useStore } from '../store/store'
 import { useDuckDB } from '../providers/DuckDBProvider'
+import type { Dataset } from '../types'
+import type { RegisteredFile } from '../workers/duckdb.worker'
+import {
+  deleteCachedDataset,
+  getStorageUsage,
+  isDatasetCacheAvailable,
+  putCachedDataset,
+  type StorageUsage
+} from '../utils/datasetCache'
+import {
+  ACCEPTED_FILE_EXTENSIONS,
+  detectFileType,
+  fileExtension,
+  fileNameFromUrl,
+  isInsertedFileType,
+  isTextFileType,
+  isValidTableName,
+  parseDatasetUrl,
+  tableNameFor,
+  uniqueFileName,
+  uniqueTableName,
+  type CsvOptions
+} from '../utils/fileFormats'
+import { listXlsxSheets } from '../utils/xlsx'
+import { REPORT_REJECT_SAMPLE, type LoadReport } from '../utils/loadReport'
+import { datasetFieldsFromProfile } from '../utils/datasetProfile'
+import type { MaterializedInfo } from '../utils/materialize'
+import { DATABASE_EXTENSIONS, isDatabaseFile, uniqueDatabaseAlias } from '../utils/databaseFile'
+import { quoteIdentifier } from '../utils/sqlContext'
+import { SheetPickerModal } from './SheetPickerModal'
+import { CsvImportDialog } from './CsvImportDialog'
+import { LoadReportPanel, loadReportSummary } from './LoadReportPanel'
+import { DatasetProfilePanel } from './DatasetProfilePanel'
+import { MaterializePanel, canMaterialize } from './MaterializePanel'
+import { AttachedDatabasesPanel } from './AttachedDatabasesPanel'
+
+const formatMB = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(2)} MB`
+
+// The upload input also takes DuckDB database files, which are attached rather than loaded as datasets
+const UPLOAD_FILE_EXTENSIONS = [ACCEPTED_FILE_EXTENSIONS, ...DATABASE_EXTENSIONS.map(ext => `.${ext}`)].join(',')
+
+// Dataset read over HTTP instead of from an uploaded file
+interface RemoteFile {
+  url: string
+  name: string // File name taken from the URL
+}
+
+// Content-Length from a HEAD request; 0 when the server does not say
+async function remoteFileSize(url: string): Promise<number> {
+  try {
+    const response = await fetch(url, { method: 'HEAD' })
+    return Number(response.headers.get('Content-Length')) || 0
+  } catch {
+    return 0
+  }
+}
+
+interface UploadProgress {
+  fileName: string
+  step: string
+  progress?: number // 0..1 for steps that report it
+}
+
+interface SheetPrompt {
+  fileName: string
+  sheets: string[]
+  resolve: (sheet: string | null) => void
+}
+
+interface CsvPrompt {
+  fileName: string
+  initialOptions?: CsvOptions
+  resolve: (options: CsvOptions | null) => void
+}
 
 interface DatasetDrawerProps {
   isOpen: boolean
@@ -10,101 +84,413 @@ interface DatasetDrawerProps {
 
 export function DatasetDrawer({ isOpen, onClose }: DatasetDrawerProps) {
   const { worker, isInitialized } = useDuckDB()
-  const { datasets, addDataset, setCurrentQuery, setActivePanel } = useStore()
+  const { datasets, addDataset, updateDataset, removeDataset, addAttachedDatabase, setCurrentQuery, setActivePanel } = useStore()
   const [isDragging, setIsDragging] = useState(false)
   const [isUploading, setIsUploading] = useState(false)
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null)
   const [copiedById, setCopiedById] = useState<Record<string, boolean>>({})
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null)
+  const [sheetPrompt, setSheetPrompt] = useState<SheetPrompt | null>(null)
+  const [csvPrompt, setCsvPrompt] = useState<CsvPrompt | null>(null)
+  const [reportOpenId, setReportOpenId] = useState<string | null>(null)
+  const [profileOpenId, setProfileOpenId] = useState<string | null>(null)
+  const [materializeOpenId, setMaterializeOpenId] = useState<string | null>(null)
+  const [renaming, setRenaming] = useState<{ id: string; value: string } | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [urlInput, setUrlInput] = useState('')
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const replaceInputRef = useRef<HTMLInputElement>(null)
+  const replaceTargetRef = useRef<Dataset | null>(null)
+
+  // Refresh cache usage whenever the dataset list changes
+  useEffect(() => {
+    if (!isOpen || !isDatasetCacheAvailable()) return
+    let cancelled = false
+    getStorageUsage()
+      .then(usage => { if (!cancelled) setStorageUsage(usage) })
+      .catch(e => console.warn('Unable to read storage usage:', e))
+    return () => { cancelled = true }
+  }, [isOpen, datasets])
 
   if (!isOpen) return null
 
-  const handleFileUpload = async (files: FileList) => {
-    if (!worker || !isInitialized || isUploading) return
+  const handleEvict = async (id: string) => {
+    try {
+      await deleteCachedDataset(id)
+      updateDataset(id, { cached: false })
+    } catch (error) {
+      console.error(`Failed to evict ${id} from cache:`, error)
+    }
+  }
 
-    setIsUploading(true)
+  // Resolves with the chosen worksheet, or null when the file is skipped
+  const pickSheet = (fileName: string, sheets: string[]) => new Promise<string | null>(resolve => {
+    setSheetPrompt({ fileName, sheets, resolve })
+  })
 
-    for (let i = 0; i < files.length; i++) {
-      const file = files[i]
-      const fileName = file.name
-      const fileExtension = fileName.split('.').pop()?.toLowerCase()
-      
-      if (fileExtension !== 'csv' && fileExtension !== 'parquet') {
-        alert(`Unsupported file type: ${fileExtension}. Please upload CSV or Parquet files.`)
-        continue
+  // Resolves with the chosen read_csv options, or null when the import is abandoned
+  const configureCsv = (fileName: string, initialOptions?: CsvOptions) => new Promise<CsvOptions | null>(resolve => {
+    setCsvPrompt({ fileName, initialOptions, resolve })
+  })
+
+  // Rows loaded and rejected by a CSV view; loading still succeeds if the scan fails
+  const scanRejects = async (fileName: string, csvOptions?: CsvOptions): Promise<Partial<LoadReport>> => {
+    if (!worker) return {}
+    try {
+      const scan = await worker.scanCsvRejects(fileName, csvOptions, REPORT_REJECT_SAMPLE)
+      return {
+        rowsLoaded: scan.rowsLoaded,
+        rowsRejected: scan.rowsRejected,
+        rejects: scan.rejects,
+        rejectsDropped: csvOptions?.ignoreErrors ?? true
       }
+    } catch (error) {
+      console.warn(`Unable to collect rejected rows for ${fileName}:`, error)
+      return {}
+    }
+  }
 
-      try {
-        const buffer = await file.arrayBuffer()
-        const bytes = new Uint8Array(buffer)
-        let transcoded: ArrayBuffer = buffer
-        const tryDecode = (label: string) => {
-          try {
-            const td = new TextDecoder(label as any, { fatal: true } as any)
-            return td.decode(bytes)
-          } catch {
-            return null
-          }
-        }
-        let text = tryDecode('utf-8')
-        if (!text) {
-          if (bytes.length >= 2 && bytes[0] === 0xFF && bytes[1] === 0xFE) {
-            text = new TextDecoder('utf-16le').decode(bytes)
-          } else if (bytes.length >= 2 && bytes[0] === 0xFE && bytes[1] === 0xFF) {
-            text = new TextDecoder('utf-16be').decode(bytes)
-          } else {
-            text = tryDecode('windows-1252') || tryDecode('iso-8859-1')
+  // Row count and column statistics; the dataset is still usable if profiling fails
+  const profileDataset = async (tableName: string): Promise<Partial<Dataset>> => {
+    if (!worker) return {}
+    try {
+      return datasetFieldsFromProfile(await worker.profileTable(tableName))
+    } catch (error) {
+      console.warn(`Unable to profile ${tableName}:`, error)
+      return {}
+    }
+  }
+
+  // Rebuild the native table of a materialized dataset once its view was re-created; it stays a view on failure
+  const rematerialize = async (tableName: string, materialized?: MaterializedInfo): Promise<MaterializedInfo | undefined> => {
+    if (!worker || !materialized) return undefined
+    try {
+      return await worker.materializeTable(tableName, materialized.orderBy)
+    } catch (error) {
+      console.warn(`Unable to materialize ${tableName}; keeping it as a view:`, error)
+      return undefined
+    }
+  }
+
+  // Re-create a dataset's view from its registered file, then refresh its columns, load report and profile
+  const reloadDataset = async (dataset: Dataset, csvOptions = dataset.csvOptions) => {
+    if (!worker) return
+    const fileType = detectFileType(dataset.fileName)
+    if (!fileType) throw new Error(`Unsupported file type: ${fileExtension(dataset.fileName)}`)
+    // Remote files are registered again so a reload fetches the current version
+    if (dataset.sourceUrl) await worker.registerUrl(dataset.fileName, dataset.sourceUrl)
+    await worker.createView(dataset.tableName, dataset.fileName, fileType, { sheet: dataset.sheet, csv: csvOptions })
+    const materialized = await rematerialize(dataset.tableName, dataset.materialized)
+    const tableInfo = await worker.getTableInfo(dataset.tableName)
+    const scan = fileType === 'csv' ? await scanRejects(dataset.fileName, csvOptions) : {}
+    updateDataset(dataset.id, {
+      csvOptions,
+      materialized,
+      columns: tableInfo.columns.map(col => ({ name: col.name, type: col.type, nullable: true })),
+      rowCount: scan.rowsLoaded ?? dataset.rowCount,
+      profiledAt: undefined,
+      loadReport: {
+        encoding: dataset.loadReport?.encoding,
+        transcoded: dataset.loadReport?.transcoded,
+        ...scan,
+        loadedAt: new Date().toISOString()
+      },
+      ...await profileDataset(dataset.tableName)
+    })
+  }
+
+  // Re-create a CSV dataset's view with new import options
+  const handleCsvOptions = async (dataset: Dataset) => {
+    const csvOptions = await configureCsv(dataset.fileName, dataset.csvOptions)
+    if (!csvOptions) return
+    try {
+      await reloadDataset(dataset, csvOptions)
+    } catch (error) {
+      console.error(`Failed to re-import ${dataset.fileName}:`, error)
+      alert(`Failed to re-import ${dataset.fileName}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  const handleReload = async (dataset: Dataset) => {
+    setBusyId(dataset.id)
+    try {
+      await reloadDataset(dataset)
+    } catch (error) {
+      console.error(`Failed to reload ${dataset.name}:`, error)
+      alert(`Failed to reload ${dataset.name}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleRename = async (dataset: Dataset, newName: string) => {
+    const name = newName.trim()
+    if (!worker || name === dataset.tableName) {
+      setRenaming(null)
+      return
+    }
+    if (!isValidTableName(name)) {
+      alert('Table names must start with a letter or underscore, contain only letters, digits and underscores, and not be an SQL keyword such as order or select.')
+      return
+    }
+    const others = useStore.getState().datasets.filter(d => d.id !== dataset.id)
+    if (others.some(d => d.tableName.toLowerCase() === name.toLowerCase())) {
+      alert(`Another dataset already uses the table name ${name}.`)
+      return
+    }
+    try {
+      await worker.renameRelation(dataset.tableName, name)
+      updateDataset(dataset.id, { tableName: name })
+      setRenaming(null)
+    } catch (error) {
+      console.error(`Failed to rename ${dataset.tableName}:`, error)
+      alert(`Failed to rename ${dataset.tableName}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  // Drop the table, unregister the file and forget the cached copy
+  const handleRemove = async (dataset: Dataset) => {
+    if (!confirm(`Remove ${dataset.name}? The table ${dataset.tableName} will be dropped.`)) return
+    if (worker) {
+      await worker.dropRelation(dataset.tableName).catch(e => console.warn(`Unable to drop ${dataset.tableName}:`, e))
+      await worker.unregisterFile(dataset.fileName).catch(e => console.warn(`Unable to unregister ${dataset.fileName}:`, e))
+    }
+    await deleteCachedDataset(dataset.id).catch(e => console.warn(`Unable to evict ${dataset.id} from cache:`, e))
+    removeDataset(dataset.id)
+  }
+
+  // Load one file as a new dataset, or as a new version of target under the same table name;
+  // resolves false when the file is skipped
+  const loadFile = async (source: File | RemoteFile, target?: Dataset): Promise<boolean> => {
+    if (!worker) return false
+    const remote = 'url' in source ? source : null
+    const fileType = detectFileType(source.name)
+    if (!fileType) {
+      alert(`Unsupported file type: ${fileExtension(source.name)}. Please upload CSV, Parquet, JSON, NDJSON, Excel (.xlsx) or Arrow files.`)
+      return false
+    }
+    if (remote && isInsertedFileType(fileType)) {
+      throw new Error('Excel and Arrow files cannot be read from a URL. Download the file and add it instead.')
+    }
+
+    // Names are checked against the latest store state, which earlier files of the same upload have changed.
+    // Registering a second file under a name in use would silently swap the first dataset's data.
+    const current = useStore.getState().datasets
+    const fileName = uniqueFileName(source.name, current.map(d => d.fileName))
+
+    // Workbooks with several worksheets ask which one to load and name the dataset after it
+    let sheet: string | undefined
+    let sheetLabel: string | undefined
+    if (fileType === 'xlsx' && !remote) {
+      const sheets = await listXlsxSheets(await (source as File).arrayBuffer())
+      if (sheets.length === 0) throw new Error('The workbook has no worksheets')
+      if (sheets.length > 1) {
+        const picked = await pickSheet(source.name, sheets)
+        if (!picked) return false
+        sheet = sheetLabel = picked
+      } else {
+        sheet = sheets[0]
+      }
+    }
+
+    // Ensure Comlink-exposed method is present
+    const hasRegister = typeof (worker as any).registerFileHandle === 'function'
+    if (!hasRegister) {
+      throw new Error('DuckDB worker not ready: registerFileHandle missing')
+    }
+
+    let loaded = false
+    try {
+      let registered: RegisteredFile
+      let size: number
+      if (remote) {
+        // DuckDB fetches remote files over HTTP as queries need them; Parquet is read in byte ranges
+        setUploadProgress({ fileName, step: 'Connecting' })
+        size = await remoteFileSize(remote.url)
+        await worker.registerUrl(fileName, remote.url)
+        registered = { size, transcoded: false }
+      } else {
+        // Register the file handle; DuckDB reads it lazily. Text files in another encoding
+        // are transcoded to a UTF-8 copy by the worker first.
+        size = (source as File).size
+        setUploadProgress({ fileName, step: 'Reading file' })
+        registered = await worker.registerFileHandle(
+          fileName,
+          source as File,
+          { text: isTextFileType(fileType) },
+          (update) => {
+            if (update.type === 'progress' && update.progress !== undefined && update.progress < 1) {
+              setUploadProgress({ fileName, step: 'Converting to UTF-8', progress: update.progress })
+            }
           }
+        )
+      }
+      const registeredBytes: Blob | null = remote ? null : registered.file ?? (source as File)
+
+      // CSV files are imported with the options confirmed in the import dialog
+      let csvOptions: CsvOptions | undefined
+      if (fileType === 'csv') {
+        const confirmed = await configureCsv(fileName, target?.csvOptions)
+        if (!confirmed) return false
+        csvOptions = confirmed
+      }
+
+      // A new dataset never takes over an existing table, including ones created from SQL
+      const tableName = target?.tableName ?? uniqueTableName(
+        tableNameFor(source.name, sheetLabel),
+        [...current.flatMap(d => [d.id, d.tableName]), ...await worker.listRelations()]
+      )
+      const id = target?.id ?? tableName
+
+      // Create a view (or, for Excel and Arrow files, a table) from the file
+      setUploadProgress({ fileName, step: 'Creating table' })
+      await worker.createView(tableName, fileName, fileType, { sheet, csv: csvOptions })
+
+      // A replaced dataset that was materialized is loaded into a native table again
+      let materialized: MaterializedInfo | undefined
+      if (target?.materialized && !isInsertedFileType(fileType)) {
+        setUploadProgress({ fileName, step: 'Materializing' })
+        materialized = await rematerialize(tableName, target.materialized)
+      }
+
+      // Get table info
+      const tableInfo = await worker.getTableInfo(tableName)
+
+      // Convert table info columns to Dataset Column format; replaced by the profile below
+      const columns = tableInfo.columns.map(col => ({
+        name: col.name,
+        type: col.type,
+        nullable: true
+      }))
+
+      if (fileType === 'csv') setUploadProgress({ fileName, step: 'Checking rows' })
+      const loadReport: LoadReport = {
+        encoding: registered.encoding,
+        transcoded: registered.transcoded,
+        ...(fileType === 'csv' ? await scanRejects(fileName, csvOptions) : {}),
+        loadedAt: new Date().toISOString()
+      }
+
+      setUploadProgress({ fileName, step: 'Profiling' })
+      const fields: Partial<Dataset> = {
+        name: sheetLabel ? `${source.name} (${sheetLabel})` : source.name,
+        fileName,
+        columns,
+        fileSize: size,
+        size, // Alias for compatibility
+        rowCount: loadReport.rowsLoaded ?? 0, // Counted for CSV files; the profile counts every format
+        embedded: false,
+        sha256: undefined, // Computed from the embedded bytes when a bundle is saved
+        sheet,
+        csvOptions,
+        sourceUrl: remote?.url,
+        loadReport,
+        materialized,
+        profiledAt: undefined,
+        uploadedAt: new Date().toISOString(),
+        ...await profileDataset(tableName)
+      }
+
+      if (target) {
+        updateDataset(id, fields)
+        // The previous version stays registered until its replacement is in place
+        if (target.fileName !== fileName) {
+          await worker.unregisterFile(target.fileName).catch(e => console.warn(`Unable to unregister ${target.fileName}:`, e))
         }
-        if (text) {
-          transcoded = new TextEncoder().encode(text).buffer
-        }
-        
-        // Ensure Comlink-exposed method is present
-        const hasRegister = typeof (worker as any).registerFile === 'function'
-        if (!hasRegister) {
-          throw new Error('DuckDB worker not ready: registerFile missing')
-        }
-        // Register file with DuckDB
-        await worker.registerFile(fileName, transcoded)
-        
-        // Create a view from the file
-        const tableName = fileName.replace(/\.(csv|parquet)$/i, '').replace(/[^a-zA-Z0-9_]/g, '_')
-        await worker.createView(tableName, fileName, fileExtension as 'csv' | 'parquet')
-        
-        // Get table info
-        const tableInfo = await worker.getTableInfo(tableName)
-        
-        // Convert table info columns to Dataset Column format
-        const columns = tableInfo.columns.map(col => ({
-          name: col.name,
-          type: col.type,
-          nullable: true // Default to true since we don't have this info from DESCRIBE
-        }))
-        
+      } else {
         // Add to store (don't send the File object to avoid DataCloneError)
         addDataset({
-          id: tableName,
-          name: fileName,
-          fileName,
+          ...fields as Dataset,
+          id,
           tableName,
-          columns,
-          fileSize: file.size,
-          size: file.size, // Alias for compatibility
-          rowCount: 0, // Will be populated later
           file: null, // Don't store the File object to avoid serialization issues
-          embedded: false,
-          uploadedAt: new Date().toISOString(),
           createdAt: new Date()
         })
-        
-        
+      }
+      loaded = true
+
+      // Keep the bytes locally so the dataset survives a page reload; remote datasets are fetched again
+      if (registeredBytes && isDatasetCacheAvailable()) {
+        try {
+          await putCachedDataset({
+            id,
+            fileName,
+            fileType,
+            sheet,
+            bytes: registeredBytes,
+            size: registeredBytes.size,
+            cachedAt: new Date().toISOString()
+          })
+          updateDataset(id, { cached: true })
+        } catch (cacheError) {
+          console.warn(`Unable to cache ${fileName}:`, cacheError)
+          // A cached previous version would be restored in place of the replacement
+          if (target?.cached) {
+            await deleteCachedDataset(id).catch(() => {})
+            updateDataset(id, { cached: false })
+          }
+        }
+      }
+      return true
+    } finally {
+      // A skipped or failed file does not stay registered
+      if (!loaded) {
+        await worker.unregisterFile(fileName).catch(e => console.warn(`Unable to unregister ${fileName}:`, e))
+      }
+    }
+  }
+
+  // Attach an uploaded .duckdb file read-only under an alias derived from its name
+  const attachFile = async (source: File | RemoteFile) => {
+    if (!worker) return
+    if ('url' in source) {
+      throw new Error('Database files cannot be attached from a URL. Download the file and add it instead.')
+    }
+    const { datasets: current, attachedDatabases } = useStore.getState()
+    const fileName = uniqueFileName(source.name, [...current.map(d => d.fileName), ...attachedDatabases.map(d => d.fileName)])
+    const alias = uniqueDatabaseAlias(source.name, attachedDatabases.map(d => d.alias))
+    setUploadProgress({ fileName: source.name, step: 'Attaching' })
+    await worker.registerFileHandle(fileName, source)
+    try {
+      const relations = await worker.attachDatabase(fileName, alias)
+      addAttachedDatabase({ alias, fileName, size: source.size, relations, attachedAt: new Date().toISOString() })
+    } catch (error) {
+      await worker.unregisterFile(fileName).catch(e => console.warn(`Unable to unregister ${fileName}:`, e))
+      throw error
+    }
+  }
+
+  const handleFileUpload = async (files: FileList | Array<File | RemoteFile>, target?: Dataset) => {
+    if (!worker || !isInitialized || isUploading) return
+
+    setIsUploading(true)
+
+    for (const file of Array.from(files)) {
+      try {
+        if (!target && isDatabaseFile(file.name)) {
+          await attachFile(file)
+          continue
+        }
+        await loadFile(file, target)
       } catch (error) {
-        console.error(`Failed to load ${fileName}:`, error)
-        alert(`Failed to load ${fileName}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+        console.error(`Failed to load ${file.name}:`, error)
+        alert(`Failed to load ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`)
       }
     }
 
     setIsUploading(false)
+    setUploadProgress(null)
+  }
+
+  const handleAddUrl = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const url = parseDatasetUrl(urlInput)
+    if (!url) {
+      alert('Enter an http:// or https:// URL.')
+      return
+    }
+    await handleFileUpload([{ url: url.href, name: fileNameFromUrl(url) }])
+    setUrlInput('')
   }
 
   const handleDrop = (e: React.DragEvent) => {
@@ -139,16 +525,37 @@ export function DatasetDrawer({ isOpen, onClose }: DatasetDrawerProps) {
     fileInputRef.current?.click()
   }
 
+  const handleReplaceClick = (dataset: Dataset) => {
+    replaceTargetRef.current = dataset
+    replaceInputRef.current?.click()
+  }
+
+  const handleReplaceInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    const target = replaceTargetRef.current
+    e.target.value = ''
+    if (file && target) {
+      handleFileUpload([file], target)
+    }
+  }
+
   return (
     <>
       <input
         ref={fileInputRef}
         type="file"
         multiple
-        accept=".csv,.parquet"
+        accept={UPLOAD_FILE_EXTENSIONS}
         onChange={handleFileInputChange}
         style={{ display: 'none' }}
       />
+      <input
+        ref={replaceInputRef}
+        type="file"
+        accept={ACCEPTED_FILE_EXTENSIONS}
+        onChange={handleReplaceInputChange}
+        style={{ display: 'none' }}
+      />
       <div style={{
         width: '300px',
         backgroundColor: 'var(--surface-2)',
@@ -191,11 +598,18 @@ export function DatasetDrawer({ isOpen, onClose }: DatasetDrawerProps) {
           onClick={isUploading ? undefined : handleBrowseClick}
         >
           {isUploading ? (
-            <div>Uploading files...</div>
+            <div>
+              <div>{uploadProgress ? `${uploadProgress.step}: ${uploadProgress.fileName}` : 'Uploading files...'}</div>
+              {uploadProgress?.progress !== undefined && (
+                <div style={{ height: '4px', marginTop: '8px', backgroundColor: 'var(--border)', borderRadius: '2px', overflow: 'hidden' }}>
+                  <div style={{ width: `${Math.round(uploadProgress.progress * 100)}%`, height: '100%', backgroundColor: 'var(--accent)' }} />
+                </div>
+              )}
+            </div>
           ) : (
             <>
               <div style={{ fontSize: '14px', marginBottom: '8px' }}>
-                Drop CSV or Parquet files here
+                Drop CSV, Parquet, JSON, Excel, Arrow or DuckDB files here
               </div>
               <div style={{ fontSize: '12px' }}>
                 or click to browse
@@ -203,6 +617,26 @@ export function DatasetDrawer({ isOpen, onClose }: DatasetDrawerProps) {
             </>
           )}
         </div>
+
+        <form onSubmit={handleAddUrl} style={{ display: 'flex', gap: '4px', marginTop: '8px' }}>
+          <input
+            type="url"
+            aria-label="Dataset URL"
+            placeholder="https://example.com/data.parquet"
+            value={urlInput}
+            onChange={(e) => setUrlInput(e.target.value)}
+            style={{ flex: 1, minWidth: 0, fontSize: '12px', padding: '4px 6px' }}
+          />
+          <button
+            type="submit"
+            className="btn"
+            style={{ fontSize: '12px' }}
+            title="Read a CSV, Parquet, JSON or NDJSON file over HTTP without downloading it first"
+            disabled={!urlInput.trim() || isUploading || !isInitialized}
+          >
+            Add from URL
+          </button>
+        </form>
         
         {datasets.length > 0 && (
           <div style={{ marginTop: '16px' }}>
@@ -224,17 +658,58 @@ export function DatasetDrawer({ isOpen, onClose }: DatasetDrawerProps) {
                   {dataset.name}
                 </div>
                 <div style={{ fontSize: '10px', color: 'var(--muted)' }}>
-                  {dataset.columns.length} columns • {(dataset.size / 1024 / 1024).toFixed(2)} MB
-                </div>
-                <div style={{ fontSize: '10px', color: 'var(--muted)' }}>
-                  Table: {dataset.tableName}
+                  {dataset.profiledAt ? `${dataset.rowCount.toLocaleString()} rows • ` : ''}
+                  {dataset.columns.length} columns{dataset.size ? ` • ${formatMB(dataset.size)}` : ''}
+                  {dataset.sourceUrl ? ' • Remote' : ''}
+                  {dataset.materialized ? ' • Table' : ''}
+                  {dataset.cached ? ' • Cached' : ''}
                 </div>
-                <div style={{ marginTop: '8px', display: 'flex', gap: '8px' }}>
+                {renaming?.id === dataset.id ? (
+                  <form
+                    style={{ display: 'flex', gap: '4px', marginTop: '2px' }}
+                    onSubmit={(e) => {
+                      e.preventDefault()
+                      handleRename(dataset, renaming.value)
+                    }}
+                  >
+                    <input
+                      autoFocus
+                      aria-label="Table name"
+                      value={renaming.value}
+                      onChange={(e) => setRenaming({ id: dataset.id, value: e.target.value })}
+                      onKeyDown={(e) => { if (e.key === 'Escape') setRenaming(null) }}
+                      style={{ flex: 1, minWidth: 0, fontSize: '11px', padding: '2px 4px' }}
+                    />
+                    <button type="submit" className="btn" style={{ fontSize: '11px' }}>Save</button>
+                    <button type="button" className="btn" style={{ fontSize: '11px' }} onClick={() => setRenaming(null)}>Cancel</button>
+                  </form>
+                ) : (
+                  <div style={{ fontSize: '10px', color: 'var(--muted)' }}>
+                    Table: {dataset.tableName}
+                  </div>
+                )}
+                {dataset.sourceUrl && (
+                  <div
+                    style={{ fontSize: '10px', color: 'var(--muted)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+                    title={dataset.sourceUrl}
+                  >
+                    URL: {dataset.sourceUrl}
+                  </div>
+                )}
+                {loadReportSummary(dataset) && (
+                  <div style={{ fontSize: '10px', color: dataset.loadReport?.rowsRejected ? 'var(--danger)' : 'var(--muted)' }}>
+                    {loadReportSummary(dataset)}
+                  </div>
+                )}
+                {reportOpenId === dataset.id && <LoadReportPanel dataset={dataset} />}
+                {profileOpenId === dataset.id && <DatasetProfilePanel dataset={dataset} />}
+                {materializeOpenId === dataset.id && <MaterializePanel dataset={dataset} />}
+                <div style={{ marginTop: '8px', display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
                   <button
                     className="btn"
                     style={{ fontSize: '12px' }}
                     onClick={() => {
-                      const sql = `SELECT * FROM ${dataset.tableName} LIMIT 10;`
+                      const sql = `SELECT * FROM ${quoteIdentifier(dataset.tableName)} LIMIT 10;`
                       setCurrentQuery(sql)
                       setActivePanel('sql')
                     }}
@@ -256,13 +731,134 @@ export function DatasetDrawer({ isOpen, onClose }: DatasetDrawerProps) {
                   >
                     {copiedById[dataset.id] ? 'Copied' : 'Copy table name'}
                   </button>
+                  <button
+                    className="btn"
+                    style={{ fontSize: '12px' }}
+                    aria-expanded={profileOpenId === dataset.id}
+                    onClick={() => setProfileOpenId(profileOpenId === dataset.id ? null : dataset.id)}
+                  >
+                    Profile
+                  </button>
+                  {canMaterialize(dataset) && (
+                    <button
+                      className="btn"
+                      style={{ fontSize: '12px' }}
+                      title="Load the file into a native DuckDB table for faster repeated queries"
+                      aria-expanded={materializeOpenId === dataset.id}
+                      onClick={() => setMaterializeOpenId(materializeOpenId === dataset.id ? null : dataset.id)}
+                    >
+                      Materialize
+                    </button>
+                  )}
+                  {dataset.loadReport && (
+                    <button
+                      className="btn"
+                      style={{ fontSize: '12px' }}
+                      aria-expanded={reportOpenId === dataset.id}
+                      onClick={() => setReportOpenId(reportOpenId === dataset.id ? null : dataset.id)}
+                    >
+                      Load report
+                    </button>
+                  )}
+                  {dataset.csvOptions && (
+                    <button
+                      className="btn"
+                      style={{ fontSize: '12px' }}
+                      title="Change delimiter, header, column types and other CSV options"
+                      onClick={() => handleCsvOptions(dataset)}
+                    >
+                      CSV options
+                    </button>
+                  )}
+                  {dataset.cached && (
+                    <button
+                      className="btn"
+                      style={{ fontSize: '12px' }}
+                      title="Remove the local copy; the dataset will not be restored after a reload"
+                      onClick={() => handleEvict(dataset.id)}
+                    >
+                      Evict
+                    </button>
+                  )}
+                  <button
+                    className="btn"
+                    style={{ fontSize: '12px' }}
+                    title="Rename the table"
+                    onClick={() => setRenaming({ id: dataset.id, value: dataset.tableName })}
+                  >
+                    Rename
+                  </button>
+                  <button
+                    className="btn"
+                    style={{ fontSize: '12px' }}
+                    title="Re-create the table from its file and profile it again"
+                    disabled={busyId === dataset.id}
+                    onClick={() => handleReload(dataset)}
+                  >
+                    {busyId === dataset.id ? 'Reloading...' : 'Reload'}
+                  </button>
+                  <button
+                    className="btn"
+                    style={{ fontSize: '12px' }}
+                    title="Load a new version of the file under the same table name"
+                    disabled={isUploading}
+                    onClick={() => handleReplaceClick(dataset)}
+                  >
+                    Replace
+                  </button>
+                  <button
+                    className="btn btn-danger"
+                    style={{ fontSize: '12px' }}
+                    onClick={() => handleRemove(dataset)}
+                  >
+                    Remove
+                  </button>
                 </div>
               </div>
             ))}
           </div>
         )}
+
+        <AttachedDatabasesPanel />
+
+        {storageUsage && (
+          <div style={{ marginTop: '16px', fontSize: '10px', color: 'var(--muted)' }}>
+            <div>Local cache: {formatMB(storageUsage.cacheBytes)}</div>
+            {storageUsage.usage !== undefined && storageUsage.quota !== undefined && (
+              <div>Browser storage: {formatMB(storageUsage.usage)} of {formatMB(storageUsage.quota)}</div>
+            )}
+          </div>
+        )}
       </div>
       </div>
+      {csvPrompt && (
+        <CsvImportDialog
+          fileName={csvPrompt.fileName}
+          initialOptions={csvPrompt.initialOptions}
+          onConfirm={(options) => {
+            csvPrompt.resolve(options)
+            setCsvPrompt(null)
+          }}
+          onCancel={() => {
+            csvPrompt.resolve(null)
+            setCsvPrompt(null)
+          }}
+        />
+      )}
+      {sheetPrompt && (
+        <SheetPickerModal
+          fileName={sheetPrompt.fileName}
+          sheets={sheetPrompt.sheets}
+          onPick={(sheet) => {
+            sheetPrompt.resolve(sheet)
+            setSheetPrompt(null)
+          }}
+          onCancel={() => {
+            sheetPrompt.resolve(null)
+            setSheetPrompt(null)
+          }}
+        />
+      )}
     </>
   )
 }
\ No newline at end of file
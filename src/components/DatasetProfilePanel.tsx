@@ -0,0 +1,85 @@
+import { useState } from 'react'
+import { useDuckDB } from '../providers/DuckDBProvider'
+import { useStore } from '../store/store'
+import type { Dataset } from '../types'
+import { datasetFieldsFromProfile } from '../utils/datasetProfile'
+
+const cellStyle: React.CSSProperties = { padding: '2px 4px', verticalAlign: 'top', whiteSpace: 'nowrap' }
+
+// Per-column statistics of a dataset, with a button to compute them again
+export function DatasetProfilePanel({ dataset }: { dataset: Dataset }) {
+  const { worker } = useDuckDB()
+  const { updateDataset } = useStore()
+  const [isProfiling, setIsProfiling] = useState(false)
+
+  const reprofile = async () => {
+    if (!worker) return
+    setIsProfiling(true)
+    try {
+      updateDataset(dataset.id, datasetFieldsFromProfile(await worker.profileTable(dataset.tableName)))
+    } catch (error) {
+      console.error(`Failed to profile ${dataset.tableName}:`, error)
+      alert(`Profiling failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setIsProfiling(false)
+    }
+  }
+
+  return (
+    <div style={{ marginTop: '8px', fontSize: '11px' }}>
+      {dataset.profiledAt ? (
+        <>
+          <div>Profiled {new Date(dataset.profiledAt).toLocaleString()} • {dataset.rowCount.toLocaleString()} rows</div>
+          <div style={{ maxHeight: '240px', overflow: 'auto', marginTop: '4px', border: '1px solid var(--border)' }}>
+            <table style={{ borderCollapse: 'collapse', width: '100%' }}>
+              <thead>
+                <tr>
+                  <th style={{ ...cellStyle, textAlign: 'left' }}>Column</th>
+                  <th style={{ ...cellStyle, textAlign: 'right' }}>Nulls</th>
+                  <th style={{ ...cellStyle, textAlign: 'right' }} title="Approximate number of distinct values">Distinct</th>
+                  <th style={{ ...cellStyle, textAlign: 'left' }}>Min</th>
+                  <th style={{ ...cellStyle, textAlign: 'left' }}>Max</th>
+                  <th style={{ ...cellStyle, textAlign: 'left' }}>Top values</th>
+                </tr>
+              </thead>
+              <tbody>
+                {dataset.columns.map(column => {
+                  const stats = column.stats
+                  return (
+                    <tr key={column.name}>
+                      <td style={cellStyle}>
+                        <div>{column.name}</div>
+                        <div style={{ color: 'var(--muted)' }}>{column.type}</div>
+                      </td>
+                      <td style={{ ...cellStyle, textAlign: 'right', color: stats?.nullCount ? 'var(--danger)' : undefined }}>
+                        {stats ? stats.nullCount.toLocaleString() : '—'}
+                      </td>
+                      <td style={{ ...cellStyle, textAlign: 'right' }}>{stats ? `≈${stats.distinctCount.toLocaleString()}` : '—'}</td>
+                      <td style={cellStyle} title={stats?.min}>{stats?.min ?? '—'}</td>
+                      <td style={cellStyle} title={stats?.max}>{stats?.max ?? '—'}</td>
+                      <td style={{ ...cellStyle, whiteSpace: 'normal' }}>
+                        {stats?.topValues?.map(top => (
+                          <div key={top.value}>{top.value} <span style={{ color: 'var(--muted)' }}>({top.count.toLocaleString()})</span></div>
+                        )) ?? '—'}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      ) : (
+        <div style={{ color: 'var(--muted)' }}>Not profiled yet</div>
+      )}
+      <button
+        className="btn"
+        style={{ fontSize: '12px', marginTop: '4px' }}
+        disabled={isProfiling || !worker}
+        onClick={reprofile}
+      >
+        {isProfiling ? 'Profiling...' : dataset.profiledAt ? 'Re-profile' : 'Profile'}
+      </button>
+    </div>
+  )
+}
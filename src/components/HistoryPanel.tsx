@@ -0,0 +1,182 @@
+import { useState, useEffect, useRef, useMemo } from 'react'
+import * as monaco from 'monaco-editor'
+import { useStore } from '../store/store'
+import type { HistoryEntry } from '../types'
+
+function describeOutcome(entry: HistoryEntry): string {
+  if (entry.error) return 'Failed'
+  if (entry.cancelled) return 'Cancelled'
+  if (entry.rowCount == null) return 'Rows not counted'
+  return `${entry.rowCount.toLocaleString()} rows`
+}
+
+// Side-by-side diff of a history entry against the SQL in the active editor tab
+function HistoryDiff({ original, modified }: { original: string; modified: string }) {
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (!containerRef.current) return
+    const diffEditor = monaco.editor.createDiffEditor(containerRef.current, {
+      readOnly: true,
+      automaticLayout: true,
+      minimap: { enabled: false },
+      scrollBeyondLastLine: false,
+      renderSideBySide: true
+    })
+    const originalModel = monaco.editor.createModel(original, 'sql')
+    const modifiedModel = monaco.editor.createModel(modified, 'sql')
+    diffEditor.setModel({ original: originalModel, modified: modifiedModel })
+
+    return () => {
+      diffEditor.dispose()
+      originalModel.dispose()
+      modifiedModel.dispose()
+    }
+  }, [original, modified])
+
+  return <div ref={containerRef} style={{ height: '240px', border: '1px solid var(--border)' }} />
+}
+
+export function HistoryPanel() {
+  const {
+    history,
+    currentQuery,
+    openQueryTab,
+    setActivePanel,
+    setRunRequested,
+    togglePinHistoryEntry,
+    removeHistoryEntry,
+    clearHistory
+  } = useStore()
+  const [search, setSearch] = useState('')
+  const [pinnedOnly, setPinnedOnly] = useState(false)
+  const [diffId, setDiffId] = useState<string | null>(null)
+
+  const entries = useMemo(() => {
+    const needle = search.trim().toLowerCase()
+    return history.filter(entry =>
+      (!pinnedOnly || entry.pinned) &&
+      (!needle || entry.sql.toLowerCase().includes(needle) || entry.datasets.some(d => d.toLowerCase().includes(needle)))
+    )
+  }, [history, search, pinnedOnly])
+
+  // Entries open in a new tab so the SQL being edited is left alone
+  const openEntry = (entry: HistoryEntry, run: boolean) => {
+    openQueryTab(entry.sql)
+    if (run) setRunRequested(true)
+    setActivePanel('sql')
+  }
+
+  return (
+    <div className="panel-surface" style={{
+      height: '100%',
+      display: 'flex',
+      flexDirection: 'column'
+    }}>
+      <div className="header" style={{
+        padding: '8px 16px',
+        display: 'flex',
+        alignItems: 'center',
+        gap: '8px'
+      }}>
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search SQL or table names"
+          aria-label="Search history"
+          style={{ flex: 1, fontSize: '12px', padding: '4px 8px' }}
+        />
+        <label style={{ fontSize: '12px', display: 'flex', alignItems: 'center', gap: '4px' }}>
+          <input
+            type="checkbox"
+            checked={pinnedOnly}
+            onChange={(e) => setPinnedOnly(e.target.checked)}
+          />
+          Pinned only
+        </label>
+        <button
+          className="btn"
+          style={{ fontSize: '12px' }}
+          disabled={history.every(entry => entry.pinned)}
+          onClick={() => {
+            if (confirm('Clear query history? Pinned entries are kept.')) clearHistory()
+          }}
+        >
+          Clear
+        </button>
+      </div>
+
+      <div style={{ flex: 1, overflowY: 'auto', padding: '16px' }}>
+        {entries.length === 0 && (
+          <div style={{ fontSize: '12px', color: 'var(--muted)', textAlign: 'center' }}>
+            {history.length === 0 ? 'Queries you run will appear here' : 'No matching queries'}
+          </div>
+        )}
+        {entries.map(entry => (
+          <div key={entry.id} className="panel-surface" style={{
+            padding: '8px',
+            marginBottom: '8px',
+            border: '1px solid var(--border)'
+          }}>
+            <div style={{ fontSize: '10px', color: 'var(--muted)', display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
+              <span>{new Date(entry.executedAt).toLocaleString()}</span>
+              <span>{entry.durationMs.toLocaleString()} ms</span>
+              <span style={{ color: entry.error ? 'var(--danger)' : undefined }}>{describeOutcome(entry)}</span>
+              {entry.datasets.length > 0 && <span>Tables: {entry.datasets.join(', ')}</span>}
+            </div>
+            <pre
+              title={entry.error}
+              style={{
+                fontSize: '12px',
+                fontFamily: 'monospace',
+                margin: '6px 0',
+                whiteSpace: 'pre-wrap',
+                maxHeight: '120px',
+                overflow: 'hidden'
+              }}
+            >
+              {entry.sql}
+            </pre>
+            <div style={{ display: 'flex', gap: '8px' }}>
+              <button className="btn" style={{ fontSize: '12px' }} onClick={() => openEntry(entry, false)}>
+                Open
+              </button>
+              <button className="btn" style={{ fontSize: '12px' }} onClick={() => openEntry(entry, true)}>
+                Re-run
+              </button>
+              <button
+                className="btn"
+                style={{ fontSize: '12px' }}
+                disabled={entry.sql === currentQuery}
+                title="Compare with the SQL in the active tab"
+                onClick={() => setDiffId(diffId === entry.id ? null : entry.id)}
+              >
+                {diffId === entry.id ? 'Hide diff' : 'Diff'}
+              </button>
+              <button
+                className="btn"
+                style={{ fontSize: '12px' }}
+                aria-pressed={!!entry.pinned}
+                onClick={() => togglePinHistoryEntry(entry.id)}
+              >
+                {entry.pinned ? '★ Pinned' : '☆ Pin'}
+              </button>
+              <button className="btn" style={{ fontSize: '12px' }} onClick={() => removeHistoryEntry(entry.id)}>
+                Delete
+              </button>
+            </div>
+            {diffId === entry.id && entry.sql !== currentQuery && (
+              <div style={{ marginTop: '8px' }}>
+                <div style={{ fontSize: '10px', color: 'var(--muted)', marginBottom: '4px' }}>
+                  History entry (left) vs. active tab (right)
+                </div>
+                <HistoryDiff original={entry.sql} modified={currentQuery} />
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -2,7 +2,9 @@ import { useState } from 'react'
 import { SQLEditor } from './SQLEditor'
 import { ResultsGrid } from './ResultsGrid'
 import { ChartBuilder } from './ChartBuilder'
+import { DashboardPanel } from './DashboardPanel'
 import { DatasetDrawer } from './DatasetDrawer'
+import { HistoryPanel } from './HistoryPanel'
 import { StatusBar } from './StatusBar'
 import { Toolbar } from './Toolbar'
 import { useStore } from '../store/store'
@@ -52,6 +54,18 @@ export function Layout() {
             >
               Charts
             </button>
+            <button
+              onClick={() => setActivePanel('dashboard')}
+              className={`tab-btn ${activePanel === 'dashboard' ? 'active' : ''}`}
+            >
+              Dashboard
+            </button>
+            <button
+              onClick={() => setActivePanel('history')}
+              className={`tab-btn ${activePanel === 'history' ? 'active' : ''}`}
+            >
+              History
+            </button>
           </div>
 
           <div style={{
@@ -61,6 +75,8 @@ export function Layout() {
             {activePanel === 'sql' && <SQLEditor />}
             {activePanel === 'results' && <ResultsGrid />}
             {activePanel === 'charts' && <ChartBuilder />}
+            {activePanel === 'dashboard' && <DashboardPanel />}
+            {activePanel === 'history' && <HistoryPanel />}
           </div>
         </div>
       </div>
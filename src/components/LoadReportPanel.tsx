@@ -0,0 +1,106 @@
+import { useState } from 'react'
+import { useDuckDB } from '../providers/DuckDBProvider'
+import type { Dataset } from '../types'
+import { describeEncoding } from '../utils/encoding'
+import { rejectsToCsv } from '../utils/loadReport'
+
+// One-line summary shown on the dataset card, e.g. "Windows-1252 → UTF-8 • 1,204 rows • 3 rejected"
+export function loadReportSummary(dataset: Dataset): string | null {
+  const report = dataset.loadReport
+  if (!report) return null
+  const parts: string[] = []
+  if (report.encoding) {
+    parts.push(report.transcoded ? `${describeEncoding(report.encoding)} → UTF-8` : describeEncoding(report.encoding))
+  }
+  if (report.rowsLoaded !== undefined) parts.push(`${report.rowsLoaded.toLocaleString()} rows`)
+  if (report.rowsRejected) parts.push(`${report.rowsRejected.toLocaleString()} rejected`)
+  return parts.join(' • ') || null
+}
+
+// Details of how a dataset was loaded, with the rejected CSV rows and a download of all of them
+export function LoadReportPanel({ dataset }: { dataset: Dataset }) {
+  const { worker } = useDuckDB()
+  const [isDownloading, setIsDownloading] = useState(false)
+  const report = dataset.loadReport
+  if (!report) return null
+
+  const downloadRejects = async () => {
+    if (!worker) return
+    setIsDownloading(true)
+    try {
+      const scan = await worker.scanCsvRejects(dataset.fileName, dataset.csvOptions)
+      const blob = new Blob([rejectsToCsv(scan.rejects)], { type: 'text/csv' })
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `${dataset.tableName}_rejects.csv`
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error('Rejects download failed:', error)
+      alert(`Rejects download failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setIsDownloading(false)
+    }
+  }
+
+  const rejects = report.rejects ?? []
+
+  return (
+    <div style={{ marginTop: '8px', fontSize: '11px' }}>
+      <div>Loaded {new Date(report.loadedAt).toLocaleString()}</div>
+      {report.encoding && (
+        <div>
+          Encoding: {describeEncoding(report.encoding)}
+          {report.transcoded ? ' (converted to UTF-8 before loading)' : ''}
+        </div>
+      )}
+      {report.rowsLoaded !== undefined && <div>Rows loaded: {report.rowsLoaded.toLocaleString()}</div>}
+      {report.rowsRejected !== undefined && (
+        <div style={{ color: report.rowsRejected ? 'var(--danger)' : undefined }}>
+          Rows rejected: {report.rowsRejected.toLocaleString()}
+          {report.rowsRejected > 0 && !report.rejectsDropped && ' — queries will fail on these rows unless malformed rows are skipped'}
+        </div>
+      )}
+      {rejects.length > 0 && (
+        <>
+          <div style={{ maxHeight: '160px', overflowY: 'auto', marginTop: '4px', border: '1px solid var(--border)' }}>
+            <table style={{ borderCollapse: 'collapse', width: '100%' }}>
+              <thead>
+                <tr>
+                  <th style={{ textAlign: 'left', padding: '2px 4px' }}>Line</th>
+                  <th style={{ textAlign: 'left', padding: '2px 4px' }}>Column</th>
+                  <th style={{ textAlign: 'left', padding: '2px 4px' }}>Reason</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rejects.map((reject, i) => (
+                  <tr key={i} title={reject.csvLine}>
+                    <td style={{ padding: '2px 4px', verticalAlign: 'top' }}>{reject.line}</td>
+                    <td style={{ padding: '2px 4px', verticalAlign: 'top' }}>{reject.column ?? '—'}</td>
+                    <td style={{ padding: '2px 4px' }}>{reject.errorType}: {reject.message}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {(report.rowsRejected ?? 0) > rejects.length && (
+            <div style={{ color: 'var(--muted)' }}>
+              Showing the first {rejects.length} of {report.rowsRejected!.toLocaleString()} rejected rows
+            </div>
+          )}
+          <button
+            className="btn"
+            style={{ fontSize: '12px', marginTop: '4px' }}
+            disabled={isDownloading || !worker}
+            onClick={downloadRejects}
+          >
+            {isDownloading ? 'Preparing...' : 'Download rejects CSV'}
+          </button>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,91 @@
+import { useState } from 'react'
+import { useDuckDB } from '../providers/DuckDBProvider'
+import { useStore } from '../store/store'
+import type { Dataset } from '../types'
+import { detectFileType, isInsertedFileType } from '../utils/fileFormats'
+import { formatLoadTime } from '../utils/materialize'
+
+const formatMB = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(2)} MB`
+
+// Excel and Arrow datasets are always loaded as tables
+export function canMaterialize(dataset: Dataset): boolean {
+  const fileType = detectFileType(dataset.fileName)
+  return !!fileType && !isInsertedFileType(fileType)
+}
+
+// Load a dataset into a native table (optionally sorted), or turn it back into a view over its file
+export function MaterializePanel({ dataset }: { dataset: Dataset }) {
+  const { worker } = useDuckDB()
+  const { updateDataset } = useStore()
+  const [orderBy, setOrderBy] = useState<string[]>(dataset.materialized?.orderBy ?? [])
+  const [isWorking, setIsWorking] = useState(false)
+  const materialized = dataset.materialized
+
+  // Columns are sorted by in the order they were ticked
+  const toggleColumn = (name: string) => {
+    setOrderBy(current => (current.includes(name) ? current.filter(c => c !== name) : [...current, name]))
+  }
+
+  const run = async (action: () => Promise<void>, label: string) => {
+    if (!worker) return
+    setIsWorking(true)
+    try {
+      await action()
+    } catch (error) {
+      console.error(`${label} failed for ${dataset.tableName}:`, error)
+      alert(`${label} failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const materialize = () => run(async () => {
+    updateDataset(dataset.id, { materialized: await worker!.materializeTable(dataset.tableName, orderBy) })
+  }, 'Materializing')
+
+  const convertToView = () => run(async () => {
+    const fileType = detectFileType(dataset.fileName)
+    if (!fileType) throw new Error(`Unsupported file type for ${dataset.fileName}`)
+    await worker!.createView(dataset.tableName, dataset.fileName, fileType, { sheet: dataset.sheet, csv: dataset.csvOptions })
+    updateDataset(dataset.id, { materialized: undefined })
+  }, 'Converting to a view')
+
+  return (
+    <div style={{ marginTop: '8px', fontSize: '11px' }}>
+      {materialized ? (
+        <div>
+          Native table • built in {formatLoadTime(materialized.loadMs)}
+          {materialized.estimatedBytes !== undefined && ` • ≈${formatMB(materialized.estimatedBytes)} in memory`}
+          {materialized.orderBy?.length ? ` • sorted by ${materialized.orderBy.join(', ')}` : ''}
+        </div>
+      ) : (
+        <div style={{ color: 'var(--muted)' }}>
+          A view re-reads {dataset.fileName} on every query. A native table loads it once into memory.
+        </div>
+      )}
+      <div style={{ marginTop: '4px' }}>Sort by (optional):</div>
+      <div style={{ maxHeight: '120px', overflowY: 'auto', border: '1px solid var(--border)', padding: '2px 4px' }}>
+        {dataset.columns.map(column => {
+          const position = orderBy.indexOf(column.name)
+          return (
+            <label key={column.name} style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+              <input type="checkbox" checked={position !== -1} onChange={() => toggleColumn(column.name)} />
+              <span style={{ flex: 1 }}>{column.name}</span>
+              {position !== -1 && <span style={{ color: 'var(--muted)' }}>{position + 1}</span>}
+            </label>
+          )
+        })}
+      </div>
+      <div style={{ display: 'flex', gap: '8px', marginTop: '4px' }}>
+        <button className="btn" style={{ fontSize: '12px' }} disabled={isWorking || !worker} onClick={materialize}>
+          {isWorking ? 'Working...' : materialized ? 'Rebuild table' : 'Create table'}
+        </button>
+        {materialized && (
+          <button className="btn" style={{ fontSize: '12px' }} disabled={isWorking || !worker} onClick={convertToView}>
+            Convert to view
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
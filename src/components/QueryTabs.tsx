@@ -0,0 +1,126 @@
+import { useState, useEffect } from 'react'
+import { useStore } from '../store/store'
+import type { Query } from '../types'
+
+function describeRun(query: Query): string {
+  if (!query.lastRun) return 'Not run yet'
+  const rows = query.rowCount != null ? ` · ${query.rowCount.toLocaleString()} rows` : ''
+  return `Last run ${new Date(query.lastRun).toLocaleString()}${rows}`
+}
+
+export function QueryTabs() {
+  const {
+    queries,
+    activeQueryId,
+    openQueryTab,
+    setActiveQuery,
+    renameQuery,
+    moveQuery,
+    duplicateQuery,
+    removeQuery
+  } = useStore()
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [draftName, setDraftName] = useState('')
+  const [dragId, setDragId] = useState<string | null>(null)
+
+  // Always keep one tab open; sessions saved before tabs existed start from their current query
+  useEffect(() => {
+    const state = useStore.getState()
+    if (state.queries.length === 0) {
+      openQueryTab(state.currentQuery)
+    } else if (!state.queries.some(q => q.id === state.activeQueryId)) {
+      setActiveQuery(state.queries[0].id)
+    }
+  }, [queries, activeQueryId, openQueryTab, setActiveQuery])
+
+  const startRename = (query: Query) => {
+    setRenamingId(query.id)
+    setDraftName(query.name)
+  }
+
+  const commitRename = () => {
+    if (renamingId) renameQuery(renamingId, draftName)
+    setRenamingId(null)
+  }
+
+  return (
+    <div className="tabbar" style={{ alignItems: 'center', overflowX: 'auto' }}>
+      {queries.map((query, index) => (
+        <div
+          key={query.id}
+          draggable={renamingId !== query.id}
+          onDragStart={() => setDragId(query.id)}
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={(e) => {
+            e.preventDefault()
+            if (dragId && dragId !== query.id) moveQuery(dragId, index)
+            setDragId(null)
+          }}
+          onDragEnd={() => setDragId(null)}
+          onClick={() => setActiveQuery(query.id)}
+          onDoubleClick={() => startRename(query)}
+          className={`tab-btn ${query.id === activeQueryId ? 'active' : ''}`}
+          title={`${describeRun(query)} — double-click to rename, drag to reorder`}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '6px',
+            whiteSpace: 'nowrap',
+            opacity: dragId === query.id ? 0.5 : 1
+          }}
+        >
+          {renamingId === query.id ? (
+            <input
+              autoFocus
+              value={draftName}
+              onChange={(e) => setDraftName(e.target.value)}
+              onBlur={commitRename}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitRename()
+                if (e.key === 'Escape') setRenamingId(null)
+              }}
+              onClick={(e) => e.stopPropagation()}
+              aria-label="Query name"
+              style={{ fontSize: '12px', width: '120px' }}
+            />
+          ) : (
+            <span>{query.name}</span>
+          )}
+          <button
+            onClick={(e) => {
+              e.stopPropagation()
+              removeQuery(query.id)
+            }}
+            title="Close tab"
+            aria-label={`Close ${query.name}`}
+            style={{
+              border: 'none',
+              background: 'transparent',
+              cursor: 'pointer',
+              color: 'var(--muted)',
+              padding: 0,
+              fontSize: '12px'
+            }}
+          >
+            ×
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={() => openQueryTab()}
+        className="tab-btn"
+        title="New query tab"
+      >
+        +
+      </button>
+      <button
+        onClick={() => activeQueryId && duplicateQuery(activeQueryId)}
+        disabled={!activeQueryId}
+        className="tab-btn"
+        title="Duplicate the current tab"
+      >
+        ⧉
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,159 @@
+import { useEffect, useState } from 'react'
+import { useDuckDB } from '../providers/DuckDBProvider'
+import {
+  exportCompression,
+  exportFileName,
+  RESULT_EXPORT_FORMATS,
+  type ExportCompression,
+  type ResultExportFormat
+} from '../utils/resultExport'
+
+const DELIMITERS: Array<{ value: string; label: string }> = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' }
+]
+
+const fieldStyle: React.CSSProperties = { display: 'flex', alignItems: 'center', gap: '8px', fontSize: '12px' }
+const labelStyle: React.CSSProperties = { width: '80px', color: 'var(--muted)' }
+
+interface ResultExportMenuProps {
+  sql: string
+  disabled: boolean
+}
+
+// Download the full result of the current query in a chosen format
+export function ResultExportMenu({ sql, disabled }: ResultExportMenuProps) {
+  const { worker } = useDuckDB()
+  const [open, setOpen] = useState(false)
+  const [isExporting, setIsExporting] = useState(false)
+  const [name, setName] = useState('result')
+  const [format, setFormat] = useState<ResultExportFormat>('parquet')
+  const [compression, setCompression] = useState<ExportCompression | undefined>(undefined)
+  const [delimiter, setDelimiter] = useState(',')
+  const [header, setHeader] = useState(true)
+
+  useEffect(() => {
+    if (!open) return
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') setOpen(false) }
+    window.addEventListener('keydown', onKey)
+    return () => window.removeEventListener('keydown', onKey)
+  }, [open])
+
+  const options = { format, compression, delimiter, header }
+  const compressions = RESULT_EXPORT_FORMATS[format].compressions
+  const fileName = exportFileName(name, options)
+
+  const download = async () => {
+    if (!worker || !sql.trim()) return
+    setIsExporting(true)
+    try {
+      const bytes = await worker.exportQuery(sql, options)
+      const gzipped = fileName.toLowerCase().endsWith('.gz')
+      const blob = new Blob([bytes as BlobPart], { type: gzipped ? 'application/gzip' : RESULT_EXPORT_FORMATS[format].mimeType })
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = fileName
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      URL.revokeObjectURL(url)
+      setOpen(false)
+    } catch (error) {
+      console.error('Result export failed:', error)
+      alert(`Export failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <div style={{ position: 'relative' }}>
+      <button
+        className="btn"
+        aria-haspopup="dialog"
+        aria-expanded={open}
+        disabled={disabled || isExporting || !worker}
+        onClick={() => setOpen(!open)}
+        style={{ fontSize: '12px' }}
+      >
+        {isExporting ? '⏳' : '⬇️'} Export
+      </button>
+      {open && (
+        <div
+          role="dialog"
+          aria-label="Export results"
+          className="panel-surface"
+          style={{
+            position: 'absolute',
+            right: 0,
+            top: 'calc(100% + 4px)',
+            zIndex: 100,
+            width: '300px',
+            padding: '12px',
+            display: 'grid',
+            gap: '8px',
+            backgroundColor: 'var(--surface-2)',
+            border: '1px solid var(--border)',
+            borderRadius: '6px',
+            color: 'var(--text)'
+          }}
+        >
+          <label style={fieldStyle}>
+            <span style={labelStyle}>File name</span>
+            <input value={name} onChange={(e) => setName(e.target.value)} style={{ flex: 1, minWidth: 0, fontSize: '12px' }} />
+          </label>
+          <label style={fieldStyle}>
+            <span style={labelStyle}>Format</span>
+            <select value={format} onChange={(e) => setFormat(e.target.value as ResultExportFormat)} style={{ flex: 1, fontSize: '12px' }}>
+              {Object.entries(RESULT_EXPORT_FORMATS).map(([value, info]) => (
+                <option key={value} value={value}>{info.label}</option>
+              ))}
+            </select>
+          </label>
+          {format === 'csv' && (
+            <>
+              <label style={fieldStyle}>
+                <span style={labelStyle}>Delimiter</span>
+                <select value={delimiter} onChange={(e) => setDelimiter(e.target.value)} style={{ flex: 1, fontSize: '12px' }}>
+                  {DELIMITERS.map(d => <option key={d.label} value={d.value}>{d.label}</option>)}
+                </select>
+              </label>
+              <label style={fieldStyle}>
+                <span style={labelStyle}>Header row</span>
+                <input type="checkbox" checked={header} onChange={(e) => setHeader(e.target.checked)} />
+              </label>
+            </>
+          )}
+          <label style={fieldStyle}>
+            <span style={labelStyle}>Compression</span>
+            <select
+              value={exportCompression(options)}
+              disabled={compressions.length < 2}
+              onChange={(e) => setCompression(e.target.value as ExportCompression)}
+              style={{ flex: 1, fontSize: '12px' }}
+            >
+              {compressions.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+          </label>
+          {format === 'xlsx' && (
+            <div style={{ fontSize: '11px', color: 'var(--muted)' }}>
+              Excel files are built in memory and hold at most 1,048,575 rows.
+            </div>
+          )}
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '8px' }}>
+            <span style={{ fontSize: '11px', color: 'var(--muted)', overflow: 'hidden', textOverflow: 'ellipsis' }}>{fileName}</span>
+            <div style={{ display: 'flex', gap: '8px' }}>
+              <button className="btn" style={{ fontSize: '12px' }} onClick={() => setOpen(false)}>Cancel</button>
+              <button className="btn" style={{ fontSize: '12px' }} disabled={isExporting} onClick={download}>
+                {isExporting ? 'Exporting...' : 'Download'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,14 +1,19 @@
-import { useState, useCallback, useMemo } from 'react'
+import { useState, useCallback, useMemo, useRef } from 'react'
 import { useStore } from '../store/store'
 import { VariableSizeGrid as Grid } from 'react-window'
 import { useDuckDB } from '../providers/DuckDBProvider'
+import { RESULT_PAGE_SIZE } from '../types'
+import { findColumnType, formatValue, isNumericType } from '../utils/columnTypes'
+import { ColumnarResult, queryResultTable } from '../utils/columnarResult'
+import { ResultExportMenu } from './ResultExportMenu'
 
-
+// Start fetching the next page when the viewport gets this close to the last loaded row
+const PREFETCH_ROWS = 200
 
 export function ResultsGrid() {
-  const { queryResult, queryStatus, currentQuery } = useStore()
+  const { queryResult, queryStatus, currentQuery, appendQueryBatch } = useStore()
   const { worker } = useDuckDB()
-  const [isDownloading, setIsDownloading] = useState(false)
+  const isFetchingRef = useRef(false)
   const [containerSize, setContainerSize] = useState({ width: 0, height: 0 })
   const containerRef = useCallback((node: HTMLDivElement | null) => {
     if (node) {
@@ -17,30 +22,57 @@ export function ResultsGrid() {
     }
   }, [])
 
-  const { data, columns } = queryResult
+  const { columns, schema, totalRows, hasMore } = queryResult
+  // Cells read values straight from the Arrow pages; nothing is converted until rendered
+  const table = useMemo(() => queryResultTable(queryResult), [queryResult])
+  const rowCount = table.numRows
+
+  // Column types drive alignment; numbers are right-aligned like in a SQL client
+  const columnTypes = useMemo(
+    () => columns.map(col => findColumnType(schema, col)),
+    [columns, schema]
+  )
+
+  const loadMoreRows = useCallback(async () => {
+    const { cursorId } = queryResult
+    if (!worker || !cursorId || !hasMore || isFetchingRef.current) return
+    isFetchingRef.current = true
+    try {
+      const page = await worker.fetchArrow(cursorId, RESULT_PAGE_SIZE)
+      appendQueryBatch(cursorId, ColumnarResult.fromIPC(page.ipc), page.done)
+    } catch (error) {
+      console.error('Fetching more rows failed:', error)
+      // Stop paging; the cursor is gone (e.g. superseded by another query)
+      appendQueryBatch(cursorId, ColumnarResult.fromRows([], columns), true)
+    } finally {
+      isFetchingRef.current = false
+    }
+  }, [worker, queryResult, hasMore, columns, appendQueryBatch])
 
   const columnWidths = useMemo(() => {
-    if (!data || data.length === 0) return {}
+    if (rowCount === 0) return {}
     
     const widths: Record<number, number> = {}
+    const sampleRows = Math.min(rowCount, 100)
     columns.forEach((col, index) => {
       // Calculate max width for each column
-      const maxContentLength = Math.max(
-        col.length,
-        ...data.slice(0, 100).map(row => String(row[col] || '').length)
-      )
+      let maxContentLength = col.length
+      for (let row = 0; row < sampleRows; row++) {
+        maxContentLength = Math.max(maxContentLength, formatValue(table.getValue(row, index)).length)
+      }
       widths[index] = Math.min(Math.max(maxContentLength * 8 + 16, 100), 300)
     })
     return widths
-  }, [data, columns])
+  }, [table, rowCount, columns])
 
   const Cell = ({ columnIndex, rowIndex, style, data: cellData }: {
     columnIndex: number
     rowIndex: number
     style: React.CSSProperties
-    data: { data: any[], columns: string[] }
+    data: { table: ColumnarResult, columns: string[], columnTypes: Array<string | undefined> }
   }) => {
-    const { data, columns } = cellData
+    const { table, columns, columnTypes } = cellData
+    const type = columnTypes[columnIndex]
     
     if (rowIndex === 0) {
       // Header row
@@ -57,6 +89,7 @@ export function ResultsGrid() {
             fontWeight: 'bold',
             fontSize: '12px'
           }}
+          title={type ? `${columns[columnIndex]} (${type})` : columns[columnIndex]}
         >
           {columns[columnIndex]}
         </div>
@@ -64,8 +97,9 @@ export function ResultsGrid() {
     }
 
     // Data row
-    const rowData = data[rowIndex - 1]
-    const value = rowData ? rowData[columns[columnIndex]] : ''
+    const value = table.getValue(rowIndex - 1, columnIndex)
+    const isNull = value === null
+    const text = formatValue(value)
 
     return (
       <div
@@ -77,15 +111,18 @@ export function ResultsGrid() {
           borderRight: columnIndex < columns.length - 1 ? '1px solid var(--border)' : 'none',
           display: 'flex',
           alignItems: 'center',
+          justifyContent: type && isNumericType(type) ? 'flex-end' : 'flex-start',
           padding: '8px',
           fontSize: '12px',
+          color: isNull ? 'var(--muted)' : undefined,
+          fontStyle: isNull ? 'italic' : undefined,
           overflow: 'hidden',
           textOverflow: 'ellipsis',
           whiteSpace: 'nowrap'
         }}
-        title={String(value)}
+        title={text}
       >
-        {String(value)}
+        {text}
       </div>
     )
   }
@@ -106,15 +143,28 @@ export function ResultsGrid() {
           <div style={{ fontSize: '14px', fontWeight: 'bold', marginBottom: '8px' }}>
             Query Error
           </div>
-          <div style={{ fontSize: '12px', maxWidth: '400px' }}>
+          {/* DuckDB errors carry a LINE excerpt with a caret, so keep their layout */}
+          <pre style={{
+            fontSize: '12px',
+            maxWidth: '600px',
+            margin: 0,
+            textAlign: 'left',
+            whiteSpace: 'pre-wrap',
+            fontFamily: 'monospace'
+          }}>
             {queryStatus.error}
-          </div>
+          </pre>
+          {queryStatus.diagnostic?.suggestion && (
+            <div style={{ fontSize: '12px', marginTop: '8px', color: 'var(--muted)' }}>
+              Did you mean <code>{queryStatus.diagnostic.suggestion}</code>?
+            </div>
+          )}
         </div>
       </div>
     )
   }
 
-  if (!data || data.length === 0) {
+  if (rowCount === 0) {
     return (
       <div className="panel-surface" style={{
         height: '100%',
@@ -132,6 +182,11 @@ export function ResultsGrid() {
               <div style={{ fontSize: '14px', marginBottom: '8px' }}>⏳ Running query...</div>
               <div style={{ fontSize: '12px' }}>Please wait</div>
             </div>
+          ) : queryStatus.cancelled ? (
+            <div>
+              <div style={{ fontSize: '14px', marginBottom: '8px' }}>⏹ Query cancelled</div>
+              <div style={{ fontSize: '12px' }}>Run the query again to see results</div>
+            </div>
           ) : (
             <div>
               <div style={{ fontSize: '14px', marginBottom: '8px' }}>📊 No results yet</div>
@@ -164,38 +219,15 @@ export function ResultsGrid() {
         alignItems: 'center'
       }}>
         <div>
-          Results: {data.length.toLocaleString()} rows × {columns.length} columns
+          {hasMore
+            ? `Showing ${rowCount.toLocaleString()} of ${totalRows != null ? totalRows.toLocaleString() : `${rowCount.toLocaleString()}+`} rows × ${columns.length} columns`
+            : `Results: ${rowCount.toLocaleString()} rows × ${columns.length} columns`}
         </div>
         <div style={{ display: 'flex', gap: '8px' }}>
-          <button
-            className="btn"
-            disabled={isDownloading || queryStatus.isRunning || !worker || !(currentQuery && currentQuery.trim())}
-            onClick={async () => {
-              if (!worker || !currentQuery) return
-              setIsDownloading(true)
-              try {
-                const buf = await (worker as any).copyQueryToParquet(currentQuery, 'result.parquet')
-                const blob = new Blob([buf], { type: 'application/x-parquet' })
-                const url = URL.createObjectURL(blob)
-                const a = document.createElement('a')
-                a.href = url
-                a.download = 'result.parquet'
-                document.body.appendChild(a)
-                a.click()
-                document.body.removeChild(a)
-                URL.revokeObjectURL(url)
-              } catch (error) {
-                console.error('Parquet download failed:', error)
-                alert(`Parquet download failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
-              } finally {
-                setIsDownloading(false)
-              }
-            }}
-            style={{ fontSize: '12px' }}
-          >
-            {isDownloading ? '⏳' : '⬇️'}
-            Download Parquet (COPY)
-          </button>
+          <ResultExportMenu
+            sql={currentQuery ?? ''}
+            disabled={queryStatus.isRunning || !(currentQuery && currentQuery.trim())}
+          />
         </div>
       </div>
       
@@ -213,10 +245,15 @@ export function ResultsGrid() {
           columnCount={columns.length}
           columnWidth={(index: number) => columnWidths[index] || 150}
           height={totalHeight}
-          rowCount={data.length + 1} // +1 for header
+          rowCount={rowCount + 1} // +1 for header
           rowHeight={() => rowHeight}
           width={containerSize.width}
-          itemData={{ data, columns }}
+          itemData={{ table, columns, columnTypes }}
+          onItemsRendered={({ visibleRowStopIndex }) => {
+            if (hasMore && visibleRowStopIndex >= rowCount - PREFETCH_ROWS) {
+              loadMoreRows()
+            }
+          }}
         >
           {Cell as any}
         </Grid>
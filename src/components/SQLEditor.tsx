@@ -2,12 +2,76 @@ import { useRef, useEffect, useCallback } from 'react'
 import * as monaco from 'monaco-editor'
 import { useStore } from '../store/store'
 import { useDuckDB } from '../providers/DuckDBProvider'
+import { RESULT_PAGE_SIZE, type HistoryEntry, type SqlFunction } from '../types'
+import { isQueryCancelledError } from '../workers/querySession'
+import { ColumnarResult } from '../utils/columnarResult'
+import { QueryTabs } from './QueryTabs'
+import { getCompletionContext, suggestionsFor, type CompletionCatalog } from '../utils/sqlContext'
+import { diagnoseSqlError, type SqlDiagnostic } from '../utils/sqlErrors'
+
+const MARKER_OWNER = 'duckdb'
+
+// Show a diagnostic as a squiggle in the editor; null clears previous markers
+function showDiagnostic(editor: monaco.editor.IStandaloneCodeEditor | null, diagnostic: SqlDiagnostic | null) {
+  const model = editor?.getModel()
+  if (!model) return
+  if (!diagnostic?.line || !diagnostic.column) {
+    monaco.editor.setModelMarkers(model, MARKER_OWNER, [])
+    return
+  }
+  const hint = diagnostic.suggestion ? `\nDid you mean "${diagnostic.suggestion}"?` : ''
+  monaco.editor.setModelMarkers(model, MARKER_OWNER, [{
+    severity: monaco.MarkerSeverity.Error,
+    message: `${diagnostic.kind} Error: ${diagnostic.message}${hint}`,
+    startLineNumber: diagnostic.line,
+    startColumn: diagnostic.column,
+    endLineNumber: diagnostic.line,
+    endColumn: diagnostic.column + (diagnostic.length ?? 1)
+  }])
+}
 
 export function SQLEditor() {
   const editorRef = useRef<monaco.editor.IStandaloneCodeEditor | null>(null)
   const containerRef = useRef<HTMLDivElement>(null)
-  const { currentQuery, setCurrentQuery, datasets, setQueryResult, setQueryStatus, queryStatus } = useStore()
+  const {
+    currentQuery,
+    setCurrentQuery,
+    datasets,
+    setQueryResult,
+    setQueryStatus,
+    setQueryTotalRows,
+    setQueryRunInfo,
+    markQueryCancelled,
+    addHistoryEntry,
+    updateHistoryEntry,
+    queryStatus,
+    validateBeforeRun,
+    setValidateBeforeRun,
+    runRequested,
+    setRunRequested
+  } = useStore()
   const { worker } = useDuckDB()
+  const functionsRef = useRef<SqlFunction[]>([])
+
+  // Load the DuckDB function catalog once per worker for completions and hover docs
+  useEffect(() => {
+    if (!worker) return
+    worker.getFunctions()
+      .then(functions => { functionsRef.current = functions })
+      .catch(e => console.warn('Unable to load DuckDB functions:', e))
+  }, [worker])
+
+  // Known tables, columns and functions, for completions and error hints
+  const buildCatalog = useCallback((): CompletionCatalog => ({
+    tables: datasets.map(d => ({ name: d.tableName, columns: d.columns })),
+    functions: functionsRef.current
+  }), [datasets])
+
+  const reportError = useCallback((message: string, sql: string) => {
+    const diagnostic = diagnoseSqlError(message, sql, buildCatalog())
+    showDiagnostic(editorRef.current, diagnostic)
+    setQueryStatus({ isRunning: false, error: message, diagnostic })
+  }, [buildCatalog, setQueryStatus])
 
   // Execute query (used by keyboard shortcut and Run button)
   const executeQuery = useCallback(async () => {
@@ -19,20 +83,80 @@ export function SQLEditor() {
     const query = editorRef.current?.getValue() || ''
     if (!query.trim()) return
 
+    // Results belong to the tab that ran the query, even if another tab is active when they arrive
+    const queryId = useStore.getState().activeQueryId
     setQueryStatus({ isRunning: true, error: null })
+    showDiagnostic(editorRef.current, null)
+    const startedAt = performance.now()
+    const record = (outcome: Partial<HistoryEntry>) => addHistoryEntry({
+      sql: query,
+      executedAt: new Date().toISOString(),
+      durationMs: Math.round(performance.now() - startedAt),
+      datasets: useStore.getState().datasets.map(d => d.tableName),
+      ...outcome
+    })
 
     try {
-      const result = await worker.query(query)
-      setQueryResult({ data: result, columns: result.length > 0 ? Object.keys(result[0]) : [] })
-      setQueryStatus({ isRunning: false, error: null })
+      // Optional planning pass: report binder/parser errors without executing anything
+      if (useStore.getState().validateBeforeRun) {
+        const problem = await worker.validateQuery(query)
+        if (problem) {
+          reportError(problem, query)
+          record({ error: problem })
+          return
+        }
+      }
+
+      // Stream the result through a worker cursor; the grid fetches further pages on scroll
+      // Pages arrive as transferred Arrow IPC buffers and are read lazily by the grid and charts
+      const cursor = await worker.openCursor(query)
+      const page = await worker.fetchArrow(cursor.cursorId, RESULT_PAGE_SIZE)
+      setQueryResult({
+        data: [],
+        table: ColumnarResult.fromIPC(page.ipc),
+        columns: cursor.columns,
+        schema: cursor.schema,
+        sql: query,
+        totalRows: page.done ? page.numRows : null,
+        cursorId: cursor.cursorId,
+        hasMore: !page.done
+      }, queryId)
+      setQueryStatus({ isRunning: false, error: null, executionTime: performance.now() - startedAt })
+      if (queryId) {
+        setQueryRunInfo(queryId, { lastRun: new Date(), rowCount: page.done ? page.numRows : undefined })
+      }
+      const historyId = record({ rowCount: page.done ? page.numRows : null })
+
+      // Count the full result in the background once the first page is on screen
+      if (!page.done) {
+        worker.countRows(cursor.cursorId)
+          .then(total => {
+            setQueryTotalRows(cursor.cursorId, total)
+            if (total != null) updateHistoryEntry(historyId, { rowCount: total })
+            if (queryId && total != null) setQueryRunInfo(queryId, { rowCount: total })
+          })
+          .catch(e => console.warn('Unable to count result rows:', e))
+      }
     } catch (error) {
+      if (isQueryCancelledError(error)) {
+        markQueryCancelled()
+        record({ cancelled: true })
+        return
+      }
       console.error('Query execution failed:', error)
-      setQueryStatus({ 
-        isRunning: false, 
-        error: error instanceof Error ? error.message : 'Query execution failed'
-      })
+      const message = error instanceof Error ? error.message : 'Query execution failed'
+      reportError(message, query)
+      record({ error: message })
     }
-  }, [worker, setQueryStatus, setQueryResult])
+  }, [worker, setQueryStatus, setQueryResult, setQueryTotalRows, setQueryRunInfo, markQueryCancelled, reportError, addHistoryEntry, updateHistoryEntry])
+
+  const cancelQuery = useCallback(async () => {
+    try {
+      await worker?.cancelQuery()
+    } catch (error) {
+      console.error('Cancelling query failed:', error)
+    }
+  }, [worker])
 
   useEffect(() => {
     if (!containerRef.current) return
@@ -58,20 +182,19 @@ export function SQLEditor() {
 
     editorRef.current = editor
 
-    // Add SQL keywords and table names to suggestions
-    const sqlKeywords = [
-      'SELECT', 'FROM', 'WHERE', 'JOIN', 'LEFT', 'RIGHT', 'INNER', 'OUTER', 'ON', 'GROUP', 'BY',
-      'ORDER', 'HAVING', 'LIMIT', 'OFFSET', 'UNION', 'ALL', 'DISTINCT', 'AS', 'AND', 'OR',
-      'NOT', 'IN', 'EXISTS', 'BETWEEN', 'LIKE', 'IS', 'NULL', 'TRUE', 'FALSE', 'CASE',
-      'WHEN', 'THEN', 'ELSE', 'END', 'CAST', 'CONVERT', 'COUNT', 'SUM', 'AVG', 'MIN',
-      'MAX', 'CREATE', 'TABLE', 'VIEW', 'INSERT', 'UPDATE', 'DELETE', 'DROP', 'ALTER'
-    ]
-
-    const tableNames = datasets.map(d => d.tableName)
-    const allSuggestions = [...sqlKeywords, ...tableNames]
+    // Schema-aware completions: dataset columns by context, plus DuckDB built-in functions
+    const completionKinds = {
+      keyword: monaco.languages.CompletionItemKind.Keyword,
+      table: monaco.languages.CompletionItemKind.Struct,
+      column: monaco.languages.CompletionItemKind.Field,
+      function: monaco.languages.CompletionItemKind.Function
+    }
+    // Columns first, then functions, then tables and keywords
+    const sortOrder = { column: 0, function: 1, table: 2, keyword: 3 }
 
     // Register completion provider
     const completionProvider = monaco.languages.registerCompletionItemProvider('sql', {
+      triggerCharacters: ['.'],
       provideCompletionItems: (model, position) => {
         const word = model.getWordUntilPosition(position)
         const range = {
@@ -81,23 +204,46 @@ export function SQLEditor() {
           endColumn: word.endColumn
         }
 
-        const suggestions = allSuggestions.map(keyword => ({
-          label: keyword,
-          kind: sqlKeywords.includes(keyword) ? 
-            monaco.languages.CompletionItemKind.Keyword : 
-            monaco.languages.CompletionItemKind.Variable,
-          insertText: keyword,
-          detail: sqlKeywords.includes(keyword) ? 'SQL Keyword' : 'Table Name',
-          range: range
+        const context = getCompletionContext(model.getValue(), model.getOffsetAt(position))
+        const suggestions = suggestionsFor(context, buildCatalog()).map(s => ({
+          label: s.label,
+          kind: completionKinds[s.kind],
+          insertText: s.insertText,
+          insertTextRules: s.snippet ? monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet : undefined,
+          detail: s.detail,
+          documentation: s.documentation,
+          sortText: `${sortOrder[s.kind]}${s.label}`,
+          range
         }))
 
         return { suggestions }
       }
     })
 
+    // Function signatures and descriptions on hover
+    const hoverProvider = monaco.languages.registerHoverProvider('sql', {
+      provideHover: (model, position) => {
+        const word = model.getWordAtPosition(position)
+        if (!word) return null
+        const name = word.word.toLowerCase()
+        const fn = functionsRef.current.find(f => f.name.toLowerCase() === name)
+        if (!fn) return null
+        return {
+          range: new monaco.Range(position.lineNumber, word.startColumn, position.lineNumber, word.endColumn),
+          contents: [
+            { value: `**${fn.name}** _(${fn.type})_` },
+            { value: ['```sql', ...fn.signatures.slice(0, 8), '```'].join('\n') },
+            ...(fn.description ? [{ value: fn.description }] : [])
+          ]
+        }
+      }
+    })
+
     // Handle editor content changes
     const contentChangeListener = editor.onDidChangeModelContent(() => {
       setCurrentQuery(editor.getValue())
+      // Markers point into the text that failed; drop them once it is edited
+      showDiagnostic(editor, null)
     })
 
     // Handle keyboard shortcuts
@@ -112,10 +258,11 @@ export function SQLEditor() {
 
     return () => {
       completionProvider.dispose()
+      hoverProvider.dispose()
       contentChangeListener.dispose()
       editor.dispose()
     }
-  }, [containerRef, datasets, worker])
+  }, [containerRef, buildCatalog, worker])
 
   // Update editor content when currentQuery changes from outside
   useEffect(() => {
@@ -124,12 +271,20 @@ export function SQLEditor() {
     }
   }, [currentQuery])
 
+  // Run requested from elsewhere (e.g. re-running a history entry); the content sync above runs first
+  useEffect(() => {
+    if (!runRequested || !worker || !editorRef.current) return
+    setRunRequested(false)
+    executeQuery()
+  }, [runRequested, worker, executeQuery, setRunRequested])
+
   return (
     <div className="panel-surface" style={{
       height: '100%',
       display: 'flex',
       flexDirection: 'column'
     }}>
+      <QueryTabs />
       <div className="header" style={{
         padding: '8px 16px',
         display: 'flex',
@@ -140,16 +295,37 @@ export function SQLEditor() {
           SQL Editor
         </div>
         <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+          <label
+            style={{ fontSize: '11px', color: 'var(--muted)', display: 'flex', alignItems: 'center', gap: '4px' }}
+            title="Check the query with EXPLAIN before running it"
+          >
+            <input
+              type="checkbox"
+              checked={validateBeforeRun}
+              onChange={(e) => setValidateBeforeRun(e.target.checked)}
+            />
+            Validate first
+          </label>
           <div style={{ fontSize: '11px', color: 'var(--muted)' }}>
             Press Cmd/Ctrl+Enter to run
           </div>
-          <button
-            onClick={executeQuery}
-            disabled={!worker || queryStatus.isRunning}
-            className="btn btn-primary"
-          >
-            ▶ Run
-          </button>
+          {queryStatus.isRunning ? (
+            <button
+              onClick={cancelQuery}
+              disabled={!worker}
+              className="btn btn-danger"
+            >
+              ■ Cancel
+            </button>
+          ) : (
+            <button
+              onClick={executeQuery}
+              disabled={!worker}
+              className="btn btn-primary"
+            >
+              ▶ Run
+            </button>
+          )}
         </div>
       </div>
       <div 
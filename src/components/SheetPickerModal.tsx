@@ -0,0 +1,59 @@
+import React, { useEffect, useState } from 'react'
+
+interface SheetPickerModalProps {
+  fileName: string
+  sheets: string[]
+  onPick: (sheet: string) => void
+  onCancel: () => void
+}
+
+// Asks which worksheet of an uploaded workbook to load as a dataset
+export const SheetPickerModal: React.FC<SheetPickerModalProps> = ({ fileName, sheets, onPick, onCancel }) => {
+  const [selected, setSelected] = useState(sheets[0] ?? '')
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCancel()
+    }
+    window.addEventListener('keydown', onKey)
+    return () => window.removeEventListener('keydown', onKey)
+  }, [onCancel])
+
+  return (
+    <div
+      onClick={onCancel}
+      style={{ position: 'fixed', top: 0, left: 0, right: 0, bottom: 0, backgroundColor: 'rgba(0,0,0,0.24)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 1000 }}
+    >
+      <div
+        className="panel-surface"
+        role="dialog"
+        aria-label="Choose a worksheet"
+        onClick={(e) => e.stopPropagation()}
+        style={{ width: 360, backgroundColor: 'var(--surface-2)', border: '1px solid var(--border)', borderRadius: 10, padding: 16, boxShadow: '0 8px 24px rgba(0,0,0,0.18)' }}
+      >
+        <div style={{ fontSize: 15, fontWeight: 700, marginBottom: 4 }}>Choose a worksheet</div>
+        <div style={{ fontSize: 12, color: 'var(--muted)', marginBottom: 12 }}>{fileName}</div>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 6, maxHeight: 240, overflowY: 'auto' }}>
+          {sheets.map(sheet => (
+            <label key={sheet} style={{ fontSize: 13, display: 'flex', alignItems: 'center', gap: 6 }}>
+              <input
+                type="radio"
+                name="sheet"
+                value={sheet}
+                checked={selected === sheet}
+                onChange={() => setSelected(sheet)}
+              />
+              {sheet}
+            </label>
+          ))}
+        </div>
+        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 8, marginTop: 16 }}>
+          <button className="btn" style={{ fontSize: 12 }} onClick={onCancel}>Skip file</button>
+          <button className="btn btn-primary" style={{ fontSize: 12 }} disabled={!selected} onClick={() => onPick(selected)}>
+            Load sheet
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,8 +1,11 @@
 import { useStore } from '../store/store'
+import { useDuckDB } from '../providers/DuckDBProvider'
+import { formatDiagnostic } from '../utils/sqlErrors'
 
 export function StatusBar() {
   const { queryStatus } = useStore()
-  const { isRunning: isQueryRunning, error: queryError } = queryStatus
+  const { worker } = useDuckDB()
+  const { isRunning: isQueryRunning, error: queryError, cancelled: queryCancelled, diagnostic } = queryStatus
 
   return (
     <div style={{
@@ -25,12 +28,34 @@ export function StatusBar() {
               animation: 'pulse 1s infinite'
             }} />
             Running query...
+            <button
+              onClick={() => worker?.cancelQuery().catch(e => console.error('Cancelling query failed:', e))}
+              disabled={!worker}
+              style={{
+                marginLeft: '4px',
+                padding: '0 6px',
+                border: '1px solid #dc3545',
+                borderRadius: '4px',
+                backgroundColor: 'transparent',
+                color: '#dc3545',
+                fontSize: '11px',
+                cursor: 'pointer'
+              }}
+            >
+              Cancel
+            </button>
+          </div>
+        )}
+        
+        {queryCancelled && (
+          <div style={{ color: '#fd7e14' }}>
+            Query cancelled
           </div>
         )}
         
         {queryError && (
           <div style={{ color: '#dc3545' }}>
-            Error: {queryError}
+            {diagnostic ? formatDiagnostic(diagnostic) : `Error: ${queryError.split('\n')[0]}`}
           </div>
         )}
         
@@ -1,13 +1,16 @@
 import { useStore } from '../store/store'
+import { useDuckDB } from '../providers/DuckDBProvider'
 import { BundleManager } from './BundleManager'
 import { useState } from 'react'
 import { DiagnosticsModal } from './DiagnosticsModal'
+import { clearDatasetCache } from '../utils/datasetCache'
 
 interface ToolbarProps {
   onToggleDrawer: () => void
 }
 
 export function Toolbar({ onToggleDrawer }: ToolbarProps) {
+  const { worker } = useDuckDB()
   const { datasets, clearSession } = useStore()
   const [showDiagnostics, setShowDiagnostics] = useState(false)
 
@@ -49,6 +52,8 @@ export function Toolbar({ onToggleDrawer }: ToolbarProps) {
         onClick={() => {
           if (confirm('Clear all data and start fresh?')) {
             clearSession()
+            worker?.resetSession().catch(e => console.warn('Unable to reset DuckDB:', e))
+            clearDatasetCache().catch(e => console.warn('Unable to clear dataset cache:', e))
           }
         }}
         className="btn btn-danger"
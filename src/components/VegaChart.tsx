@@ -0,0 +1,49 @@
+import { useEffect, useRef, useState } from 'react'
+import * as vega from 'vega'
+import * as vegaLite from 'vega-lite'
+
+interface VegaChartProps {
+  spec: any // Vega-Lite specification; nothing is drawn while null
+  style?: React.CSSProperties
+  selections?: string[] // Selection parameters to report on
+  onSelectionChange?: (name: string, tuples: any[]) => void
+}
+
+// Renders a Vega-Lite spec to canvas, replacing the view whenever the spec changes
+export function VegaChart({ spec, style, selections, onSelectionChange }: VegaChartProps) {
+  const [container, setContainer] = useState<HTMLDivElement | null>(null)
+  // Read through a ref so a new callback does not replace the view
+  const onSelectionRef = useRef(onSelectionChange)
+  onSelectionRef.current = onSelectionChange
+
+  useEffect(() => {
+    if (!container || !spec) return
+
+    try {
+      // Compile Vega-Lite to Vega
+      const vegaSpec = vegaLite.compile(spec).spec
+
+      // Create Vega view
+      const view = new vega.View(vega.parse(vegaSpec), {
+        renderer: 'canvas',
+        container,
+        hover: true
+      })
+
+      // Vega keeps the tuples of each selection in a `<name>_store` dataset
+      for (const name of selections ?? []) {
+        view.addDataListener(`${name}_store`, (_, tuples) => onSelectionRef.current?.(name, tuples))
+      }
+
+      view.runAsync()
+
+      return () => {
+        view.finalize()
+      }
+    } catch (error) {
+      console.error('Error rendering chart:', error)
+    }
+  }, [container, spec, selections])
+
+  return <div ref={setContainer} style={style} />
+}
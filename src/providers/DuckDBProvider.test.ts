@@ -0,0 +1,98 @@
+import 'fake-indexeddb/auto'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { restoreDatasets } from './DuckDBProvider'
+import { useStore } from '../store/store'
+import { clearDatasetCache, listCachedDatasets, putCachedDataset } from '../utils/datasetCache'
+import type { Dataset } from '../types'
+
+function dataset(id: string, extra: Partial<Dataset> = {}): Dataset {
+  return {
+    id,
+    name: `${id}.csv`,
+    tableName: id,
+    fileName: `${id}.csv`,
+    fileSize: 4,
+    size: 4,
+    rowCount: 1,
+    columns: [{ name: 'a', type: 'INTEGER', nullable: true }],
+    file: null,
+    embedded: false,
+    uploadedAt: '2024-01-01T00:00:00.000Z',
+    createdAt: new Date('2024-01-01T00:00:00.000Z'),
+    ...extra
+  }
+}
+
+function stubWorker() {
+  return {
+    registerUrl: vi.fn(async () => {}),
+    registerFile: vi.fn(async () => {}),
+    registerFileHandle: vi.fn(async () => ({ size: 4, transcoded: false })),
+    createView: vi.fn(async () => {}),
+    materializeTable: vi.fn(async () => ({ orderBy: [], loadMs: 1, estimatedBytes: 4, materializedAt: '2024-01-01T00:00:00.000Z' }))
+  }
+}
+
+describe('restoreDatasets', () => {
+  beforeEach(async () => {
+    useStore.getState().clearSession()
+    await clearDatasetCache()
+  })
+
+  it('should register cached uploads again and create their views', async () => {
+    const bytes = new TextEncoder().encode('a\n1\n').buffer
+    await putCachedDataset({ id: 'sales', fileName: 'sales.csv', fileType: 'csv', bytes, size: 4, cachedAt: '2024-01-01T00:00:00.000Z' })
+    const csv = { delimiter: ';' }
+    useStore.setState({ datasets: [dataset('sales', { csvOptions: csv })] })
+    const worker = stubWorker()
+
+    await restoreDatasets(worker)
+
+    expect(worker.registerFile).toHaveBeenCalledWith('sales.csv', bytes)
+    expect(worker.createView).toHaveBeenCalledWith('sales', 'sales.csv', 'csv', { sheet: undefined, csv })
+    expect(useStore.getState().datasets).toMatchObject([{ id: 'sales', cached: true }])
+  })
+
+  it('should drop uploads missing from the cache and keep remote datasets', async () => {
+    useStore.setState({
+      datasets: [
+        dataset('sales'),
+        dataset('remote', { fileName: 'remote.parquet', sourceUrl: 'https://example.com/remote.parquet' })
+      ]
+    })
+    const worker = stubWorker()
+
+    await restoreDatasets(worker)
+
+    expect(worker.registerUrl).toHaveBeenCalledWith('remote.parquet', 'https://example.com/remote.parquet')
+    expect(worker.createView).toHaveBeenCalledTimes(1)
+    expect(useStore.getState().datasets.map(d => d.id)).toEqual(['remote'])
+    expect(useStore.getState().datasets[0].cached).toBe(false)
+  })
+
+  it('should remove cache entries no dataset refers to', async () => {
+    const bytes = new TextEncoder().encode('a\n1\n').buffer
+    await putCachedDataset({ id: 'sales', fileName: 'sales.csv', fileType: 'csv', bytes, size: 4, cachedAt: '2024-01-01T00:00:00.000Z' })
+    await putCachedDataset({ id: 'orphan', fileName: 'orphan.csv', fileType: 'csv', bytes, size: 4, cachedAt: '2024-01-01T00:00:00.000Z' })
+    useStore.setState({ datasets: [dataset('sales')] })
+
+    await restoreDatasets(stubWorker())
+
+    expect((await listCachedDatasets()).map(entry => entry.id)).toEqual(['sales'])
+  })
+
+  it('should drop datasets whose view cannot be created', async () => {
+    const bytes = new TextEncoder().encode('a\n1\n').buffer
+    await putCachedDataset({ id: 'sales', fileName: 'sales.csv', fileType: 'csv', bytes, size: 4, cachedAt: '2024-01-01T00:00:00.000Z' })
+    useStore.setState({ datasets: [dataset('sales')] })
+    const worker = stubWorker()
+    worker.createView.mockRejectedValueOnce(new Error('Parser Error'))
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    await restoreDatasets(worker)
+
+    expect(useStore.getState().datasets).toEqual([])
+    expect(await listCachedDatasets()).toEqual([])
+    warn.mockRestore()
+  })
+})
@@ -3,6 +3,14 @@ import React, { createContext, useContext, useEffect, useMemo, useRef, useState
 import * as Comlink from 'comlink'
 import type { DuckDBWorker } from '../workers/duckdb.worker'
 import { unregisterServiceWorker } from '../utils/sw'
+import { useStore } from '../store/store'
+import { detectFileType, type DatasetFileType } from '../utils/fileFormats'
+import {
+  deleteCachedDataset,
+  getCachedDataset,
+  isDatasetCacheAvailable,
+  listCachedDatasets
+} from '../utils/datasetCache'
 
 interface DuckDBDiagnostics {
   crossOriginIsolated: boolean
@@ -27,6 +35,65 @@ const DuckDBContext = createContext<DuckDBContextType>({
   refreshDiagnostics: async () => {}
 })
 
+// Re-register persisted datasets: remote ones from their URL, uploads from the local cache.
+// Datasets whose bytes are gone are dropped
+export async function restoreDatasets(
+  remote: Pick<DuckDBWorker, 'registerUrl' | 'registerFile' | 'registerFileHandle' | 'createView' | 'materializeTable'>
+) {
+  const cacheAvailable = isDatasetCacheAvailable()
+  const { datasets, updateDataset, removeDataset } = useStore.getState()
+  const restored = new Set<string>()
+
+  for (const dataset of datasets) {
+    try {
+      let fileName = dataset.fileName
+      let fileType: DatasetFileType | null
+      let sheet = dataset.sheet
+      if (dataset.sourceUrl) {
+        fileType = detectFileType(fileName)
+        if (!fileType) throw new Error(`Unsupported file type: ${fileName}`)
+        await remote.registerUrl(fileName, dataset.sourceUrl)
+      } else {
+        const entry = cacheAvailable ? await getCachedDataset(dataset.id) : undefined
+        if (!entry) {
+          removeDataset(dataset.id)
+          continue
+        }
+        if (entry.bytes instanceof Blob) {
+          await remote.registerFileHandle(entry.fileName, entry.bytes)
+        } else {
+          await remote.registerFile(entry.fileName, entry.bytes)
+        }
+        fileName = entry.fileName
+        fileType = entry.fileType
+        sheet = entry.sheet
+      }
+      await remote.createView(dataset.tableName, fileName, fileType, { sheet, csv: dataset.csvOptions })
+      let materialized = dataset.materialized
+      if (materialized) {
+        materialized = await remote.materializeTable(dataset.tableName, materialized.orderBy).catch(e => {
+          console.warn(`Unable to materialize ${dataset.name}; keeping it as a view:`, e)
+          return undefined
+        })
+      }
+      updateDataset(dataset.id, { cached: !dataset.sourceUrl, materialized })
+      restored.add(dataset.id)
+    } catch (e) {
+      console.warn(`Unable to restore dataset ${dataset.name}:`, e)
+      removeDataset(dataset.id)
+    }
+  }
+
+  // Remove cache entries no longer referenced by the session
+  if (!cacheAvailable) return
+  const cached = await listCachedDatasets()
+  for (const entry of cached) {
+    if (!restored.has(entry.id)) {
+      await deleteCachedDataset(entry.id)
+    }
+  }
+}
+
 export const DuckDBProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [worker, setWorker] = useState<DuckDBWorker | null>(null)
   const [isInitialized, setIsInitialized] = useState(false)
@@ -140,19 +207,48 @@ export const DuckDBProvider: React.FC<{ children: React.ReactNode }> = ({ childr
           throw new Error(`DuckDB worker missing methods: ${missingMethods.join(', ')}`)
         }
 
+        // Restore datasets persisted from a previous visit before exposing the worker
+        try {
+          await restoreDatasets(remote)
+        } catch (e) {
+          console.warn('Unable to restore cached datasets:', e)
+        }
+
         // Success path
         if (isMounted) {
         const localApi: DuckDBWorker = {
           initialize: () => remote.initialize(),
           registerFile: (name, buffer) => remote.registerFile(name, buffer),
+          // Callbacks cross the MessagePort as Comlink proxies
+          registerFileHandle: (name, file, options, onProgress) =>
+            remote.registerFileHandle(name, file, options, onProgress && Comlink.proxy(onProgress)),
+          registerUrl: (name, url) => remote.registerUrl(name, url),
+          readFile: (name) => remote.readFile(name),
           query: (sql) => remote.query(sql),
-          queryStream: (sql) => remote.queryStream(sql),
+          openCursor: (sql) => remote.openCursor(sql),
+          fetchRows: (cursorId, count) => remote.fetchRows(cursorId, count),
+          fetchArrow: (cursorId, count) => remote.fetchArrow(cursorId, count),
+          countRows: (cursorId) => remote.countRows(cursorId),
+          closeCursor: (cursorId) => remote.closeCursor(cursorId),
           cancelQuery: () => remote.cancelQuery(),
           getTableInfo: (tableName) => remote.getTableInfo(tableName),
-          createView: (viewName, fileName, fileType) => remote.createView(viewName, fileName, fileType),
+          getFunctions: () => remote.getFunctions(),
+          validateQuery: (sql) => remote.validateQuery(sql),
+          createView: (viewName, fileName, fileType, options) => remote.createView(viewName, fileName, fileType, options),
+          scanCsvRejects: (fileName, options, limit) => remote.scanCsvRejects(fileName, options, limit),
+          profileTable: (tableName, topValues) => remote.profileTable(tableName, topValues),
+          materializeTable: (tableName, orderBy) => remote.materializeTable(tableName, orderBy),
+          listRelations: () => remote.listRelations(),
+          renameRelation: (from, to) => remote.renameRelation(from, to),
+          dropRelation: (name) => remote.dropRelation(name),
+          unregisterFile: (name) => remote.unregisterFile(name),
+          attachDatabase: (fileName, alias) => remote.attachDatabase(fileName, alias),
+          detachDatabase: (alias) => remote.detachDatabase(alias),
+          resetSession: () => remote.resetSession(),
+          exportDatabase: (fileName, views?) => remote.exportDatabase(fileName, views),
           ping: () => remote.ping(),
           getMethods: () => remote.getMethods(),
-          copyQueryToParquet: (sql, fileName?) => remote.copyQueryToParquet(sql, fileName),
+          exportQuery: (sql, options) => remote.exportQuery(sql, options),
           getDiagnostics: () => remote.getDiagnostics(),
         }
           setWorker(localApi)
@@ -1,10 +1,12 @@
 import { describe, it, expect, beforeEach } from 'vitest'
-import { useStore } from '../store/store'
+import { useStore, HISTORY_LIMIT } from '../store/store'
+import { ColumnarResult } from '../utils/columnarResult'
 
 describe('Store', () => {
   beforeEach(() => {
     // Reset store to initial state before each test
     useStore.getState().clearSession()
+    useStore.setState({ history: [] })
   })
 
   it('should initialize with default state', () => {
@@ -70,6 +72,53 @@ describe('Store', () => {
     expect(state.datasets).toHaveLength(0)
   })
 
+  it('should update datasets', () => {
+    const { addDataset, updateDataset } = useStore.getState()
+    
+    addDataset({
+      id: 'test-1',
+      name: 'Test Dataset',
+      tableName: 'test_1',
+      fileName: 'test.csv',
+      fileSize: 1024,
+      size: 1024,
+      rowCount: 100,
+      columns: [{ name: 'id', type: 'INTEGER', nullable: false }],
+      file: null,
+      embedded: false,
+      uploadedAt: new Date().toISOString(),
+      createdAt: new Date()
+    })
+    updateDataset('test-1', { cached: true })
+    
+    const state = useStore.getState()
+    expect(state.datasets[0].cached).toBe(true)
+    expect(state.datasets[0].tableName).toBe('test_1')
+  })
+
+  it('should persist dataset metadata without file handles', () => {
+    const { addDataset } = useStore.getState()
+    
+    addDataset({
+      id: 'test-1',
+      name: 'Test Dataset',
+      tableName: 'test_1',
+      fileName: 'test.csv',
+      fileSize: 1024,
+      size: 1024,
+      rowCount: 100,
+      columns: [],
+      file: new File(['id\n1'], 'test.csv'),
+      embedded: false,
+      uploadedAt: new Date().toISOString(),
+      createdAt: new Date()
+    })
+    
+    const persisted = useStore.persist.getOptions().partialize!(useStore.getState()) as any
+    expect(persisted.datasets).toHaveLength(1)
+    expect(persisted.datasets[0].file).toBe(null)
+  })
+
   it('should update current query', () => {
     const { setCurrentQuery } = useStore.getState()
     
@@ -101,6 +150,44 @@ describe('Store', () => {
     expect(state.queryStatus).toEqual(testStatus)
   })
 
+  it('should append pages from the active cursor only', () => {
+    const { setQueryResult, appendQueryRows } = useStore.getState()
+    
+    setQueryResult({ data: [{ id: 1 }], columns: ['id'], totalRows: null, cursorId: 'cursor-1', hasMore: true })
+    appendQueryRows('cursor-0', [{ id: 99 }], false)
+    appendQueryRows('cursor-1', [{ id: 2 }, { id: 3 }], true)
+    
+    const state = useStore.getState()
+    expect(state.queryResult.data).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }])
+    expect(state.queryResult.hasMore).toBe(false)
+    expect(state.queryResult.totalRows).toBe(3)
+  })
+
+  it('should append Arrow pages from the active cursor only', () => {
+    const { setQueryResult, appendQueryBatch } = useStore.getState()
+    
+    setQueryResult({ data: [], table: ColumnarResult.fromRows([{ id: 1 }], ['id']), columns: ['id'], totalRows: null, cursorId: 'cursor-1', hasMore: true })
+    appendQueryBatch('cursor-0', ColumnarResult.fromRows([{ id: 99 }], ['id']), false)
+    appendQueryBatch('cursor-1', ColumnarResult.fromRows([{ id: 2 }], ['id']), true)
+    
+    const state = useStore.getState()
+    expect(state.queryResult.table?.toRows()).toEqual([{ id: 1 }, { id: 2 }])
+    expect(state.queryResult.hasMore).toBe(false)
+    expect(state.queryResult.totalRows).toBe(2)
+  })
+
+  it('should record cancelled queries and late row counts', () => {
+    const { setQueryResult, setQueryTotalRows, markQueryCancelled } = useStore.getState()
+    
+    setQueryResult({ data: [{ id: 1 }], columns: ['id'], totalRows: null, cursorId: 'cursor-1', hasMore: true })
+    setQueryTotalRows('cursor-1', 5000)
+    markQueryCancelled()
+    
+    const state = useStore.getState()
+    expect(state.queryResult.totalRows).toBe(5000)
+    expect(state.queryStatus).toEqual({ isRunning: false, error: null, cancelled: true })
+  })
+
   it('should manage chart configuration', () => {
     const { setChartConfig } = useStore.getState()
     
@@ -160,6 +247,19 @@ describe('Store', () => {
     expect(state.charts).toEqual([])
   })
 
+  it('should keep query history when clearing the session', () => {
+    const { addHistoryEntry, togglePinHistoryEntry, clearSession } = useStore.getState()
+    const entry = { executedAt: new Date().toISOString(), durationMs: 1, datasets: [] }
+    const pinned = addHistoryEntry({ ...entry, sql: 'SELECT 1' })
+    addHistoryEntry({ ...entry, sql: 'SELECT 2' })
+    togglePinHistoryEntry(pinned)
+
+    clearSession()
+
+    expect(useStore.getState().history.map(h => h.sql)).toEqual(['SELECT 2', 'SELECT 1'])
+    expect(useStore.getState().history[1].pinned).toBe(true)
+  })
+
   it('should manage queries', () => {
     const { addQuery, updateQuery, removeQuery } = useStore.getState()
     
@@ -188,6 +288,49 @@ describe('Store', () => {
     expect(state.queries).toHaveLength(0)
   })
 
+  it('should keep each query tab\'s SQL and result when switching tabs', () => {
+    const { openQueryTab, setCurrentQuery, setQueryResult, setActiveQuery } = useStore.getState()
+    
+    const first = openQueryTab('SELECT 1')
+    setQueryResult({ data: [{ a: 1 }], columns: ['a'] })
+    const second = openQueryTab()
+    setCurrentQuery('SELECT 2')
+    
+    let state = useStore.getState()
+    expect(state.queries.map(q => q.name)).toEqual(['Query 1', 'Query 2'])
+    expect(state.queryResult).toEqual({ data: [], columns: [] })
+    
+    // A late result for an inactive tab is stored with that tab
+    setQueryResult({ data: [{ a: 11 }], columns: ['a'] }, first)
+    setActiveQuery(first)
+    
+    state = useStore.getState()
+    expect(state.currentQuery).toBe('SELECT 1')
+    expect(state.queryResult.data).toEqual([{ a: 11 }])
+    expect(state.queries.find(q => q.id === second)?.sql).toBe('SELECT 2')
+  })
+
+  it('should rename, reorder, duplicate and close query tabs', () => {
+    const { openQueryTab, renameQuery, moveQuery, duplicateQuery, removeQuery } = useStore.getState()
+    
+    const a = openQueryTab('SELECT 1')
+    const b = openQueryTab('SELECT 2')
+    renameQuery(a, '  Revenue  ')
+    renameQuery(b, '   ')
+    moveQuery(b, 0)
+    const copy = duplicateQuery(a)
+    
+    let state = useStore.getState()
+    expect(state.queries.map(q => q.name)).toEqual(['Query 2', 'Revenue', 'Revenue (copy)'])
+    expect(state.activeQueryId).toBe(copy)
+    expect(state.currentQuery).toBe('SELECT 1')
+    
+    removeQuery(copy!)
+    state = useStore.getState()
+    expect(state.activeQueryId).toBe(a)
+    expect(state.queries).toHaveLength(2)
+  })
+
   it('should manage charts', () => {
     const { addChart, removeChart } = useStore.getState()
     
@@ -195,10 +338,9 @@ describe('Store', () => {
       id: 'chart-1',
       name: 'Test Chart',
       queryId: 'query-1',
-      type: 'bar' as const,
-      vegaLite: { mark: 'bar', encoding: {} },
-      width: 800,
-      height: 600,
+      config: { type: 'bar' as const, xField: 'region', yField: 'amount' },
+      width: 2,
+      height: 2,
       createdAt: new Date()
     }
     
@@ -213,4 +355,63 @@ describe('Store', () => {
     state = useStore.getState()
     expect(state.charts).toHaveLength(0)
   })
-})
\ No newline at end of file
+
+  it('should arrange dashboard charts and drop their results with them', () => {
+    const { loadCharts, moveChart, updateChart, removeChart, setChartResult, setDashboardCols } = useStore.getState()
+    const chart = (id: string) => ({
+      id,
+      name: id,
+      queryId: 'query-1',
+      config: { type: 'line' as const, xField: 'day' },
+      width: 1,
+      height: 2,
+      createdAt: new Date()
+    })
+
+    loadCharts([chart('a'), chart('b'), chart('c')], 3)
+    moveChart('c', 0)
+    updateChart('a', { width: 3 })
+    setChartResult('b', { rows: [{ day: 1 }], refreshedAt: new Date().toISOString() })
+    removeChart('b')
+
+    const state = useStore.getState()
+    expect(state.charts.map(c => c.id)).toEqual(['c', 'a'])
+    expect(state.charts[1].width).toBe(3)
+    expect(state.dashboardCols).toBe(3)
+    expect(state.chartResults).toEqual({})
+
+    setDashboardCols(10)
+    expect(useStore.getState().dashboardCols).toBe(4)
+  })
+
+  it('should record history newest first and prune unpinned entries past the cap', () => {
+    const { addHistoryEntry, togglePinHistoryEntry, updateHistoryEntry } = useStore.getState()
+    const run = (sql: string) => addHistoryEntry({ sql, executedAt: new Date().toISOString(), durationMs: 1, datasets: ['sales'] })
+
+    const first = run('SELECT 0')
+    togglePinHistoryEntry(first)
+    updateHistoryEntry(first, { rowCount: 42 })
+    for (let i = 1; i <= HISTORY_LIMIT + 5; i++) run(`SELECT ${i}`)
+
+    const { history } = useStore.getState()
+    expect(history).toHaveLength(HISTORY_LIMIT + 1)
+    expect(history[0].sql).toBe(`SELECT ${HISTORY_LIMIT + 5}`)
+    expect(history[history.length - 1]).toMatchObject({ id: first, pinned: true, rowCount: 42 })
+    expect(history.some(h => h.sql === 'SELECT 5')).toBe(false)
+    expect(history.some(h => h.sql === 'SELECT 6')).toBe(true)
+  })
+
+  it('should keep pinned entries when clearing history', () => {
+    const { addHistoryEntry, togglePinHistoryEntry, removeHistoryEntry, clearHistory } = useStore.getState()
+    const entry = { executedAt: new Date().toISOString(), durationMs: 1, datasets: [] }
+    const kept = addHistoryEntry({ ...entry, sql: 'SELECT 1' })
+    const removed = addHistoryEntry({ ...entry, sql: 'SELECT 2' })
+    addHistoryEntry({ ...entry, sql: 'SELECT x', error: 'Binder Error' })
+    togglePinHistoryEntry(kept)
+    removeHistoryEntry(removed)
+    expect(useStore.getState().history.map(h => h.sql)).toEqual(['SELECT x', 'SELECT 1'])
+
+    clearHistory()
+    expect(useStore.getState().history.map(h => h.id)).toEqual([kept])
+  })
+})
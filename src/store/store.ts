@@ -1,54 +1,151 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
-import { Dataset, Query, Chart, ChartConfig } from '../types'
+import { v4 as uuidv4 } from 'uuid'
+import { ActivePanel, Dataset, Query, Chart, ChartConfig, HistoryEntry, QueryResultState, QueryStatusState } from '../types'
+import type { ColumnarResult } from '../utils/columnarResult'
+import type { AttachedDatabase } from '../utils/databaseFile'
+import { clampGridCols, DEFAULT_GRID_COLS, type ChartResult } from '../utils/dashboard'
 
 interface AppState {
   // Datasets
   datasets: Dataset[]
   addDataset: (dataset: Dataset) => void
+  updateDataset: (id: string, updates: Partial<Dataset>) => void
   removeDataset: (id: string) => void
   
-  // Queries
+  // Attached .duckdb files; kept out of the persisted session since their bytes are not cached
+  attachedDatabases: AttachedDatabase[]
+  addAttachedDatabase: (database: AttachedDatabase) => void
+  removeAttachedDatabase: (alias: string) => void
+  
+  // Queries (editor tabs); currentQuery mirrors the SQL of the active tab
   queries: Query[]
+  activeQueryId: string | null
   currentQuery: string
   setCurrentQuery: (query: string) => void
   addQuery: (query: Query) => void
   updateQuery: (id: string, sql: string) => void
   removeQuery: (id: string) => void
+  openQueryTab: (sql?: string) => string
+  setActiveQuery: (id: string) => void
+  renameQuery: (id: string, name: string) => void
+  moveQuery: (id: string, toIndex: number) => void
+  duplicateQuery: (id: string) => string | null
+  setQueryRunInfo: (id: string, info: Pick<Query, 'lastRun' | 'rowCount'>) => void
+  loadQueries: (queries: Query[], activeQueryId?: string | null) => void
+  
+  // Query results; results of inactive tabs are kept in memory only
+  queryResult: QueryResultState
+  queryResults: Record<string, QueryResultState>
+  queryStatus: QueryStatusState
+  setQueryResult: (result: QueryResultState, queryId?: string | null) => void
+  appendQueryRows: (cursorId: string, rows: any[], done: boolean) => void
+  appendQueryBatch: (cursorId: string, page: ColumnarResult, done: boolean) => void
+  setQueryTotalRows: (cursorId: string, totalRows: number | null) => void
+  setQueryStatus: (status: QueryStatusState) => void
+  markQueryCancelled: () => void
+  validateBeforeRun: boolean
+  setValidateBeforeRun: (enabled: boolean) => void
+  runRequested: boolean // Set to have the SQL editor run the active tab once it is mounted
+  setRunRequested: (requested: boolean) => void
   
-  // Query results
-  queryResult: { data: any[], columns: string[] }
-  queryStatus: { isRunning: boolean, error: string | null, executionTime?: number }
-  setQueryResult: (result: { data: any[], columns: string[] }) => void
-  setQueryStatus: (status: { isRunning: boolean, error: string | null, executionTime?: number }) => void
+  // Query history, newest first
+  history: HistoryEntry[]
+  addHistoryEntry: (entry: Omit<HistoryEntry, 'id' | 'pinned'>) => string
+  updateHistoryEntry: (id: string, updates: Partial<Omit<HistoryEntry, 'id'>>) => void
+  togglePinHistoryEntry: (id: string) => void
+  removeHistoryEntry: (id: string) => void
+  clearHistory: () => void
   
-  // Charts
+  // Charts; saved charts make up the dashboard, in grid order
   charts: Chart[]
   chartConfig: ChartConfig | null
   addChart: (chart: Chart) => void
+  updateChart: (id: string, updates: Partial<Omit<Chart, 'id'>>) => void
   removeChart: (id: string) => void
+  moveChart: (id: string, toIndex: number) => void
+  loadCharts: (charts: Chart[], gridCols?: number) => void
   setChartConfig: (config: ChartConfig | null) => void
+  dashboardCols: number
+  setDashboardCols: (cols: number) => void
+  chartResults: Record<string, ChartResult> // Last refresh of each saved chart; kept in memory only
+  setChartResult: (id: string, result: ChartResult) => void
   
   // UI State
-  activePanel: 'sql' | 'results' | 'charts'
-  setActivePanel: (panel: 'sql' | 'results' | 'charts') => void
+  activePanel: ActivePanel
+  setActivePanel: (panel: ActivePanel) => void
   
   // Session management
   initializeSession: () => Promise<void>
   clearSession: () => void
 }
 
+const EMPTY_RESULT: QueryResultState = { data: [], columns: [] }
+
+// Unpinned history entries beyond this are dropped, oldest first
+export const HISTORY_LIMIT = 200
+
+function pruneHistory(history: HistoryEntry[]): HistoryEntry[] {
+  let unpinned = history.filter(h => !h.pinned).length
+  if (unpinned <= HISTORY_LIMIT) return history
+  const kept: HistoryEntry[] = []
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (!history[i].pinned && unpinned > HISTORY_LIMIT) {
+      unpinned--
+      continue
+    }
+    kept.unshift(history[i])
+  }
+  return kept
+}
+
+// Lowest "Query N" name not taken by an existing tab
+function nextQueryName(queries: Query[]): string {
+  const taken = new Set(queries.map(q => q.name))
+  let n = 1
+  while (taken.has(`Query ${n}`)) n++
+  return `Query ${n}`
+}
+
+// Make another tab active, stashing the current tab's result so it survives the switch
+function switchTab(state: AppState, id: string, queries: Query[] = state.queries): Partial<AppState> {
+  const target = queries.find(q => q.id === id)
+  if (!target) return {}
+  const queryResults = { ...state.queryResults }
+  if (state.activeQueryId && state.activeQueryId !== id && queries.some(q => q.id === state.activeQueryId)) {
+    queryResults[state.activeQueryId] = state.queryResult
+  }
+  const queryResult = queryResults[id] ?? EMPTY_RESULT
+  delete queryResults[id]
+  return {
+    queries,
+    activeQueryId: id,
+    currentQuery: target.sql,
+    queryResult,
+    queryResults,
+    queryStatus: state.queryStatus.isRunning ? state.queryStatus : { isRunning: false, error: null }
+  }
+}
+
 export const useStore = create<AppState>()(
   persist(
-    (set) => ({
+    (set, get) => ({
       // Initial state
       datasets: [],
+      attachedDatabases: [],
       queries: [],
+      activeQueryId: null,
       currentQuery: '',
       queryResult: { data: [], columns: [] },
+      queryResults: {},
       queryStatus: { isRunning: false, error: null },
+      validateBeforeRun: false,
+      runRequested: false,
+      history: [],
       charts: [],
       chartConfig: null,
+      dashboardCols: DEFAULT_GRID_COLS,
+      chartResults: {},
       activePanel: 'sql',
 
       // Dataset actions
@@ -56,37 +153,232 @@ export const useStore = create<AppState>()(
         datasets: [...state.datasets, dataset]
       })),
       
+      updateDataset: (id, updates) => set((state) => ({
+        datasets: state.datasets.map(d => d.id === id ? { ...d, ...updates } : d)
+      })),
+      
       removeDataset: (id) => set((state) => ({
         datasets: state.datasets.filter(d => d.id !== id)
       })),
 
+      addAttachedDatabase: (database) => set((state) => ({
+        attachedDatabases: [...state.attachedDatabases, database]
+      })),
+
+      removeAttachedDatabase: (alias) => set((state) => ({
+        attachedDatabases: state.attachedDatabases.filter(d => d.alias !== alias)
+      })),
+
       // Query actions
-      setCurrentQuery: (query) => set({ currentQuery: query }),
+      setCurrentQuery: (query) => set((state) => ({
+        currentQuery: query,
+        queries: state.activeQueryId
+          ? state.queries.map(q => q.id === state.activeQueryId ? { ...q, sql: query } : q)
+          : state.queries
+      })),
       
       addQuery: (query) => set((state) => ({
         queries: [...state.queries, query]
       })),
       
       updateQuery: (id, sql) => set((state) => ({
-        queries: state.queries.map(q => q.id === id ? { ...q, sql } : q)
+        queries: state.queries.map(q => q.id === id ? { ...q, sql } : q),
+        ...(id === state.activeQueryId ? { currentQuery: sql } : {})
       })),
       
-      removeQuery: (id) => set((state) => ({
-        queries: state.queries.filter(q => q.id !== id)
+      removeQuery: (id) => set((state) => {
+        const index = state.queries.findIndex(q => q.id === id)
+        if (index === -1) return {}
+        const queries = state.queries.filter(q => q.id !== id)
+        const queryResults = { ...state.queryResults }
+        delete queryResults[id]
+        if (id !== state.activeQueryId) {
+          return { queries, queryResults }
+        }
+
+        // Closing the active tab activates its neighbour
+        const next = queries[Math.min(index, queries.length - 1)]
+        if (!next) {
+          return { queries, queryResults, activeQueryId: null, currentQuery: '', queryResult: EMPTY_RESULT }
+        }
+        return switchTab({ ...state, queryResults, activeQueryId: null }, next.id, queries)
+      }),
+      
+      openQueryTab: (sql = '') => {
+        const id = uuidv4()
+        set((state) => {
+          const query: Query = {
+            id,
+            name: nextQueryName(state.queries),
+            sql,
+            datasetId: '',
+            createdAt: new Date()
+          }
+          return switchTab(state, id, [...state.queries, query])
+        })
+        return id
+      },
+      
+      setActiveQuery: (id) => set((state) => (
+        id === state.activeQueryId ? {} : switchTab(state, id)
+      )),
+      
+      renameQuery: (id, name) => set((state) => (
+        name.trim()
+          ? { queries: state.queries.map(q => q.id === id ? { ...q, name: name.trim() } : q) }
+          : {}
+      )),
+      
+      moveQuery: (id, toIndex) => set((state) => {
+        const from = state.queries.findIndex(q => q.id === id)
+        if (from === -1) return {}
+        const queries = [...state.queries]
+        const [moved] = queries.splice(from, 1)
+        queries.splice(Math.max(0, Math.min(toIndex, queries.length)), 0, moved)
+        return { queries }
+      }),
+      
+      duplicateQuery: (id) => {
+        const source = get().queries.find(q => q.id === id)
+        if (!source) return null
+        const copyId = uuidv4()
+        set((state) => {
+          const queries = [...state.queries]
+          queries.splice(queries.findIndex(q => q.id === id) + 1, 0, {
+            id: copyId,
+            name: `${source.name} (copy)`,
+            sql: source.sql,
+            datasetId: source.datasetId,
+            createdAt: new Date()
+          })
+          return switchTab(state, copyId, queries)
+        })
+        return copyId
+      },
+      
+      setQueryRunInfo: (id, info) => set((state) => ({
+        queries: state.queries.map(q => q.id === id ? { ...q, ...info } : q)
       })),
+      
+      loadQueries: (queries, activeQueryId) => set(() => {
+        const active = queries.find(q => q.id === activeQueryId) ?? queries[0]
+        return {
+          queries,
+          queryResults: {},
+          activeQueryId: active?.id ?? null,
+          currentQuery: active?.sql ?? ''
+        }
+      }),
 
       // Query result actions
-      setQueryResult: (result) => set({ queryResult: result }),
+      // A result for a tab that is no longer active is stored with that tab instead
+      setQueryResult: (result, queryId) => set((state) => (
+        queryId && queryId !== state.activeQueryId
+          ? { queryResults: { ...state.queryResults, [queryId]: result } }
+          : { queryResult: result }
+      )),
+      
+      // Ignore pages from a cursor that has since been replaced by a newer query
+      appendQueryRows: (cursorId, rows, done) => set((state) => {
+        if (state.queryResult.cursorId !== cursorId) return {}
+        const data = [...state.queryResult.data, ...rows]
+        return {
+          queryResult: {
+            ...state.queryResult,
+            data,
+            hasMore: !done,
+            totalRows: done ? data.length : state.queryResult.totalRows
+          }
+        }
+      }),
+      
+      appendQueryBatch: (cursorId, page, done) => set((state) => {
+        if (state.queryResult.cursorId !== cursorId) return {}
+        const table = state.queryResult.table ? state.queryResult.table.concat(page) : page
+        return {
+          queryResult: {
+            ...state.queryResult,
+            table,
+            hasMore: !done,
+            totalRows: done ? table.numRows : state.queryResult.totalRows
+          }
+        }
+      }),
+      
+      setQueryTotalRows: (cursorId, totalRows) => set((state) => (
+        state.queryResult.cursorId === cursorId && state.queryResult.hasMore
+          ? { queryResult: { ...state.queryResult, totalRows } }
+          : {}
+      )),
       
       setQueryStatus: (status) => set({ queryStatus: status }),
+      
+      markQueryCancelled: () => set({ queryStatus: { isRunning: false, error: null, cancelled: true } }),
+      
+      setValidateBeforeRun: (enabled) => set({ validateBeforeRun: enabled }),
+      
+      setRunRequested: (requested) => set({ runRequested: requested }),
+
+      // History actions
+      addHistoryEntry: (entry) => {
+        const id = uuidv4()
+        set((state) => ({
+          history: pruneHistory([{ ...entry, id }, ...state.history])
+        }))
+        return id
+      },
+      
+      updateHistoryEntry: (id, updates) => set((state) => ({
+        history: state.history.map(h => h.id === id ? { ...h, ...updates } : h)
+      })),
+      
+      togglePinHistoryEntry: (id) => set((state) => ({
+        history: pruneHistory(state.history.map(h => h.id === id ? { ...h, pinned: !h.pinned } : h))
+      })),
+      
+      removeHistoryEntry: (id) => set((state) => ({
+        history: state.history.filter(h => h.id !== id)
+      })),
+      
+      // Pinned entries survive clearing
+      clearHistory: () => set((state) => ({
+        history: state.history.filter(h => h.pinned)
+      })),
 
       // Chart actions
       addChart: (chart) => set((state) => ({
         charts: [...state.charts, chart]
       })),
       
-      removeChart: (id) => set((state) => ({
-        charts: state.charts.filter(c => c.id !== id)
+      updateChart: (id, updates) => set((state) => ({
+        charts: state.charts.map(c => c.id === id ? { ...c, ...updates } : c)
+      })),
+      
+      removeChart: (id) => set((state) => {
+        const chartResults = { ...state.chartResults }
+        delete chartResults[id]
+        return { charts: state.charts.filter(c => c.id !== id), chartResults }
+      }),
+      
+      moveChart: (id, toIndex) => set((state) => {
+        const from = state.charts.findIndex(c => c.id === id)
+        if (from === -1) return {}
+        const charts = [...state.charts]
+        const [moved] = charts.splice(from, 1)
+        charts.splice(Math.max(0, Math.min(toIndex, charts.length)), 0, moved)
+        return { charts }
+      }),
+      
+      loadCharts: (charts, gridCols) => set((state) => ({
+        charts,
+        chartResults: {},
+        dashboardCols: gridCols === undefined ? state.dashboardCols : clampGridCols(gridCols)
+      })),
+      
+      setDashboardCols: (cols) => set({ dashboardCols: clampGridCols(cols) }),
+      
+      setChartResult: (id, result) => set((state) => ({
+        chartResults: { ...state.chartResults, [id]: result }
       })),
       
       setChartConfig: (config) => set({ chartConfig: config }),
@@ -104,27 +396,40 @@ export const useStore = create<AppState>()(
         }
       },
       
+      // Query history is not part of the session: it survives clearing and bundle imports
       clearSession: () => {
         set({
           datasets: [],
+          attachedDatabases: [],
           queries: [],
+          activeQueryId: null,
           currentQuery: '',
           queryResult: { data: [], columns: [] },
+          queryResults: {},
           queryStatus: { isRunning: false, error: null },
+          runRequested: false,
           charts: [],
           chartConfig: null,
+          dashboardCols: DEFAULT_GRID_COLS,
+          chartResults: {},
           activePanel: 'sql'
         })
-        localStorage.removeItem('duckboard-store')
       }
     }),
     {
       name: 'duckboard-store',
-      // Avoid persisting datasets and queries to prevent stale metadata without worker files
+      // Datasets are persisted as metadata only; DuckDBProvider re-registers their bytes
+      // from the local dataset cache on startup and drops any that were evicted
       partialize: (state) => ({
+        datasets: state.datasets.map(d => ({ ...d, file: null })),
+        queries: state.queries,
+        activeQueryId: state.activeQueryId,
         currentQuery: state.currentQuery,
+        validateBeforeRun: state.validateBeforeRun,
+        history: state.history,
         charts: state.charts,
         chartConfig: state.chartConfig,
+        dashboardCols: state.dashboardCols,
         activePanel: state.activePanel
       })
     }
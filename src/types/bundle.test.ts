@@ -0,0 +1,159 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createBundle, decodeEmbeddedDataset, embedDataset, restoreDashboardCharts, restoreSavedQueries, validateBundle } from './bundle'
+import { bytesToBase64, sha256Hex } from '../utils/bytes'
+
+const storeDataset = {
+  id: 'sales',
+  name: 'sales.csv',
+  tableName: 'sales',
+  fileName: 'sales.csv',
+  fileSize: 12,
+  size: 12,
+  rowCount: 0,
+  columns: [{ name: 'a', type: 'INTEGER', nullable: true }],
+  file: null,
+  embedded: false,
+  uploadedAt: new Date().toISOString(),
+  createdAt: new Date()
+}
+
+function makeStore(sha256?: string) {
+  return {
+    datasets: [{ ...storeDataset, sha256 }],
+    currentQuery: 'SELECT * FROM sales',
+    queryResult: { data: [], columns: [] },
+    queryStatus: { isRunning: false, error: null },
+    chartConfig: null,
+    activePanel: 'sql'
+  }
+}
+
+describe('Bundle embedding', () => {
+  it('should round-trip embedded dataset bytes through validation', async () => {
+    const bytes = new TextEncoder().encode('a\n1\n2\n3\n')
+    const sha256 = await sha256Hex(bytes)
+
+    const bundle = createBundle('test', makeStore(sha256), undefined, {
+      sales: { encoding: 'raw', fileName: 'sales.csv', fileType: 'csv', sha256, base64: bytesToBase64(bytes) }
+    })
+    const parsed = validateBundle(JSON.parse(JSON.stringify(bundle)))
+
+    expect(parsed.datasets[0].columnCount).toBe(1)
+    expect(parsed.datasets[0].embedded).toBe(true)
+    const decoded = await decodeEmbeddedDataset(parsed.datasets[0])
+    expect(Array.from(decoded)).toEqual(Array.from(bytes))
+  })
+
+  it('should reject embedded data with a mismatched checksum', async () => {
+    const bytes = new TextEncoder().encode('a\n1\n')
+    const bundle = createBundle('test', makeStore(), undefined, {
+      sales: { encoding: 'raw', fileName: 'sales.csv', fileType: 'csv', sha256: 'deadbeef', base64: bytesToBase64(bytes) }
+    })
+
+    await expect(decodeEmbeddedDataset(bundle.datasets[0])).rejects.toThrow('Checksum mismatch')
+  })
+
+  it('should reject raw data that differs from the uploaded file hash', async () => {
+    const bytes = new TextEncoder().encode('a\n1\n')
+    const bundle = createBundle('test', makeStore('0'.repeat(64)), undefined, {
+      sales: { encoding: 'raw', fileName: 'sales.csv', fileType: 'csv', sha256: await sha256Hex(bytes), base64: bytesToBase64(bytes) }
+    })
+
+    await expect(decodeEmbeddedDataset(bundle.datasets[0])).rejects.toThrow('original sha256')
+  })
+
+  it('should re-encode tables named after reserved words as Parquet', async () => {
+    const bytes = new Uint8Array([80, 65, 82, 49])
+    const worker = { exportQuery: vi.fn(async () => bytes), readFile: vi.fn(async () => bytes) }
+
+    const payload = await embedDataset(worker, { tableName: 'order', fileName: 'order.csv' }, 'parquet')
+    expect(worker.exportQuery).toHaveBeenCalledWith('SELECT * FROM "order"', { format: 'parquet' })
+    expect(payload).toMatchObject({ encoding: 'parquet', fileName: 'order.parquet', fileType: 'parquet', sha256: await sha256Hex(bytes) })
+    expect(payload.sheet).toBeUndefined()
+
+    const raw = await embedDataset(worker, { tableName: 'order_Totals', fileName: 'order.xlsx', sheet: 'Totals' }, 'raw')
+    expect(worker.readFile).toHaveBeenCalledWith('order.xlsx')
+    expect(raw).toMatchObject({ encoding: 'raw', fileName: 'order.xlsx', fileType: 'xlsx', sheet: 'Totals', base64: bytesToBase64(bytes) })
+  })
+
+  it('should record the hash of raw payloads for datasets uploaded without one', async () => {
+    const bytes = new TextEncoder().encode('a\n1\n')
+    const sha256 = await sha256Hex(bytes)
+    const payload = { encoding: 'raw' as const, fileName: 'sales.csv', fileType: 'csv' as const, sha256, base64: bytesToBase64(bytes) }
+
+    expect(createBundle('test', makeStore(), undefined, { sales: payload }).datasets[0].sha256).toBe(sha256)
+    expect(createBundle('test', makeStore(), undefined, { sales: { ...payload, encoding: 'parquet' } }).datasets[0].sha256).toBeUndefined()
+  })
+
+  it('should export metadata only when nothing is embedded', () => {
+    const bundle = createBundle('test', makeStore())
+    expect(bundle.datasets[0].embedded).toBe(false)
+    expect(bundle.datasets[0].data).toBeUndefined()
+  })
+
+  it('should keep CSV import options with the dataset', () => {
+    const csvOptions = { delimiter: ';', header: false, nullStrings: ['NA'], columnTypes: { a: 'VARCHAR' }, ignoreErrors: false }
+    const store = { ...makeStore(), datasets: [{ ...storeDataset, csvOptions }] }
+
+    const parsed = validateBundle(JSON.parse(JSON.stringify(createBundle('test', store))))
+    expect(parsed.datasets[0].csvOptions).toEqual(csvOptions)
+  })
+
+  it('should keep the URL of remote datasets', () => {
+    const store = { ...makeStore(), datasets: [{ ...storeDataset, sourceUrl: 'https://example.com/sales.parquet' }] }
+
+    const parsed = validateBundle(JSON.parse(JSON.stringify(createBundle('test', store))))
+    expect(parsed.datasets[0].sourceUrl).toBe('https://example.com/sales.parquet')
+    expect(parsed.datasets[0].embedded).toBe(false)
+  })
+
+  it('should keep the sort order of materialized datasets', () => {
+    const materialized = { orderBy: ['region'], loadMs: 120, estimatedBytes: 2048, materializedAt: '2024-01-01T00:00:00.000Z' }
+    const store = { ...makeStore(), datasets: [{ ...storeDataset, materialized }] }
+
+    const parsed = validateBundle(JSON.parse(JSON.stringify(createBundle('test', store))))
+    expect(parsed.datasets[0].materialize).toEqual({ orderBy: ['region'] })
+    expect(validateBundle(JSON.parse(JSON.stringify(createBundle('test', makeStore())))).datasets[0].materialize).toBeUndefined()
+  })
+})
+
+describe('Bundle queries', () => {
+  it('should round-trip saved query tabs', () => {
+    const lastRun = new Date('2024-03-01T10:00:00Z')
+    const store = {
+      ...makeStore(),
+      queries: [
+        { id: 'q1', name: 'Totals', sql: 'SELECT 1', datasetId: '', createdAt: new Date(), lastRun, rowCount: 1 },
+        { id: 'q2', name: 'Query 2', sql: 'SELECT 2', datasetId: '', createdAt: new Date() }
+      ],
+      activeQueryId: 'q2'
+    }
+
+    const parsed = validateBundle(JSON.parse(JSON.stringify(createBundle('test', store))))
+    expect(parsed.metadata.totalQueries).toBe(2)
+    expect(parsed.activeQueryId).toBe('q2')
+
+    const restored = restoreSavedQueries(parsed.queries!)
+    expect(restored.map(q => q.name)).toEqual(['Totals', 'Query 2'])
+    expect(restored[0].lastRun).toEqual(lastRun)
+    expect(restored[1].lastRun).toBeUndefined()
+  })
+
+  it('should round-trip dashboard charts and the grid layout', () => {
+    const createdAt = new Date('2024-03-01T10:00:00Z')
+    const chart = {
+      id: 'c1',
+      name: 'Totals – bar',
+      queryId: 'q1',
+      config: { type: 'bar' as const, xField: 'region', yField: 'amount' },
+      width: 2,
+      height: 3,
+      createdAt
+    }
+    const store = { ...makeStore(), charts: [chart], dashboardCols: 3 }
+
+    const parsed = validateBundle(JSON.parse(JSON.stringify(createBundle('test', store))))
+    expect(parsed.layout).toEqual({ gridCols: 3 })
+    expect(restoreDashboardCharts(parsed.charts!)).toEqual([chart])
+  })
+})
@@ -3,6 +3,40 @@ import jsPDF from 'jspdf'
 import autoTable from 'jspdf-autotable'
 import * as vega from 'vega'
 import * as vegaLite from 'vega-lite'
+import { base64ToBytes, bytesToBase64, sha256Hex } from '../utils/bytes'
+import { buildChartSpec, describeChartMeasure } from '../utils/chartSpec'
+import { CHART_TYPES } from '../utils/chartTypes'
+import { formatValue } from '../utils/columnTypes'
+import { ColumnarResult, queryResultTable } from '../utils/columnarResult'
+import { detectFileType } from '../utils/fileFormats'
+import { quoteIdentifier } from '../utils/sqlContext'
+import type { DuckDBWorker } from '../workers/duckdb.worker'
+import type { Chart, Query } from './index'
+
+// Embedded dataset payload (original bytes or a Parquet re-encoding from the worker)
+export const EmbeddedDatasetSchema = z.object({
+  encoding: z.enum(['raw', 'parquet']),
+  fileName: z.string(),
+  fileType: z.enum(['csv', 'parquet', 'json', 'ndjson', 'xlsx', 'arrow']),
+  sheet: z.string().optional(), // Worksheet to load from an .xlsx workbook
+  sha256: z.string(),
+  base64: z.string()
+})
+
+// read_csv options a CSV dataset was imported with
+export const CsvOptionsSchema = z.object({
+  delimiter: z.string().optional(),
+  quote: z.string().optional(),
+  escape: z.string().optional(),
+  header: z.boolean().optional(),
+  skipRows: z.number().optional(),
+  dateFormat: z.string().optional(),
+  timestampFormat: z.string().optional(),
+  nullStrings: z.array(z.string()).optional(),
+  columnTypes: z.record(z.string()).optional(),
+  ignoreErrors: z.boolean().optional(),
+  normalizeNames: z.boolean().optional()
+})
 
 // Dataset schema
 export const DatasetSchema = z.object({
@@ -12,28 +46,93 @@ export const DatasetSchema = z.object({
   fileSize: z.number(),
   uploadedAt: z.string(),
   tableName: z.string(),
-  columnCount: z.number()
+  columnCount: z.number(),
+  sha256: z.string().optional(),
+  csvOptions: CsvOptionsSchema.optional(),
+  sourceUrl: z.string().optional(), // Remote datasets are fetched from here instead of being embedded
+  // Rebuilt as a native table, with the same sort order, when embedded data is imported
+  materialize: z.object({ orderBy: z.array(z.string()).optional() }).optional(),
+  embedded: z.boolean().optional(),
+  data: EmbeddedDatasetSchema.optional()
 })
 
 // Query result schema
 export const QueryResultSchema = z.object({
   data: z.array(z.record(z.any())),
-  columns: z.array(z.string())
+  columns: z.array(z.string()),
+  schema: z.array(z.object({
+    name: z.string(),
+    type: z.string(),
+    nullable: z.boolean()
+  })).optional()
 })
 
 // Query status schema
 export const QueryStatusSchema = z.object({
   isRunning: z.boolean(),
-  error: z.string().optional(),
+  error: z.string().nullable().optional(),
   executionTime: z.number().optional()
 })
 
+// Per-encoding chart overrides
+export const EncodingOverrideSchema = z.object({
+  type: z.enum(['quantitative', 'ordinal', 'nominal', 'temporal']).optional(),
+  aggregate: z.enum(['sum', 'mean', 'median', 'min', 'max', 'count', 'distinct']).optional(),
+  sort: z.enum(['ascending', 'descending', 'value-ascending', 'value-descending']).optional(),
+  scale: z.enum(['linear', 'log', 'sqrt', 'symlog', 'pow', 'time', 'utc']).optional(),
+  title: z.string().optional(),
+  format: z.string().optional()
+})
+
 // Chart configuration schema
 export const ChartConfigSchema = z.object({
-  type: z.enum(['bar', 'line', 'scatter', 'histogram']),
+  type: z.enum([
+    'bar',
+    'stacked-bar',
+    'grouped-bar',
+    'line',
+    'area',
+    'scatter',
+    'histogram',
+    'pie',
+    'donut',
+    'heatmap',
+    'boxplot',
+    'grouped-boxplot',
+    'map'
+  ]),
   xField: z.string(),
   yField: z.string().optional(),
-  colorField: z.string().optional()
+  colorField: z.string().optional(),
+  timeUnit: z.enum(['auto', 'year', 'quarter', 'month', 'week', 'day', 'hour', 'minute']).optional(),
+  bins: z.number().optional(),
+  encodings: z.object({
+    x: EncodingOverrideSchema.optional(),
+    y: EncodingOverrideSchema.optional(),
+    color: EncodingOverrideSchema.optional()
+  }).optional()
+})
+
+// Dashboard chart schema; its rows come from re-running the saved query it is bound to
+export const DashboardChartSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  queryId: z.string(),
+  config: ChartConfigSchema,
+  width: z.number(),
+  height: z.number(),
+  createdAt: z.string()
+})
+
+// Saved query (editor tab) schema; dates are ISO strings
+export const SavedQuerySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  sql: z.string(),
+  datasetId: z.string().optional(),
+  createdAt: z.string(),
+  lastRun: z.string().optional(),
+  rowCount: z.number().optional()
 })
 
 // Bundle schema for export/import
@@ -48,15 +147,22 @@ export const DuckboardBundleSchema = z.object({
   }),
   datasets: z.array(DatasetSchema),
   currentQuery: z.string().optional(),
+  queries: z.array(SavedQuerySchema).optional(),
+  activeQueryId: z.string().nullable().optional(),
   queryResult: QueryResultSchema.optional(),
   queryStatus: QueryStatusSchema.optional(),
-  chartConfig: ChartConfigSchema.optional(),
-  activePanel: z.enum(['sql', 'results', 'charts']).optional()
+  chartConfig: ChartConfigSchema.nullable().optional(),
+  charts: z.array(DashboardChartSchema).optional(),
+  layout: z.object({ gridCols: z.number() }).optional(),
+  activePanel: z.enum(['sql', 'results', 'charts', 'dashboard', 'history']).optional()
 })
 
 // Types
 export type Dataset = z.infer<typeof DatasetSchema>
+export type EmbeddedDataset = z.infer<typeof EmbeddedDatasetSchema>
 export type QueryResult = z.infer<typeof QueryResultSchema>
+export type SavedQuery = z.infer<typeof SavedQuerySchema>
+export type DashboardChart = z.infer<typeof DashboardChartSchema>
 export type QueryStatus = z.infer<typeof QueryStatusSchema>
 export type ChartConfig = z.infer<typeof ChartConfigSchema>
 export type DuckboardBundle = z.infer<typeof DuckboardBundleSchema>
@@ -84,26 +190,122 @@ export function validateBundle(data: unknown): DuckboardBundle {
 export function createBundle(
   name: string,
   store: any,
-  description?: string
+  description?: string,
+  embedded: Record<string, EmbeddedDataset> = {}
 ): DuckboardBundle {
+  // Bundles are JSON, so Arrow-backed results are materialized as row objects here
+  const result = queryResultTable(store.queryResult)
+
+  // Map store datasets onto the bundle schema, attaching any embedded payloads by dataset id
+  const datasets: Dataset[] = store.datasets.map((d: any) => ({
+    id: d.id,
+    name: d.name,
+    fileName: d.fileName,
+    fileSize: d.fileSize,
+    uploadedAt: d.uploadedAt,
+    tableName: d.tableName,
+    columnCount: d.columnCount ?? d.columns?.length ?? 0,
+    // Uploads are hashed here, from their raw payload; imported datasets keep their recorded hash
+    sha256: d.sha256 ?? (embedded[d.id]?.encoding === 'raw' ? embedded[d.id].sha256 : undefined),
+    csvOptions: d.csvOptions,
+    sourceUrl: d.sourceUrl,
+    materialize: d.materialized ? { orderBy: d.materialized.orderBy } : undefined,
+    embedded: !!embedded[d.id],
+    data: embedded[d.id]
+  }))
+
   return {
     version: '1.0.0',
     createdAt: new Date().toISOString(),
     metadata: {
       name,
       description,
-      totalQueries: store.queryResult.data.length > 0 ? 1 : 0,
+      totalQueries: store.queries?.length || (result.numRows > 0 ? 1 : 0),
       totalDatasets: store.datasets.length
     },
-    datasets: store.datasets,
+    datasets,
     currentQuery: store.currentQuery,
-    queryResult: store.queryResult.data.length > 0 ? store.queryResult : undefined,
+    queries: (store.queries ?? []).map((q: any) => ({
+      id: q.id,
+      name: q.name,
+      sql: q.sql,
+      datasetId: q.datasetId || undefined,
+      createdAt: new Date(q.createdAt).toISOString(),
+      lastRun: q.lastRun ? new Date(q.lastRun).toISOString() : undefined,
+      rowCount: q.rowCount ?? undefined
+    })),
+    activeQueryId: store.activeQueryId ?? null,
+    queryResult: result.numRows > 0
+      ? { data: result.toRows(), columns: store.queryResult.columns, schema: store.queryResult.schema }
+      : undefined,
     queryStatus: store.queryStatus,
     chartConfig: store.chartConfig,
+    charts: (store.charts ?? []).map((c: any) => ({
+      id: c.id,
+      name: c.name,
+      queryId: c.queryId,
+      config: c.config,
+      width: c.width,
+      height: c.height,
+      createdAt: new Date(c.createdAt).toISOString()
+    })),
+    layout: store.dashboardCols ? { gridCols: store.dashboardCols } : undefined,
     activePanel: store.activePanel
   }
 }
 
+// Revive saved queries from a bundle as store queries
+export function restoreSavedQueries(queries: SavedQuery[]): Query[] {
+  return queries.map(q => ({
+    id: q.id,
+    name: q.name,
+    sql: q.sql,
+    datasetId: q.datasetId ?? '',
+    createdAt: new Date(q.createdAt),
+    lastRun: q.lastRun ? new Date(q.lastRun) : undefined,
+    rowCount: q.rowCount
+  }))
+}
+
+// Revive dashboard charts from a bundle as store charts
+export function restoreDashboardCharts(charts: DashboardChart[]): Chart[] {
+  return charts.map(c => ({ ...c, createdAt: new Date(c.createdAt) }))
+}
+
+// Embedded payload for a dataset: its registered file as uploaded, or its table re-encoded as Parquet
+export async function embedDataset(
+  worker: Pick<DuckDBWorker, 'exportQuery' | 'readFile'>,
+  dataset: { tableName: string; fileName: string; sheet?: string },
+  encoding: EmbeddedDataset['encoding']
+): Promise<EmbeddedDataset> {
+  const bytes = encoding === 'parquet'
+    ? await worker.exportQuery(`SELECT * FROM ${quoteIdentifier(dataset.tableName)}`, { format: 'parquet' })
+    : await worker.readFile(dataset.fileName)
+  return {
+    encoding,
+    fileName: encoding === 'parquet' ? `${dataset.tableName}.parquet` : dataset.fileName,
+    fileType: encoding === 'parquet' ? 'parquet' : detectFileType(dataset.fileName) ?? 'csv',
+    sheet: encoding === 'parquet' ? undefined : dataset.sheet,
+    sha256: await sha256Hex(bytes),
+    base64: bytesToBase64(bytes)
+  }
+}
+
+// Decode an embedded dataset payload and verify it against the recorded checksums
+export async function decodeEmbeddedDataset(dataset: Dataset): Promise<Uint8Array> {
+  if (!dataset.data) throw new Error(`Dataset ${dataset.name} has no embedded data`)
+  const bytes = base64ToBytes(dataset.data.base64)
+  const digest = await sha256Hex(bytes)
+  if (digest !== dataset.data.sha256) {
+    throw new Error(`Checksum mismatch for dataset ${dataset.name}`)
+  }
+  // Raw payloads must also match the hash recorded when the file was uploaded
+  if (dataset.data.encoding === 'raw' && dataset.sha256 && digest !== dataset.sha256) {
+    throw new Error(`Embedded data for ${dataset.name} does not match its original sha256`)
+  }
+  return bytes
+}
+
 export function downloadBundle(bundle: DuckboardBundle, filename?: string) {
   const blob = new Blob([JSON.stringify(bundle, null, 2)], {
     type: 'application/json'
@@ -123,7 +325,8 @@ export function downloadBundle(bundle: DuckboardBundle, filename?: string) {
 export async function downloadBundlePdf(
   bundle: DuckboardBundle,
   filename?: string,
-  options: BundlePdfOptions = {}
+  options: BundlePdfOptions = {},
+  result?: ColumnarResult // live result to read instead of the bundle's serialized rows
 ) {
   const doc = new jsPDF({ unit: 'pt', format: 'a4' })
 
@@ -240,9 +443,12 @@ export async function downloadBundlePdf(
   }
 
   // Results table (limit rows for readability)
-  if (includeResults && bundle.queryResult && bundle.queryResult.data && bundle.queryResult.columns) {
-    const columns = bundle.queryResult.columns
-    const rowsAll = bundle.queryResult.data.slice(0, maxResultRows)
+  // Only the rows that are printed are read from the result
+  const resultTable = result ?? (bundle.queryResult ? ColumnarResult.fromRows(bundle.queryResult.data, bundle.queryResult.columns) : null)
+
+  if (includeResults && bundle.queryResult && resultTable) {
+    const columns = resultTable.columns
+    const rowsAll = resultTable.toRows(maxResultRows)
 
     // If too many columns, render in landscape and chunk columns for readability
     const groupSize = optimizeWideTables ? 6 : columns.length
@@ -255,7 +461,7 @@ export async function downloadBundlePdf(
 
     for (let i = 0; i < columns.length; i += groupSize) {
       const groupCols = columns.slice(i, i + groupSize)
-      const groupRows = rowsAll.map((row) => groupCols.map((c) => String((row as any)[c] ?? '')))
+      const groupRows = rowsAll.map((row) => groupCols.map((c) => formatValue((row as any)[c])))
 
       // Heading per group
       doc.setFont('helvetica', 'bold')
@@ -282,45 +488,10 @@ export async function downloadBundlePdf(
     doc.text('Charts', 40, y)
     y += 14
 
-    // Determine aggregate based on yField type (numeric → sum, otherwise count)
-    const inferQuantitative = (rows: any[], field?: string) => {
-      if (!field) return false
-      const sample = rows.slice(0, 10)
-        .map((r) => r[field as string])
-        .filter((v) => v !== undefined && v !== null)
-      if (sample.length === 0) return false
-      return sample.every((v) => !isNaN(Number(v)) && v !== '')
-    }
-
-    const rows = bundle.queryResult?.data || []
-    const chartType = bundle.chartConfig.type
-    const yIsQuant = inferQuantitative(rows, bundle.chartConfig.yField)
-    let aggregate: 'sum' | 'count' | undefined
-    let yFieldDisplay: string
-
-    switch (chartType) {
-      case 'bar': {
-        aggregate = bundle.chartConfig.yField && yIsQuant ? 'sum' : 'count'
-        yFieldDisplay = bundle.chartConfig.yField && yIsQuant ? (bundle.chartConfig.yField as string) : '(count)'
-        break
-      }
-      case 'line':
-      case 'scatter': {
-        if (bundle.chartConfig.yField) {
-          aggregate = undefined
-          yFieldDisplay = bundle.chartConfig.yField
-        } else {
-          aggregate = 'count'
-          yFieldDisplay = '(count)'
-        }
-        break
-      }
-      case 'histogram': {
-        aggregate = 'count'
-        yFieldDisplay = '(count)'
-        break
-      }
-    }
+    // The same spec builder as the chart builder; the y column and its aggregate are summarized
+    const rows = resultTable?.toRows() ?? []
+    const schema = bundle.queryResult?.schema
+    const { yField: yFieldDisplay, aggregate } = describeChartMeasure(bundle.chartConfig, rows, schema)
 
     // Brief table view with aggregate
     autoTable(doc, {
@@ -341,8 +512,6 @@ export async function downloadBundlePdf(
     // Derived config JSON for clarity in PDF
     doc.setFont('courier', 'normal')
     doc.setFontSize(10)
-    // Determine effective chart type for PDF image (avoid line on nominal x)
-    // (removed) derived x type variable was unused
     const derived: any = {
       type: bundle.chartConfig.type,
       xField: bundle.chartConfig.xField,
@@ -354,6 +523,9 @@ export async function downloadBundlePdf(
     if (bundle.chartConfig.colorField) {
       derived.colorField = bundle.chartConfig.colorField
     }
+    if (bundle.chartConfig.encodings) {
+      derived.encodings = bundle.chartConfig.encodings
+    }
     const json = JSON.stringify(derived, null, 2)
     // Compute available width based on current page size to avoid orientation assumptions
     const pageWidth = (doc as any).internal?.pageSize?.getWidth
@@ -377,71 +549,9 @@ export async function downloadBundlePdf(
 
     // Render chart image using Vega-Lite and embed into PDF
     try {
-      const chartData = bundle.queryResult?.data || []
-      const getFieldType = (rows: any[], field: string): 'quantitative' | 'ordinal' | 'nominal' | 'temporal' => {
-        if (!rows || rows.length === 0) return 'nominal'
-        const sample = rows.slice(0, 10).map(r => r[field]).filter(v => v !== null && v !== undefined)
-        const allNumeric = sample.length > 0 && sample.every(v => !isNaN(Number(v)) && v !== '')
-        if (allNumeric) return 'quantitative'
-        const allDates = sample.length > 0 && sample.every(v => !isNaN(Date.parse(v)))
-        if (allDates) return 'temporal'
-        const unique = new Set(sample)
-        if (unique.size <= 10) return 'ordinal'
-        return 'nominal'
-      }
-
       const cfg = bundle.chartConfig
-      const xType = getFieldType(chartData, cfg.xField)
-      const yType = cfg.yField ? getFieldType(chartData, cfg.yField) : undefined
-      // (removed) helper variable was unused; aggregate encoded directly below
-
-      const vlSpec: any = {
-        $schema: 'https://vega.github.io/schema/vega-lite/v5.json',
-        data: { values: chartData },
-        width: 720,
-        height: 360,
-        background: 'white'
-      }
-      switch (cfg.type) {
-        case 'bar':
-          vlSpec.mark = 'bar'
-          vlSpec.encoding = {
-            x: { field: cfg.xField, type: xType },
-            y: cfg.yField && yType === 'quantitative'
-              ? { field: cfg.yField, type: yType, aggregate: 'sum' }
-              : { aggregate: 'count' }
-          }
-          break
-        case 'line':
-          vlSpec.mark = 'line'
-          vlSpec.encoding = {
-            x: { field: cfg.xField, type: xType },
-            y: cfg.yField
-              ? { field: cfg.yField, type: yType || 'nominal' }
-              : { aggregate: 'count' }
-          }
-          break
-        case 'scatter':
-          vlSpec.mark = 'point'
-          vlSpec.encoding = {
-            x: { field: cfg.xField, type: xType },
-            y: cfg.yField
-              ? { field: cfg.yField, type: yType || 'nominal' }
-              : { aggregate: 'count' }
-          }
-          break
-        case 'histogram':
-          vlSpec.mark = 'bar'
-          vlSpec.encoding = {
-            x: { bin: true, field: cfg.xField, type: xType },
-            y: { aggregate: 'count' }
-          }
-          break
-      }
-
-      if (cfg.colorField && cfg.colorField !== cfg.xField && cfg.colorField !== cfg.yField) {
-        vlSpec.encoding.color = { field: cfg.colorField, type: getFieldType(chartData, cfg.colorField) }
-      }
+      const vlSpec = buildChartSpec(cfg, rows, schema, { width: 720, height: 360, background: 'white' })
+      if (!vlSpec) throw new Error(`${cfg.type} chart has no ${CHART_TYPES[cfg.type].yLabel}`)
 
       const vegaSpec = vegaLite.compile(vlSpec).spec
       const view = new vega.View(vega.parse(vegaSpec), { renderer: 'canvas' })
@@ -1,3 +1,10 @@
+import type { ColumnarResult } from '../utils/columnarResult'
+import type { SqlDiagnostic } from '../utils/sqlErrors'
+import type { CsvOptions } from '../utils/fileFormats'
+import type { LoadReport } from '../utils/loadReport'
+import type { ColumnStats } from '../utils/datasetProfile'
+import type { MaterializedInfo } from '../utils/materialize'
+
 export interface Dataset {
   id: string
   name: string
@@ -7,9 +14,16 @@ export interface Dataset {
   size: number // Alias for fileSize for compatibility
   rowCount: number
   columns: Column[]
+  profiledAt?: string // ISO string; set once row count and column statistics have been computed
   file: File | null // null for embedded datasets in bundles
   embedded: boolean
   sha256?: string
+  sheet?: string // Worksheet loaded from an .xlsx workbook
+  csvOptions?: CsvOptions // read_csv options chosen on import; reused when the view is re-created
+  loadReport?: LoadReport // Encoding and rejected rows from the last load
+  materialized?: MaterializedInfo // Loaded into a native table instead of a view over the file
+  cached?: boolean // Bytes are kept in the local dataset cache across reloads
+  sourceUrl?: string // http(s) URL the dataset is read from instead of an uploaded file
   createdAt: Date
   uploadedAt: string // ISO string for upload time
 }
@@ -18,6 +32,7 @@ export interface Column {
   name: string
   type: string
   nullable: boolean
+  stats?: ColumnStats // From the dataset profile
 }
 
 export interface Query {
@@ -30,22 +45,77 @@ export interface Query {
   rowCount?: number
 }
 
+// One executed query; kept in the persisted history regardless of which tab ran it
+export interface HistoryEntry {
+  id: string
+  sql: string
+  executedAt: string // ISO string
+  durationMs: number
+  rowCount?: number | null // null when the total was not counted before the entry was recorded
+  error?: string
+  cancelled?: boolean
+  datasets: string[] // Table names loaded when the query ran
+  pinned?: boolean // Pinned entries are never pruned
+}
+
+// Chart saved to the dashboard; it is drawn again from its query's rows on every refresh
 export interface Chart {
   id: string
   name: string
-  queryId: string
-  type: 'bar' | 'line' | 'table'
-  vegaLite: any // Vega-Lite specification
-  width: number
-  height: number
+  queryId: string // Saved query (editor tab) the chart runs
+  config: ChartConfig
+  width: number // Grid columns spanned
+  height: number // Grid rows spanned
   createdAt: Date
 }
 
+export type ActivePanel = 'sql' | 'results' | 'charts' | 'dashboard' | 'history'
+
+export type ChartTimeUnit = 'auto' | 'year' | 'quarter' | 'month' | 'week' | 'day' | 'hour' | 'minute'
+
+export type ChartType =
+  | 'bar'
+  | 'stacked-bar'
+  | 'grouped-bar'
+  | 'line'
+  | 'area'
+  | 'scatter'
+  | 'histogram'
+  | 'pie'
+  | 'donut'
+  | 'heatmap'
+  | 'boxplot'
+  | 'grouped-boxplot'
+  | 'map'
+
+export type ChartChannel = 'x' | 'y' | 'color'
+
+export type ChartAggregate = 'sum' | 'mean' | 'median' | 'min' | 'max' | 'count' | 'distinct'
+
+export type ChartSort = 'ascending' | 'descending' | 'value-ascending' | 'value-descending'
+
+export type ChartScaleType = 'linear' | 'log' | 'sqrt' | 'symlog' | 'pow' | 'time' | 'utc'
+
+// Explicit settings for one encoding; anything left unset is inferred
+export interface EncodingOverride {
+  type?: 'quantitative' | 'ordinal' | 'nominal' | 'temporal'
+  aggregate?: ChartAggregate // Measures only: y, or color on heatmaps
+  sort?: ChartSort // value-* sorts by the other axis
+  scale?: ChartScaleType
+  title?: string // Axis or legend title
+  format?: string // d3 number or time format for labels and tooltips
+}
+
+export type ChartEncodings = Partial<Record<ChartChannel, EncodingOverride>>
+
 export interface ChartConfig {
-  type: 'bar' | 'line' | 'scatter' | 'histogram'
+  type: ChartType
   xField: string
   yField?: string
   colorField?: string
+  timeUnit?: ChartTimeUnit // Bucket size for date and timestamp x fields
+  bins?: number // Histogram bucket count
+  encodings?: ChartEncodings
 }
 
 export interface Bundle {
@@ -90,6 +160,37 @@ export interface QueryResult {
   queryTime: number
 }
 
+// Rows fetched per cursor page when running queries and scrolling the results grid
+export const RESULT_PAGE_SIZE = 1000
+
+// Rows loaded into the results grid; further pages stream from an open worker cursor
+export interface QueryResultState {
+  data: any[]
+  table?: ColumnarResult // Arrow-backed pages from the worker; `data` stays empty when set
+  columns: string[]
+  schema?: Column[] // DuckDB column types reported by the worker
+  sql?: string // Statement that produced the result; charts aggregate over it
+  totalRows?: number | null // null when the total is unknown until the cursor is exhausted
+  cursorId?: string
+  hasMore?: boolean
+}
+
+export interface QueryStatusState {
+  isRunning: boolean
+  error: string | null
+  diagnostic?: SqlDiagnostic // Parsed position and hint for the error, when it came from the query text
+  executionTime?: number
+  cancelled?: boolean // Set when the last run was interrupted by the user
+}
+
+// DuckDB built-in function from duckdb_functions(), with one signature per overload
+export interface SqlFunction {
+  name: string
+  type: string // scalar, aggregate, table, macro, ...
+  description?: string
+  signatures: string[]
+}
+
 export interface WorkerResponse {
   type: 'init' | 'query' | 'registerFile' | 'error' | 'progress'
   id: string
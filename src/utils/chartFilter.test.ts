@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest'
+import type { ChartConfig, Column } from '../types'
+import { addChartInteraction, buildFilteredQuerySQL, selectionFilterSQL } from './chartFilter'
+import { buildChartQuery } from './chartSql'
+import { buildAggregatedChartSpec, buildChartSpec } from './chartSpec'
+
+const schema: Column[] = [
+  { name: 'region', type: 'VARCHAR', nullable: true },
+  { name: 'amount', type: 'DOUBLE', nullable: true },
+  { name: 'day', type: 'DATE', nullable: true }
+]
+
+const rows = [
+  { region: 'north', amount: 10, day: '2024-01-01' },
+  { region: 'south', amount: 4, day: '2024-01-05' }
+]
+
+const paramsOf = (spec: any) => spec.params.map((param: any) => param.name)
+
+describe('addChartInteraction', () => {
+  it('should brush continuous x axes and filter by the legend', () => {
+    const config: ChartConfig = { type: 'line', xField: 'day', yField: 'amount', colorField: 'region' }
+    const interaction = addChartInteraction(buildChartSpec(config, rows, schema), config, { aggregated: false, dragMode: 'select' })
+    expect(paramsOf(interaction.spec)).toEqual(['brush', 'legend'])
+    expect(interaction.spec.params[0].select).toEqual({ type: 'interval', encodings: ['x'] })
+    expect(interaction.spec.params[1].bind).toBe('legend')
+    expect(interaction.spec.encoding.opacity.condition.test).toEqual({ and: [{ param: 'brush' }, { param: 'legend' }] })
+    expect(interaction).toMatchObject({ selections: ['brush', 'legend'], columns: { day: 'day', region: 'region' }, zoomable: true })
+  })
+
+  it('should bind continuous scales instead of brushing when zooming', () => {
+    const config: ChartConfig = { type: 'scatter', xField: 'amount', yField: 'day' }
+    const interaction = addChartInteraction(buildChartSpec(config, rows, schema), config, { aggregated: false, dragMode: 'zoom' })
+    expect(interaction.spec.params).toEqual([{ name: 'zoom', select: { type: 'interval', encodings: ['x', 'y'] }, bind: 'scales' }])
+    expect(interaction.selections).toEqual([])
+    expect(interaction.spec.encoding.opacity).toBeUndefined()
+  })
+
+  it('should pick discrete marks and map aggregated fields back to result columns', () => {
+    const config: ChartConfig = { type: 'bar', xField: 'region', yField: 'amount' }
+    const query = buildChartQuery('SELECT * FROM sales', config, schema)
+    expect(query).not.toBeNull()
+    if (!query) return
+    const spec = buildAggregatedChartSpec(query, [{ x: 'north', y: 10 }], config)
+    const interaction = addChartInteraction(spec, config, { aggregated: true, dragMode: 'select' })
+    expect(interaction.spec.params).toEqual([{ name: 'pick', select: { type: 'point', fields: ['x'] } }])
+    expect(interaction.columns).toEqual({ x: 'region' })
+    expect(spec.params).toBeUndefined()
+  })
+
+  it('should select pie slices from the chart and its legend', () => {
+    const config: ChartConfig = { type: 'pie', xField: 'region', yField: 'amount' }
+    const interaction = addChartInteraction(buildChartSpec(config, rows, schema), config, { aggregated: false, dragMode: 'select' })
+    expect(interaction.spec.params).toEqual([
+      { name: 'pick', select: { type: 'point', fields: ['region'], on: 'click' }, bind: 'legend' }
+    ])
+  })
+
+  it('should add legend filters to the points of a map', () => {
+    const geo: Column[] = [{ name: 'lon', type: 'DOUBLE', nullable: true }, { name: 'lat', type: 'DOUBLE', nullable: true }, ...schema]
+    const config: ChartConfig = { type: 'map', xField: 'lon', yField: 'lat', colorField: 'region' }
+    const spec = buildChartSpec(config, [{ lon: 1, lat: 2, region: 'north' }], geo)
+    const interaction = addChartInteraction(spec, config, { aggregated: false, dragMode: 'select' })
+    expect(paramsOf(interaction.spec.layer[2])).toEqual(['legend'])
+    expect(interaction.spec.layer[0]).toBe(spec.layer[0])
+  })
+
+  it('should leave box plots alone', () => {
+    const config: ChartConfig = { type: 'grouped-boxplot', xField: 'region', yField: 'amount' }
+    const spec = buildChartSpec(config, rows, schema)
+    expect(addChartInteraction(spec, config, { aggregated: false, dragMode: 'select' })).toMatchObject({ spec, selections: [] })
+    expect(addChartInteraction(null, config, { aggregated: false, dragMode: 'select' }).spec).toBeNull()
+  })
+})
+
+describe('selectionFilterSQL', () => {
+  it('should turn brushed ranges into BETWEEN conditions', () => {
+    const sql = selectionFilterSQL({
+      brush: [{
+        fields: [{ field: 'amount', type: 'R' }, { field: 'day', type: 'R' }],
+        values: [[12.5, 3], [Date.UTC(2024, 0, 2), Date.UTC(2024, 0, 4, 12)]]
+      }]
+    }, { amount: 'amount', day: 'day' }, rows)
+    expect(sql).toBe("amount BETWEEN 3 AND 12.5 AND day BETWEEN TIMESTAMP '2024-01-02 00:00:00' AND TIMESTAMP '2024-01-04 12:00:00'")
+  })
+
+  it('should match clicked values, NULLs included, and combine selections', () => {
+    const sql = selectionFilterSQL({
+      pick: [
+        { fields: [{ field: 'x', type: 'E' }], values: ["O'Hare"] },
+        { fields: [{ field: 'x', type: 'E' }], values: [null] }
+      ],
+      legend: [{ fields: [{ field: 'color', type: 'E' }], values: [2024] }],
+      brush: []
+    }, { x: 'airport', color: 'sold year' }, [])
+    expect(sql).toBe(`((airport = 'O''Hare') OR (airport IS NULL))\nAND "sold year" = 2024`)
+  })
+
+  it('should write zoned times in UTC and ignore fields it cannot map', () => {
+    const zoned = [{ at: '2024-01-01T00:00:00.000Z' }]
+    expect(selectionFilterSQL({
+      brush: [{ fields: [{ field: 'at', type: 'R' }, { field: 'other', type: 'R' }], values: [[0, Date.UTC(2024, 0, 1)], [1, 2]] }]
+    }, { at: 'at' }, zoned)).toBe("at BETWEEN TIMESTAMPTZ '1970-01-01T00:00:00.000Z' AND TIMESTAMPTZ '2024-01-01T00:00:00.000Z'")
+  })
+
+  it('should return null without a selection', () => {
+    expect(selectionFilterSQL({}, {}, rows)).toBeNull()
+    expect(selectionFilterSQL({ pick: [] }, { x: 'region' }, rows)).toBeNull()
+  })
+})
+
+describe('buildFilteredQuerySQL', () => {
+  it('should filter the rows of single SELECT statements', () => {
+    expect(buildFilteredQuerySQL('SELECT * FROM sales;', "region = 'north'"))
+      .toBe("SELECT * FROM (\nSELECT * FROM sales\n) AS filtered\nWHERE region = 'north'")
+    expect(buildFilteredQuerySQL('DELETE FROM sales', 'TRUE')).toBeNull()
+  })
+})
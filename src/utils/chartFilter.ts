@@ -0,0 +1,201 @@
+// Chart interaction: Vega-Lite selections for brushing, clicking and legend filtering, pan/zoom
+// on continuous axes, and the WHERE clause a selection stands for in the chart's query
+
+import type { ChartConfig } from '../types'
+import { viewBodyFor } from './databaseFile'
+import { sqlString } from './fileFormats'
+import { quoteIdentifier } from './sqlContext'
+
+export type ChartDragMode = 'select' | 'zoom'
+
+// Selection parameter names; Vega keeps each selection's tuples in a `<name>_store` dataset
+export const CHART_SELECTIONS = {
+  brush: 'brush', // Interval dragged over continuous axes
+  pick: 'pick', // Marks clicked on discrete axes, shift-click adds more
+  legend: 'legend', // Legend entries clicked
+  zoom: 'zoom' // Scales bound to drag and wheel
+} as const
+
+// One entry of a selection store: the selected fields and their values ([min, max] for ranges)
+export interface ChartSelectionTuple {
+  fields: Array<{ field: string; type: string }>
+  values: unknown[]
+}
+
+export interface ChartInteraction {
+  spec: any
+  selections: string[] // Parameters whose stores make up the filter
+  columns: Record<string, string> // Result column filtered for each spec field the selections read
+  zoomable: boolean
+}
+
+const CONTINUOUS = ['quantitative', 'temporal']
+
+// Charts whose marks stand for groups of rows that can be told apart by field values
+const BRUSHABLE = ['bar', 'stacked-bar', 'grouped-bar', 'line', 'area', 'scatter', 'histogram']
+const ZOOMABLE = ['line', 'area', 'scatter']
+
+function isContinuous(encoding: any): boolean {
+  return !!encoding?.field && (CONTINUOUS.includes(encoding.type) || !!encoding.bin)
+}
+
+function isDiscrete(encoding: any): boolean {
+  return !!encoding?.field && !isContinuous(encoding)
+}
+
+// Selections added to a chart spec. Aggregated specs read the chart query's x, y and color
+// columns; row specs read the result columns directly
+export function addChartInteraction(
+  spec: any,
+  config: ChartConfig,
+  options: { aggregated: boolean; dragMode: ChartDragMode }
+): ChartInteraction {
+  const none: ChartInteraction = { spec, selections: [], columns: {}, zoomable: false }
+  if (!spec) return none
+  // Layered specs carry their encodings on the layer with tooltips: the points of a map
+  const unit = spec.layer ? spec.layer.find((layer: any) => layer.encoding?.tooltip) : spec
+  if (!unit?.encoding || config.type === 'boxplot' || config.type === 'grouped-boxplot') return none
+
+  const { x, y, color } = unit.encoding
+  const params: any[] = []
+  const highlight: string[] = []
+  const fields: Record<string, string | undefined> = options.aggregated
+    ? { x: config.xField, y: config.yField, color: config.colorField }
+    : {}
+  const columns: Record<string, string> = {}
+  const read = (...encodings: any[]) => {
+    for (const encoding of encodings) columns[encoding.field] = fields[encoding.field] ?? encoding.field
+  }
+
+  const continuous = [x, y].filter(isContinuous)
+  const zoomable = ZOOMABLE.includes(config.type) && continuous.length > 0
+  if (zoomable && options.dragMode === 'zoom') {
+    const encodings = [x, y].flatMap((encoding, i) => (isContinuous(encoding) ? [i === 0 ? 'x' : 'y'] : []))
+    params.push({ name: CHART_SELECTIONS.zoom, select: { type: 'interval', encodings }, bind: 'scales' })
+  } else if (BRUSHABLE.includes(config.type) && isContinuous(x)) {
+    // Scatter plots brush both axes; other charts span the full height
+    const brushed = config.type === 'scatter' && isContinuous(y) ? [x, y] : [x]
+    params.push({ name: CHART_SELECTIONS.brush, select: { type: 'interval', encodings: brushed.length === 2 ? ['x', 'y'] : ['x'] } })
+    highlight.push(CHART_SELECTIONS.brush)
+    read(...brushed)
+  }
+
+  if (config.type === 'pie' || config.type === 'donut') {
+    // Slices and their legend entries select the same categories
+    params.push({ name: CHART_SELECTIONS.pick, select: { type: 'point', fields: [color.field], on: 'click' }, bind: 'legend' })
+    highlight.push(CHART_SELECTIONS.pick)
+    read(color)
+  } else if (config.type === 'heatmap') {
+    const picked = [x, y].filter(encoding => isDiscrete(encoding))
+    if (picked.length > 0) {
+      params.push({ name: CHART_SELECTIONS.pick, select: { type: 'point', fields: picked.map(encoding => encoding.field) } })
+      highlight.push(CHART_SELECTIONS.pick)
+      read(...picked)
+    }
+  } else if (BRUSHABLE.includes(config.type) && !['line', 'area'].includes(config.type) && isDiscrete(x)) {
+    params.push({ name: CHART_SELECTIONS.pick, select: { type: 'point', fields: [x.field] } })
+    highlight.push(CHART_SELECTIONS.pick)
+    read(x)
+  }
+
+  if (config.type !== 'pie' && config.type !== 'donut' && isDiscrete(color)) {
+    params.push({ name: CHART_SELECTIONS.legend, select: { type: 'point', fields: [color.field] }, bind: 'legend' })
+    highlight.push(CHART_SELECTIONS.legend)
+    read(color)
+  }
+
+  if (params.length === 0) return none
+  // Marks outside the selections fade
+  const opacity = { condition: { test: { and: highlight.map(param => ({ param })) }, value: 1 }, value: 0.3 }
+  const interactive = {
+    ...unit,
+    params,
+    encoding: highlight.length > 0 ? { ...unit.encoding, opacity } : unit.encoding
+  }
+  return {
+    spec: spec.layer ? { ...spec, layer: spec.layer.map((layer: any) => (layer === unit ? interactive : layer)) } : interactive,
+    selections: highlight,
+    columns,
+    zoomable
+  }
+}
+
+const ZONED = /(Z|[+-]\d{2}:?\d{2})$/
+
+// Result values Vega parses into times: dates and timestamps arrive as strings
+function isTimeString(sample: unknown): sample is string {
+  return typeof sample === 'string' && isNaN(Number(sample)) && !isNaN(Date.parse(sample))
+}
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0')
+
+// Timestamp literal for a time Vega parsed from a result string, as the string would read
+function timestampLiteral(ms: number, sample: string): string {
+  const d = new Date(ms)
+  if (ZONED.test(sample)) return `TIMESTAMPTZ '${d.toISOString()}'`
+  // Vega parses date-only strings as UTC and naive timestamps as local time
+  const utc = /^\d{4}-\d{2}-\d{2}$/.test(sample)
+  const parts = utc
+    ? [d.getUTCFullYear(), d.getUTCMonth() + 1, d.getUTCDate(), d.getUTCHours(), d.getUTCMinutes(), d.getUTCSeconds(), d.getUTCMilliseconds()]
+    : [d.getFullYear(), d.getMonth() + 1, d.getDate(), d.getHours(), d.getMinutes(), d.getSeconds(), d.getMilliseconds()]
+  const [year, month, day, hours, minutes, seconds, millis] = parts
+  const time = `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${millis ? `.${pad(millis, 3)}` : ''}`
+  return `TIMESTAMP '${pad(year, 4)}-${pad(month)}-${pad(day)} ${time}'`
+}
+
+function literal(value: unknown, sample: unknown): string {
+  // Times on continuous axes come back as epoch milliseconds
+  if ((typeof value === 'number' || value instanceof Date) && isTimeString(sample)) {
+    return timestampLiteral(Number(value), sample)
+  }
+  if (typeof value === 'number' || typeof value === 'bigint') return String(value)
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE'
+  return sqlString(String(value))
+}
+
+function equals(column: string, value: unknown, sample: unknown): string {
+  return value === null || value === undefined ? `${column} IS NULL` : `${column} = ${literal(value, sample)}`
+}
+
+// Condition for the tuples of one selection: ranges are ANDed, clicked points ORed
+function tupleConditions(tuples: ChartSelectionTuple[], columns: Record<string, string>, sampleOf: (field: string) => unknown): string | null {
+  const points: string[] = []
+  for (const tuple of tuples) {
+    const terms: string[] = []
+    tuple.fields.forEach(({ field, type }, i) => {
+      const name = columns[field]
+      if (!name) return
+      const column = quoteIdentifier(name)
+      const value = tuple.values[i]
+      if (type.startsWith('R') && Array.isArray(value)) {
+        const [lo, hi] = [...value].sort((a, b) => Number(a) - Number(b))
+        terms.push(`${column} BETWEEN ${literal(lo, sampleOf(field))} AND ${literal(hi, sampleOf(field))}`)
+      } else {
+        terms.push(equals(column, value, sampleOf(field)))
+      }
+    })
+    if (terms.length > 0) points.push(terms.join(' AND '))
+  }
+  if (points.length === 0) return null
+  return points.length === 1 ? points[0] : `(${points.map(point => `(${point})`).join(' OR ')})`
+}
+
+// WHERE condition for the current selections, or null when nothing is selected.
+// Rows are the chart's data, used to tell how Vega parsed temporal values
+export function selectionFilterSQL(
+  stores: Record<string, ChartSelectionTuple[]>,
+  columns: Record<string, string>,
+  rows: any[]
+): string | null {
+  const sampleOf = (field: string) => rows.find(row => row[field] !== null && row[field] !== undefined)?.[field]
+  const conditions = Object.values(stores)
+    .map(tuples => tupleConditions(tuples, columns, sampleOf))
+    .filter((condition): condition is string => !!condition)
+  return conditions.length > 0 ? conditions.join('\nAND ') : null
+}
+
+// The query with a filter applied to its rows, or null unless it is a single row-returning statement
+export function buildFilteredQuerySQL(sql: string, condition: string): string | null {
+  const body = viewBodyFor(sql)
+  return body ? `SELECT * FROM (\n${body}\n) AS filtered\nWHERE ${condition}` : null
+}
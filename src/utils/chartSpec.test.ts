@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest'
+import type { Column } from '../types'
+import { buildChartQuery } from './chartSql'
+import { buildAggregatedChartSpec, buildChartSpec, describeChartMeasure } from './chartSpec'
+
+const schema: Column[] = [
+  { name: 'region', type: 'VARCHAR', nullable: true },
+  { name: 'amount', type: 'DOUBLE', nullable: true },
+  { name: 'qty', type: 'INTEGER', nullable: true },
+  { name: 'day', type: 'DATE', nullable: true }
+]
+
+const rows = [
+  { region: 'north', amount: 10.5, qty: 1, day: '2024-01-01' },
+  { region: 'south', amount: 4, qty: 3, day: '2024-01-02' }
+]
+
+describe('buildChartSpec', () => {
+  it('should sum numeric bar values and repeat the encodings in the tooltip', () => {
+    const spec = buildChartSpec({ type: 'bar', xField: 'region', yField: 'amount', colorField: 'day' }, rows, schema)
+    expect(spec.mark).toBe('bar')
+    expect(spec.width).toBe('container')
+    expect(spec.encoding.x).toEqual({ field: 'region', type: 'nominal' })
+    expect(spec.encoding.y).toEqual({ field: 'amount', type: 'quantitative', aggregate: 'sum' })
+    expect(spec.encoding.color).toEqual({ field: 'day', type: 'temporal' })
+    expect(spec.encoding.tooltip).toEqual([
+      { field: 'region', type: 'nominal' },
+      { field: 'day', type: 'temporal' },
+      { field: 'amount', type: 'quantitative', aggregate: 'sum' }
+    ])
+  })
+
+  it('should draw into a fixed layout for the PDF', () => {
+    const spec = buildChartSpec({ type: 'line', xField: 'day', yField: 'amount' }, rows, schema, {
+      width: 720,
+      height: 360,
+      background: 'white'
+    })
+    expect(spec).toMatchObject({ width: 720, height: 360, background: 'white', mark: 'line' })
+    expect(spec.encoding.y).toEqual({ field: 'amount', type: 'quantitative' })
+  })
+
+  it('should map pie categories to color and values to angle', () => {
+    const spec = buildChartSpec({ type: 'donut', xField: 'region', yField: 'qty' }, rows, schema)
+    expect(spec.mark.type).toBe('arc')
+    expect(spec.mark.innerRadius).toEqual({ expr: 'min(width, height) / 6' })
+    expect(spec.encoding.color).toEqual({ field: 'region', type: 'nominal' })
+    expect(spec.encoding.theta).toEqual({ field: 'qty', type: 'quantitative', aggregate: 'sum' })
+  })
+
+  it('should apply encoding overrides', () => {
+    const spec = buildChartSpec({
+      type: 'bar',
+      xField: 'region',
+      yField: 'amount',
+      encodings: {
+        x: { sort: 'value-descending', title: 'Region' },
+        y: { aggregate: 'mean', scale: 'log', format: ',.2f' }
+      }
+    }, rows, schema)
+    expect(spec.encoding.x).toEqual({ field: 'region', type: 'nominal', sort: '-y', title: 'Region' })
+    expect(spec.encoding.y).toMatchObject({ aggregate: 'mean', scale: { type: 'log' }, axis: { format: ',.2f' } })
+    expect(spec.encoding.tooltip[1]).toMatchObject({ field: 'amount', aggregate: 'mean', format: ',.2f' })
+  })
+
+  it('should stop binning a heatmap axis overridden as discrete', () => {
+    const config = { type: 'heatmap' as const, xField: 'qty', yField: 'region' }
+    expect(buildChartSpec(config, rows, schema).encoding.x.bin).toBe(true)
+    const spec = buildChartSpec({ ...config, encodings: { x: { type: 'ordinal' } } }, rows, schema)
+    expect(spec.encoding.x).toEqual({ field: 'qty', type: 'ordinal' })
+  })
+
+  it('should need a y field where the chart cannot be drawn without one', () => {
+    expect(buildChartSpec({ type: 'heatmap', xField: 'region' }, rows, schema)).toBeNull()
+    expect(buildChartSpec({ type: 'map', xField: 'amount' }, rows, schema)).toBeNull()
+  })
+})
+
+describe('buildAggregatedChartSpec', () => {
+  it('should read the chart query output columns and apply overrides', () => {
+    const config = {
+      type: 'bar' as const,
+      xField: 'region',
+      yField: 'amount',
+      encodings: { x: { sort: 'descending' as const }, y: { title: 'Revenue', format: '$,.0f' } }
+    }
+    const query = buildChartQuery('SELECT * FROM sales', config, schema)
+    expect(query).not.toBeNull()
+    if (!query) return
+    const spec = buildAggregatedChartSpec(query, [{ x: 'north', y: 10.5 }], config)
+    expect(spec.encoding.x).toEqual({ field: 'x', type: 'nominal', title: 'region', sort: 'descending' })
+    expect(spec.encoding.y).toEqual({ field: 'y', type: 'quantitative', title: 'Revenue', axis: { format: '$,.0f' } })
+    expect(spec.encoding.tooltip[1]).toEqual({ field: 'y', type: 'quantitative', title: 'Sum of amount', format: '$,.0f' })
+  })
+})
+
+describe('describeChartMeasure', () => {
+  it('should name the measure shown for the PDF table', () => {
+    expect(describeChartMeasure({ type: 'bar', xField: 'region', yField: 'amount' }, rows, schema))
+      .toEqual({ yField: 'amount', aggregate: 'sum' })
+    expect(describeChartMeasure({ type: 'bar', xField: 'region' }, rows, schema))
+      .toEqual({ yField: '(count)', aggregate: 'count' })
+    expect(describeChartMeasure({ type: 'scatter', xField: 'qty', yField: 'amount' }, rows, schema))
+      .toEqual({ yField: 'amount' })
+    expect(describeChartMeasure({
+      type: 'heatmap', xField: 'region', yField: 'day', colorField: 'amount', encodings: { color: { aggregate: 'median' } }
+    }, rows, schema)).toEqual({ yField: 'day', aggregate: 'median' })
+  })
+})
@@ -0,0 +1,323 @@
+// Vega-Lite specifications for charts, shared by the chart builder, dashboard and PDF export
+
+import type { ChartChannel, ChartConfig, ChartType, Column, EncodingOverride } from '../types'
+import { CHART_FIELDS, type ChartQuery } from './chartSql'
+import { CHART_TYPES, resolveMeasure } from './chartTypes'
+import { fieldTypeFor } from './columnTypes'
+
+export interface ChartLayout {
+  width: number | 'container'
+  height: number | 'container'
+  background: string
+}
+
+const CONTAINER_LAYOUT: ChartLayout = { width: 'container', height: 'container', background: 'transparent' }
+
+const BOX_SIZE = 14
+
+// Donut holes scale with the view so they read the same on screen and in the PDF
+const DONUT_INNER_RADIUS = { expr: 'min(width, height) / 6' }
+
+function baseSpec(data: any[], layout: ChartLayout): any {
+  return {
+    $schema: 'https://vega.github.io/schema/vega-lite/v5.json',
+    data: { values: data },
+    ...layout
+  }
+}
+
+// Tooltip entry repeating an encoding, so aggregated values are shown as drawn
+function tooltipOf(encoding: any): any {
+  const { field, type, aggregate, bin, title } = encoding
+  return Object.fromEntries(Object.entries({ field, type, aggregate, bin, title }).filter(([, value]) => value !== undefined))
+}
+
+// Point maps are drawn on an outline of the globe and a graticule, generated by Vega-Lite
+// itself so no basemap has to be fetched
+function pointMapSpec(points: any): any {
+  return {
+    projection: { type: 'equalEarth' },
+    layer: [
+      { data: { sphere: true }, mark: { type: 'geoshape', fill: '#f1f5f9', stroke: '#cbd5e1' } },
+      { data: { graticule: { step: [30, 30] } }, mark: { type: 'geoshape', filled: false, stroke: '#e2e8f0', strokeWidth: 0.5 } },
+      { mark: { type: 'circle', size: 24, opacity: 0.7 }, encoding: points }
+    ]
+  }
+}
+
+// Spec channel a config channel is drawn on
+function specChannel(type: ChartType, channel: ChartChannel): string | null {
+  if (type === 'pie' || type === 'donut') return channel === 'x' ? 'color' : channel === 'y' ? 'theta' : null
+  if (type === 'map') return channel === 'x' ? 'longitude' : channel === 'y' ? 'latitude' : 'color'
+  return channel
+}
+
+function applyOverride(encoding: any, channel: string, override: EncodingOverride, tooltip: any[]) {
+  if (override.type && encoding.field && !encoding.bin) encoding.type = override.type
+  if (override.sort) {
+    const other = channel === 'x' ? 'y' : channel === 'y' ? 'x' : null
+    if (!override.sort.startsWith('value')) encoding.sort = override.sort
+    else if (other) encoding.sort = override.sort === 'value-descending' ? `-${other}` : other
+  }
+  if (override.scale) encoding.scale = { ...encoding.scale, type: override.scale }
+  if (override.title) encoding.title = override.title
+  if (override.format) {
+    if (channel === 'x' || channel === 'y') encoding.axis = { ...encoding.axis, format: override.format }
+    if (channel === 'color') encoding.legend = { ...encoding.legend, format: override.format }
+    tooltip
+      .filter(item => item.field === encoding.field && item.aggregate === encoding.aggregate)
+      .forEach(item => { item.format = override.format })
+  }
+}
+
+// Explicit per-encoding settings from the config, applied to every layer drawing the channel
+export function applyEncodingOverrides(spec: any, config: Pick<ChartConfig, 'type' | 'encodings'>): any {
+  if (!spec || !config.encodings) return spec
+  const encodings = (spec.layer ? spec.layer.map((layer: any) => layer.encoding) : [spec.encoding]).filter(Boolean)
+  for (const [channel, override] of Object.entries(config.encodings) as Array<[ChartChannel, EncodingOverride | undefined]>) {
+    const target = specChannel(config.type, channel)
+    if (!override || !target) continue
+    for (const encoding of encodings) {
+      if (encoding[target]) applyOverride(encoding[target], target, override, encoding.tooltip ?? [])
+    }
+  }
+  return spec
+}
+
+// Vega-Lite specification for a chart config over result rows; Vega does any aggregation.
+// Used when the chart's query cannot be aggregated in DuckDB, and for the PDF export
+export function buildChartSpec(config: ChartConfig, data: any[], schema?: Column[], layout: ChartLayout = CONTAINER_LAYOUT): any {
+  const { type, xField, yField, colorField } = config
+  const typeInfo = CHART_TYPES[type]
+  const fieldType = (field: string) => fieldTypeFor(schema, data, field)
+  // An overridden type also decides whether Vega bins the field
+  const channelType = (field: string, channel: ChartChannel) => config.encodings?.[channel]?.type ?? fieldType(field)
+  const spec = baseSpec(data, layout)
+
+  // Measures follow the aggregate override, then sum numbers and count anything else
+  const measure = (field: string | undefined, channel: ChartChannel) => {
+    const resolved = resolveMeasure(field, !!field && fieldType(field) === 'quantitative', config.encodings?.[channel]?.aggregate)
+    return resolved.field
+      ? { field: resolved.field, type: 'quantitative', aggregate: resolved.aggregate }
+      : { aggregate: 'count', type: 'quantitative', title: resolved.title }
+  }
+  const xEnc: any = { field: xField, type: channelType(xField, 'x') }
+  // Lines, areas and points draw raw values unless an aggregate is chosen
+  const raw = yField && !config.encodings?.y?.aggregate ? { field: yField, type: fieldType(yField) } : measure(yField, 'y')
+  const color = colorField && typeInfo.colorLabel && colorField !== xField && colorField !== yField
+    ? { field: colorField, type: fieldType(colorField) }
+    : undefined
+
+  switch (type) {
+    case 'bar':
+    case 'stacked-bar':
+    case 'grouped-bar': {
+      const total = measure(yField, 'y')
+      spec.mark = 'bar'
+      spec.encoding = { x: xEnc, y: type === 'stacked-bar' ? { ...total, stack: 'zero' } : total }
+      if (type === 'grouped-bar' && color) spec.encoding.xOffset = color
+      break
+    }
+
+    case 'line':
+    case 'area':
+      spec.mark = type
+      spec.encoding = { x: xEnc, y: raw }
+      break
+
+    case 'scatter':
+      spec.mark = 'point'
+      spec.encoding = { x: xEnc, y: raw }
+      break
+
+    case 'histogram':
+      spec.mark = 'bar'
+      spec.encoding = {
+        x: { ...xEnc, bin: xEnc.type === 'quantitative' },
+        y: { aggregate: 'count', type: 'quantitative', title: 'Count of Records' }
+      }
+      break
+
+    case 'pie':
+    case 'donut':
+      spec.mark = { type: 'arc', innerRadius: type === 'donut' ? DONUT_INNER_RADIUS : 0 }
+      spec.encoding = { theta: measure(yField, 'y'), color: { field: xField, type: 'nominal' } }
+      spec.encoding.tooltip = [spec.encoding.color, spec.encoding.theta].map(tooltipOf)
+      return applyEncodingOverrides(spec, config)
+
+    case 'heatmap': {
+      if (!yField) return null
+      const yEnc = { field: yField, type: channelType(yField, 'y') }
+      spec.mark = 'rect'
+      spec.encoding = {
+        x: xEnc.type === 'quantitative' ? { ...xEnc, bin: true } : xEnc,
+        y: yEnc.type === 'quantitative' ? { ...yEnc, bin: true } : yEnc,
+        color: measure(colorField, 'color')
+      }
+      spec.encoding.tooltip = [spec.encoding.x, spec.encoding.y, spec.encoding.color].map(tooltipOf)
+      return applyEncodingOverrides(spec, config)
+    }
+
+    case 'boxplot':
+      spec.mark = { type: 'boxplot', extent: 1.5 }
+      spec.encoding = { x: { field: xField, type: 'quantitative' } }
+      return applyEncodingOverrides(spec, config)
+
+    case 'grouped-boxplot':
+      if (!yField) return null
+      spec.mark = { type: 'boxplot', extent: 1.5 }
+      spec.encoding = { x: xEnc, y: { field: yField, type: 'quantitative' } }
+      return applyEncodingOverrides(spec, config)
+
+    case 'map': {
+      if (!yField) return null
+      const points: any = {
+        longitude: { field: xField, type: 'quantitative' },
+        latitude: { field: yField, type: 'quantitative' }
+      }
+      if (color) points.color = color
+      points.tooltip = [points.longitude, points.latitude, ...(color ? [color] : [])].map(tooltipOf)
+      return applyEncodingOverrides({ ...spec, ...pointMapSpec(points) }, config)
+    }
+  }
+
+  if (color) spec.encoding.color = color
+
+  spec.encoding.tooltip = [spec.encoding.x, ...(color ? [color] : []), spec.encoding.y].map(tooltipOf)
+  return applyEncodingOverrides(spec, config)
+}
+
+// Box plot from precomputed quartiles and whiskers; a single box lies along the x axis
+function boxPlotLayers(query: ChartQuery): any[] {
+  const grouped = query.type === 'grouped-boxplot'
+  const value = grouped ? query.y : query.x
+  const valueChannel = grouped ? 'y' : 'x'
+  const group = grouped ? { x: { field: CHART_FIELDS.x, type: query.x.type, title: query.x.title } } : {}
+  const stat = (field: string, title?: string) => ({ field, type: 'quantitative', ...(title ? { title } : {}) })
+  const tooltip = [
+    ...(grouped ? [{ field: CHART_FIELDS.x, type: query.x.type, title: query.x.title }] : []),
+    stat(CHART_FIELDS.upper, 'Upper whisker'),
+    stat(CHART_FIELDS.q3, 'Q3'),
+    stat(CHART_FIELDS.median, 'Median'),
+    stat(CHART_FIELDS.q1, 'Q1'),
+    stat(CHART_FIELDS.lower, 'Lower whisker'),
+    stat(CHART_FIELDS.count, 'Rows')
+  ]
+  return [
+    {
+      mark: 'rule',
+      encoding: { ...group, [valueChannel]: stat(CHART_FIELDS.lower, value.title), [`${valueChannel}2`]: { field: CHART_FIELDS.upper } }
+    },
+    {
+      mark: { type: 'bar', size: BOX_SIZE },
+      encoding: { ...group, [valueChannel]: stat(CHART_FIELDS.q1, value.title), [`${valueChannel}2`]: { field: CHART_FIELDS.q3 }, tooltip }
+    },
+    {
+      mark: { type: 'tick', color: 'white', size: BOX_SIZE },
+      encoding: { ...group, [valueChannel]: stat(CHART_FIELDS.median, value.title) }
+    }
+  ]
+}
+
+// Vega-Lite specification for rows already aggregated by DuckDB; encodings read the chart
+// query's output columns and Vega does no aggregation of its own
+export function buildAggregatedChartSpec(
+  query: ChartQuery,
+  rows: any[],
+  config: Pick<ChartConfig, 'type' | 'encodings'>,
+  layout: ChartLayout = CONTAINER_LAYOUT
+): any {
+  const spec = baseSpec(rows, layout)
+  const x: any = { field: CHART_FIELDS.x, type: query.x.type, title: query.x.title }
+  const y: any = { field: CHART_FIELDS.y, type: query.y.type, title: query.y.title }
+  const color = query.color && { field: CHART_FIELDS.color, type: query.color.type, title: query.color.title }
+  const tooltip = (...encodings: any[]) => encodings.filter(Boolean).map(({ field, type, title }) => ({ field, type, title }))
+
+  switch (query.type) {
+    case 'boxplot':
+    case 'grouped-boxplot':
+      return applyEncodingOverrides({ ...spec, layer: boxPlotLayers(query) }, config)
+
+    case 'map':
+      return applyEncodingOverrides({
+        ...spec,
+        ...pointMapSpec({
+          longitude: { field: CHART_FIELDS.x, type: 'quantitative', title: query.x.title },
+          latitude: { field: CHART_FIELDS.y, type: 'quantitative', title: query.y.title },
+          ...(color ? { color } : {}),
+          tooltip: tooltip(x, y, color)
+        })
+      }, config)
+
+    case 'pie':
+    case 'donut':
+      spec.mark = { type: 'arc', innerRadius: query.type === 'donut' ? DONUT_INNER_RADIUS : 0 }
+      spec.encoding = { theta: y, color: { ...x, type: 'nominal' }, tooltip: tooltip(x, y) }
+      return applyEncodingOverrides(spec, config)
+
+    case 'heatmap': {
+      const value = query.value && { field: CHART_FIELDS.value, type: query.value.type, title: query.value.title }
+      spec.mark = 'rect'
+      spec.encoding = { x, y, color: value, tooltip: tooltip(x, y, value) }
+      if (query.xBinned) {
+        x.bin = { binned: true }
+        spec.encoding.x2 = { field: CHART_FIELDS.xEnd }
+      } else if (x.type !== 'temporal') {
+        x.type = 'ordinal'
+      }
+      if (query.yBinned) {
+        y.bin = { binned: true }
+        spec.encoding.y2 = { field: CHART_FIELDS.yEnd }
+      } else if (y.type !== 'temporal') {
+        y.type = 'ordinal'
+      }
+      return applyEncodingOverrides(spec, config)
+    }
+  }
+
+  spec.mark = query.type === 'line' || query.type === 'area' ? query.type : query.type === 'scatter' ? 'point' : 'bar'
+  spec.encoding = { x, y }
+  if (query.xBinned) {
+    x.bin = { binned: true }
+    spec.encoding.x2 = { field: CHART_FIELDS.xEnd }
+  }
+  if (color) {
+    spec.encoding.color = color
+    if (query.type === 'grouped-bar') spec.encoding.xOffset = color
+    if (query.type === 'stacked-bar') y.stack = 'zero'
+  }
+
+  spec.encoding.tooltip = [
+    { ...tooltip(x)[0], title: query.xBinned ? `${query.x.title} from` : query.x.title },
+    ...(query.xBinned ? [{ field: CHART_FIELDS.xEnd, type: query.x.type, title: 'to' }] : []),
+    ...tooltip(color, y)
+  ]
+  return applyEncodingOverrides(spec, config)
+}
+
+// What the chart's y (or cell value) shows, for the PDF's chart table
+export function describeChartMeasure(config: ChartConfig, data: any[], schema?: Column[]): { yField: string; aggregate?: string } {
+  const { type, yField, colorField, encodings } = config
+  const numeric = (field?: string) => !!field && fieldTypeFor(schema, data, field) === 'quantitative'
+  const summarize = (field: string | undefined, channel: ChartChannel) => {
+    const resolved = resolveMeasure(field, numeric(field), encodings?.[channel]?.aggregate)
+    return { yField: resolved.field ?? '(count)', aggregate: resolved.aggregate }
+  }
+  switch (type) {
+    case 'line':
+    case 'area':
+    case 'scatter':
+      return yField && !encodings?.y?.aggregate ? { yField } : summarize(yField, 'y')
+    case 'histogram':
+      return { yField: '(count)', aggregate: 'count' }
+    case 'heatmap':
+      return { yField: yField ?? '', aggregate: summarize(colorField, 'color').aggregate }
+    case 'boxplot':
+      return { yField: '(distribution)' }
+    case 'grouped-boxplot':
+    case 'map':
+      return { yField: yField ?? '' }
+    default:
+      return summarize(yField, 'y')
+  }
+}
@@ -0,0 +1,192 @@
+import { describe, it, expect } from 'vitest'
+import type { Column } from '../types'
+import { buildChartQuery, buildDescribeSQL, clampBinCount, schemaFromDescribe } from './chartSql'
+
+const schema: Column[] = [
+  { name: 'region', type: 'VARCHAR', nullable: true },
+  { name: 'amount', type: 'DECIMAL(10,2)', nullable: true },
+  { name: 'sold at', type: 'TIMESTAMP', nullable: true },
+  { name: 'day', type: 'DATE', nullable: true },
+  { name: 'qty', type: 'INTEGER', nullable: true }
+]
+
+const SQL = 'SELECT * FROM sales;'
+
+describe('buildChartQuery', () => {
+  it('should group bar charts by x and sum a numeric y', () => {
+    const query = buildChartQuery(SQL, { type: 'bar', xField: 'region', yField: 'amount' }, schema)
+    expect(query?.sql).toBe([
+      'WITH chart_source AS (\nSELECT * FROM sales\n)',
+      'SELECT region AS x, sum(amount)::DOUBLE AS y',
+      'FROM chart_source',
+      'GROUP BY ALL',
+      'ORDER BY ALL',
+      'LIMIT 5001'
+    ].join('\n'))
+    expect(query).toMatchObject({
+      type: 'bar',
+      xBinned: false,
+      sampled: false,
+      x: { title: 'region', type: 'nominal' },
+      y: { title: 'Sum of amount', type: 'quantitative' }
+    })
+  })
+
+  it('should count rows when y is missing or not numeric', () => {
+    const query = buildChartQuery(SQL, { type: 'line', xField: 'qty', yField: 'region' }, schema)
+    expect(query?.sql).toContain('SELECT qty AS x, count(*) AS y')
+    expect(query?.type).toBe('line')
+    expect(query?.y.title).toBe('Count of Records')
+  })
+
+  it('should add the color field to the grouping', () => {
+    const query = buildChartQuery(SQL, { type: 'bar', xField: 'qty', yField: 'amount', colorField: 'region' }, schema)
+    expect(query?.sql).toContain('SELECT qty AS x, region AS color, sum(amount)::DOUBLE AS y')
+    expect(query?.color).toEqual({ title: 'region', type: 'nominal' })
+  })
+
+  it('should bucket timestamps with date_trunc', () => {
+    const query = buildChartQuery(SQL, { type: 'line', xField: 'sold at', yField: 'qty', timeUnit: 'month' }, schema)
+    expect(query?.sql).toContain(`SELECT date_trunc('month', "sold at") AS x, sum(qty)::DOUBLE AS y`)
+    expect(query?.x).toEqual({ title: 'sold at (month)', type: 'temporal' })
+  })
+
+  it('should pick the time unit from the span of the column by default', () => {
+    const query = buildChartQuery(SQL, { type: 'bar', xField: 'sold at' }, schema)
+    expect(query?.sql).toContain('chart_x_time AS (')
+    expect(query?.sql).toContain(`epoch(max("sold at")) - epoch(min("sold at"))`)
+    expect(query?.sql).toContain(`ELSE 'minute'`)
+    expect(query?.sql).toContain('date_trunc(chart_x_time.unit, "sold at") AS x')
+    expect(query?.sql).toContain('FROM chart_source, chart_x_time')
+
+    // Dates stop at whole days
+    const dates = buildChartQuery(SQL, { type: 'bar', xField: 'day' }, schema)
+    expect(dates?.sql).toContain(`ELSE 'day'`)
+    expect(dates?.sql).not.toContain(`'hour'`)
+  })
+
+  it('should bin numeric histograms into equal-width buckets', () => {
+    const query = buildChartQuery(SQL, { type: 'histogram', xField: 'amount', bins: 10 }, schema)
+    expect(query?.sql).toContain('THEN (max(amount) - min(amount))::DOUBLE / 10 ELSE 1 END AS step')
+    const bucket = 'least(floor((amount - chart_x_bins.lo) / chart_x_bins.step), 9)'
+    expect(query?.sql).toContain(`chart_x_bins.lo + ${bucket} * chart_x_bins.step AS x`)
+    expect(query?.sql).toContain(`chart_x_bins.lo + (${bucket} + 1) * chart_x_bins.step AS x_end`)
+    expect(query?.sql).toContain('WHERE amount IS NOT NULL')
+    expect(query?.sql).toContain('count(*) AS y')
+    expect(query).toMatchObject({ xBinned: true, x: { type: 'quantitative' } })
+  })
+
+  it('should sample scatter plots instead of aggregating them', () => {
+    const query = buildChartQuery(SQL, { type: 'scatter', xField: 'qty', yField: 'amount' }, schema)
+    expect(query?.sql).toBe([
+      'WITH chart_source AS (\nSELECT * FROM sales\n)',
+      'SELECT qty AS x, amount AS y',
+      'FROM chart_source',
+      'USING SAMPLE 5000 ROWS'
+    ].join('\n'))
+    expect(query).toMatchObject({ type: 'scatter', sampled: true })
+  })
+
+  it('should group pie slices by category and ignore the color field', () => {
+    const query = buildChartQuery(SQL, { type: 'donut', xField: 'region', yField: 'qty', colorField: 'day' }, schema)
+    expect(query?.sql).toContain('SELECT region AS x, sum(qty)::DOUBLE AS y')
+    expect(query?.color).toBeUndefined()
+  })
+
+  it('should group heatmap cells by both axes and shade them by the color field', () => {
+    const query = buildChartQuery(SQL, { type: 'heatmap', xField: 'region', yField: 'qty', colorField: 'amount', bins: 5 }, schema)
+    expect(query?.sql).toContain('SELECT region AS x, chart_y_bins.lo + ')
+    expect(query?.sql).toContain('AS y_end, sum(amount)::DOUBLE AS value')
+    expect(query).toMatchObject({ xBinned: false, yBinned: true, value: { title: 'Sum of amount' } })
+    expect(query?.color).toBeUndefined()
+
+    expect(buildChartQuery(SQL, { type: 'heatmap', xField: 'region' }, schema)).toBeNull()
+  })
+
+  it('should compute box plot statistics per group', () => {
+    const query = buildChartQuery(SQL, { type: 'grouped-boxplot', xField: 'region', yField: 'amount' }, schema)
+    expect(query?.sql).toContain('SELECT region AS x, amount::DOUBLE AS value')
+    expect(query?.sql).toContain('quantile_cont(value, 0.25) AS q1, median(value) AS median, quantile_cont(value, 0.75) AS q3')
+    expect(query?.sql).toContain('min(value) FILTER (WHERE value >= q1 - 1.5 * (q3 - q1)) AS lower')
+    expect(query?.sql).toContain('JOIN chart_quartiles ON chart_values.x IS NOT DISTINCT FROM chart_quartiles.x')
+    expect(query).toMatchObject({ x: { title: 'region' }, y: { title: 'amount', type: 'quantitative' } })
+
+    const single = buildChartQuery(SQL, { type: 'boxplot', xField: 'qty' }, schema)
+    expect(single?.sql).toContain('SELECT qty::DOUBLE AS value')
+    expect(single?.sql).toContain('FROM chart_values, chart_quartiles')
+
+    // Box plots need a numeric value
+    expect(buildChartQuery(SQL, { type: 'boxplot', xField: 'region' }, schema)).toBeNull()
+  })
+
+  it('should sample map points that have both coordinates', () => {
+    const geo: Column[] = [...schema, { name: 'lon', type: 'DOUBLE', nullable: true }, { name: 'lat', type: 'DOUBLE', nullable: true }]
+    const query = buildChartQuery(SQL, { type: 'map', xField: 'lon', yField: 'lat', colorField: 'region' }, geo)
+    expect(query?.sql).toContain('SELECT lon AS x, lat AS y, region AS color')
+    expect(query?.sql).toContain('WHERE lon IS NOT NULL AND lat IS NOT NULL\nUSING SAMPLE 5000 ROWS')
+    expect(query?.sampled).toBe(true)
+
+    expect(buildChartQuery(SQL, { type: 'map', xField: 'lon' }, geo)).toBeNull()
+  })
+
+  it('should aggregate the measure as overridden', () => {
+    const mean = buildChartQuery(SQL, { type: 'bar', xField: 'region', yField: 'amount', encodings: { y: { aggregate: 'mean' } } }, schema)
+    expect(mean?.sql).toContain('avg(amount)::DOUBLE AS y')
+    expect(mean?.y.title).toBe('Mean of amount')
+
+    const distinct = buildChartQuery(SQL, { type: 'bar', xField: 'qty', yField: 'region', encodings: { y: { aggregate: 'distinct' } } }, schema)
+    expect(distinct?.sql).toContain('count(DISTINCT region) AS y')
+
+    // Sums need numbers, so text is still counted
+    const sum = buildChartQuery(SQL, { type: 'bar', xField: 'qty', yField: 'region', encodings: { y: { aggregate: 'sum' } } }, schema)
+    expect(sum?.sql).toContain('count(*) AS y')
+
+    const heatmap = buildChartQuery(SQL, {
+      type: 'heatmap', xField: 'region', yField: 'day', colorField: 'amount', encodings: { color: { aggregate: 'max' } }
+    }, schema)
+    expect(heatmap?.sql).toContain('max(amount)::DOUBLE AS value')
+  })
+
+  it('should group discrete overrides by their raw values', () => {
+    const dates = buildChartQuery(SQL, { type: 'bar', xField: 'day', encodings: { x: { type: 'ordinal' } } }, schema)
+    expect(dates?.sql).toContain('SELECT day AS x, count(*) AS y')
+    expect(dates?.sql).not.toContain('date_trunc')
+    expect(dates?.x).toEqual({ title: 'day', type: 'ordinal' })
+
+    const numbers = buildChartQuery(SQL, { type: 'histogram', xField: 'qty', encodings: { x: { type: 'nominal' } } }, schema)
+    expect(numbers?.sql).not.toContain('chart_x_bins')
+    expect(numbers?.xBinned).toBe(false)
+  })
+
+  it('should leave charts the query cannot be wrapped for to the loaded rows', () => {
+    expect(buildChartQuery('CREATE TABLE t AS SELECT 1', { type: 'bar', xField: 'region' }, schema)).toBeNull()
+    expect(buildChartQuery('SELECT 1; SELECT 2', { type: 'bar', xField: 'region' }, schema)).toBeNull()
+    expect(buildChartQuery(SQL, { type: 'bar', xField: 'missing' }, schema)).toBeNull()
+    expect(buildChartQuery(SQL, { type: 'bar', xField: 'region', yField: 'gone' }, schema)).toBeNull()
+    expect(buildChartQuery(SQL, { type: 'bar', xField: 'region' }, undefined)).toBeNull()
+  })
+
+  it('should keep bin counts in range', () => {
+    expect(clampBinCount(undefined)).toBe(20)
+    expect(clampBinCount(1)).toBe(2)
+    expect(clampBinCount(1000)).toBe(200)
+    expect(clampBinCount(NaN)).toBe(20)
+  })
+})
+
+describe('query schema', () => {
+  it('should describe single statements only', () => {
+    expect(buildDescribeSQL('SELECT 1 AS a;')).toBe('DESCRIBE SELECT * FROM (SELECT 1 AS a\n)')
+    expect(buildDescribeSQL('DROP TABLE t')).toBeNull()
+  })
+
+  it('should read columns from DESCRIBE rows', () => {
+    expect(schemaFromDescribe([
+      { column_name: 'a', column_type: 'INTEGER', null: 'YES' },
+      { column_name: 'b', column_type: 'VARCHAR', null: 'NO' }
+    ])).toEqual([
+      { name: 'a', type: 'INTEGER', nullable: true },
+      { name: 'b', type: 'VARCHAR', nullable: false }
+    ])
+  })
+})
@@ -0,0 +1,305 @@
+// Chart aggregation pushed down into DuckDB: the chart's query is wrapped in a GROUP BY,
+// width buckets or date_trunc time buckets so only the aggregated rows reach Vega-Lite
+
+import type { ChartAggregate, ChartConfig, ChartTimeUnit, ChartType, Column } from '../types'
+import { CHART_TYPES, resolveMeasure } from './chartTypes'
+import { fieldTypeFor, findColumnType, isNumericType, isTemporalType, type VegaFieldType } from './columnTypes'
+import { viewBodyFor } from './databaseFile'
+import { quoteIdentifier } from './sqlContext'
+
+export const CHART_TIME_UNITS: ChartTimeUnit[] = ['auto', 'year', 'quarter', 'month', 'week', 'day', 'hour', 'minute']
+
+export const DEFAULT_BIN_COUNT = 20
+export const MAX_BIN_COUNT = 200
+
+// Aggregated rows a chart draws; scatter plots and maps sample this many points
+export const CHART_GROUP_LIMIT = 5_000
+
+// Output columns of a chart query
+export const CHART_FIELDS = {
+  x: 'x',
+  xEnd: 'x_end',
+  y: 'y',
+  yEnd: 'y_end',
+  color: 'color',
+  value: 'value', // Heatmap cell measure
+  lower: 'lower', // Box plot whiskers, quartiles and row count
+  q1: 'q1',
+  median: 'median',
+  q3: 'q3',
+  upper: 'upper',
+  count: 'count'
+} as const
+
+export interface ChartEncodingInfo {
+  title: string
+  type: VegaFieldType
+}
+
+export interface ChartQuery {
+  sql: string
+  type: ChartType
+  x: ChartEncodingInfo // Box plots: the group, or the value for a single box
+  xBinned: boolean // Rows carry bin edges in x and x_end
+  y: ChartEncodingInfo // Box plots by group: the value
+  yBinned: boolean // Heatmap rows carry bin edges in y and y_end
+  color?: ChartEncodingInfo
+  value?: ChartEncodingInfo
+  sampled: boolean // Rows are a sample of the result rather than aggregates
+  limit: number // Rows past the limit are cut off; one extra is fetched to detect it
+}
+
+interface SqlParts {
+  ctes: string[]
+  from: string[]
+  where: string[]
+  select: string[]
+}
+
+const MEASURE_SQL: Record<ChartAggregate, (column: string) => string> = {
+  sum: column => `sum(${column})::DOUBLE`,
+  mean: column => `avg(${column})::DOUBLE`,
+  median: column => `median(${column})::DOUBLE`,
+  min: column => `min(${column})`,
+  max: column => `max(${column})`,
+  count: () => 'count(*)',
+  distinct: column => `count(DISTINCT ${column})`
+}
+
+const SECONDS_PER_DAY = 86_400
+const SECONDS_PER_YEAR = 365 * SECONDS_PER_DAY
+
+export function clampBinCount(bins: number | undefined): number {
+  return Math.max(2, Math.min(MAX_BIN_COUNT, Math.round(bins ?? DEFAULT_BIN_COUNT) || DEFAULT_BIN_COUNT))
+}
+
+// Time unit picked from the span of the column, so about 20-400 buckets are drawn;
+// dates are never split below a day
+function autoTimeUnitSQL(field: string, isDate: boolean): string {
+  const fine = isDate ? ["ELSE 'day'"] : [`WHEN span > 3 * ${SECONDS_PER_DAY} THEN 'day'`, "WHEN span > 6 * 3600 THEN 'hour'", "ELSE 'minute'"]
+  return [
+    'SELECT CASE',
+    `    WHEN span > 20 * ${SECONDS_PER_YEAR} THEN 'year'`,
+    `    WHEN span > 5 * ${SECONDS_PER_YEAR} THEN 'quarter'`,
+    `    WHEN span > ${SECONDS_PER_YEAR} THEN 'month'`,
+    `    WHEN span > 90 * ${SECONDS_PER_DAY} THEN 'week'`,
+    ...fine.map(line => `    ${line}`),
+    '  END AS unit',
+    `  FROM (SELECT epoch(max(${field})) - epoch(min(${field})) AS span FROM chart_source)`
+  ].join('\n')
+}
+
+function binBoundsSQL(field: string, bins: number): string {
+  return [
+    `SELECT min(${field})::DOUBLE AS lo,`,
+    `    CASE WHEN max(${field}) > min(${field}) THEN (max(${field}) - min(${field}))::DOUBLE / ${bins} ELSE 1 END AS step`,
+    '  FROM chart_source'
+  ].join('\n')
+}
+
+// Grouping column for a field: time buckets for dates and timestamps, equal-width buckets
+// for binned numbers, otherwise the raw value; fields overridden as discrete are never bucketed
+function addDimension(
+  parts: SqlParts,
+  field: string,
+  alias: 'x' | 'y',
+  schema: Column[],
+  config: ChartConfig,
+  bin: boolean
+): { info: ChartEncodingInfo; binned: boolean } {
+  const type = findColumnType(schema, field) ?? ''
+  const column = quoteIdentifier(field)
+  const override = config.encodings?.[alias]?.type
+  const discrete = override === 'nominal' || override === 'ordinal'
+  if (isTemporalType(type) && !discrete) {
+    // 'auto' picks the unit in SQL from the span of the column
+    const unit = config.timeUnit ?? 'auto'
+    if (unit === 'auto') {
+      const cte = `chart_${alias}_time`
+      parts.ctes.push(`${cte} AS (\n  ${autoTimeUnitSQL(column, type.toUpperCase() === 'DATE')}\n)`)
+      parts.from.push(cte)
+      parts.select.push(`date_trunc(${cte}.unit, ${column}) AS ${alias}`)
+    } else {
+      parts.select.push(`date_trunc('${unit}', ${column}) AS ${alias}`)
+    }
+    return { info: { title: unit === 'auto' ? field : `${field} (${unit})`, type: 'temporal' }, binned: false }
+  }
+  if (bin && isNumericType(type) && !discrete) {
+    // The column's max falls in the last bucket
+    const bins = clampBinCount(config.bins)
+    const cte = `chart_${alias}_bins`
+    const bucket = `least(floor((${column} - ${cte}.lo) / ${cte}.step), ${bins - 1})`
+    parts.ctes.push(`${cte} AS (\n  ${binBoundsSQL(column, bins)}\n)`)
+    parts.from.push(cte)
+    parts.where.push(`${column} IS NOT NULL`)
+    parts.select.push(
+      `${cte}.lo + ${bucket} * ${cte}.step AS ${alias}`,
+      `${cte}.lo + (${bucket} + 1) * ${cte}.step AS ${alias}_end`
+    )
+    return { info: { title: `${field} (binned)`, type: 'quantitative' }, binned: true }
+  }
+  parts.select.push(`${column} AS ${alias}`)
+  return { info: { title: field, type: override ?? fieldTypeFor(schema, [], field) }, binned: false }
+}
+
+// Aggregated measure, resolved as the client-side spec resolves it
+function measure(
+  field: string | undefined,
+  schema: Column[],
+  aggregate?: ChartAggregate
+): { sql: string; info: ChartEncodingInfo } {
+  const numeric = !!field && isNumericType(findColumnType(schema, field) ?? '')
+  const resolved = resolveMeasure(field, numeric, aggregate)
+  if (!resolved.field) return { sql: MEASURE_SQL.count('*'), info: { title: resolved.title, type: 'quantitative' } }
+  const sql = MEASURE_SQL[resolved.aggregate](quoteIdentifier(resolved.field))
+  // Min and max keep the field's own type; numbers are read as doubles
+  const extreme = resolved.aggregate === 'min' || resolved.aggregate === 'max'
+  return {
+    sql: extreme && numeric ? `${sql}::DOUBLE` : sql,
+    info: { title: resolved.title, type: extreme ? fieldTypeFor(schema, [], resolved.field) : 'quantitative' }
+  }
+}
+
+// Tukey box plot statistics per group: quartiles, whiskers at the furthest values within
+// 1.5 IQR of the box, and the row count
+function boxPlotSQL(parts: SqlParts, value: string, grouped: boolean, limit: number): string {
+  const x = grouped ? ['chart_quartiles.x'] : []
+  const ctes = [
+    ...parts.ctes,
+    [
+      'chart_values AS (',
+      `  SELECT ${[...parts.select, `${value}::DOUBLE AS value`].join(', ')}`,
+      `  FROM ${parts.from.join(', ')}`,
+      `  WHERE ${[...parts.where, `${value} IS NOT NULL`].join(' AND ')}`,
+      ')'
+    ].join('\n'),
+    [
+      'chart_quartiles AS (',
+      `  SELECT ${[...(grouped ? ['x'] : []), 'quantile_cont(value, 0.25) AS q1', 'median(value) AS median', 'quantile_cont(value, 0.75) AS q3'].join(', ')}`,
+      '  FROM chart_values',
+      '  GROUP BY ALL',
+      ')'
+    ].join('\n')
+  ]
+  return [
+    `WITH ${ctes.join(', ')}`,
+    `SELECT ${[
+      ...x.map(column => `${column} AS x`),
+      'min(value) FILTER (WHERE value >= q1 - 1.5 * (q3 - q1)) AS lower',
+      'q1',
+      'median',
+      'q3',
+      'max(value) FILTER (WHERE value <= q3 + 1.5 * (q3 - q1)) AS upper',
+      'count(*) AS count'
+    ].join(', ')}`,
+    grouped
+      ? 'FROM chart_values JOIN chart_quartiles ON chart_values.x IS NOT DISTINCT FROM chart_quartiles.x'
+      : 'FROM chart_values, chart_quartiles',
+    'GROUP BY ALL',
+    'ORDER BY ALL',
+    `LIMIT ${limit + 1}`
+  ].join('\n')
+}
+
+// Aggregation query for a chart over the result of `sql`, or null when the chart is drawn from
+// the loaded rows instead: the SQL is not a single SELECT, the fields are not in its result or
+// the chart type cannot be aggregated over them
+export function buildChartQuery(sql: string, config: ChartConfig, schema: Column[] | undefined): ChartQuery | null {
+  const body = viewBodyFor(sql)
+  const { type, xField } = config
+  const typeInfo = CHART_TYPES[type]
+  const yField = typeInfo.yLabel ? config.yField : undefined
+  const colorField = typeInfo.colorLabel ? config.colorField : undefined
+  if (!body || !xField || !schema?.length || (typeInfo.requiresY && !yField)) return null
+  const known = (field: string | undefined) => !field || schema.some(column => column.name === field)
+  if (!known(xField) || !known(yField) || !known(colorField)) return null
+
+  const parts: SqlParts = { ctes: [`chart_source AS (\n${body}\n)`], from: ['chart_source'], where: [], select: [] }
+  const limit = CHART_GROUP_LIMIT
+  const numeric = (field: string) => isNumericType(findColumnType(schema, field) ?? '')
+  const raw = (field: string): ChartEncodingInfo => ({ title: field, type: fieldTypeFor(schema, [], field) })
+  const query = { type, xBinned: false, yBinned: false, sampled: false, limit }
+
+  if (type === 'boxplot' || type === 'grouped-boxplot') {
+    const grouped = type === 'grouped-boxplot'
+    const valueField = grouped ? yField : xField
+    if (!valueField || !numeric(valueField)) return null
+    const value: ChartEncodingInfo = { title: valueField, type: 'quantitative' }
+    const group = grouped ? addDimension(parts, xField, 'x', schema, config, false).info : value
+    return { ...query, sql: boxPlotSQL(parts, quoteIdentifier(valueField), grouped, limit), x: group, y: value }
+  }
+
+  const color = colorField && colorField !== xField && colorField !== yField && type !== 'heatmap' ? colorField : undefined
+
+  // Points are sampled rather than aggregated
+  if ((type === 'scatter' || type === 'map') && yField) {
+    parts.select.push(`${quoteIdentifier(xField)} AS x`, `${quoteIdentifier(yField)} AS y`)
+    if (color) parts.select.push(`${quoteIdentifier(color)} AS color`)
+    const where = type === 'map' ? [`${quoteIdentifier(xField)} IS NOT NULL`, `${quoteIdentifier(yField)} IS NOT NULL`] : []
+    return {
+      ...query,
+      sql: [
+        `WITH ${parts.ctes.join(', ')}`,
+        `SELECT ${parts.select.join(', ')}`,
+        `FROM ${parts.from.join(', ')}${where.length > 0 ? `\nWHERE ${where.join(' AND ')}` : ''}`,
+        `USING SAMPLE ${limit} ROWS`
+      ].join('\n'),
+      x: raw(xField),
+      y: raw(yField),
+      color: color ? raw(color) : undefined,
+      sampled: true
+    }
+  }
+
+  const x = addDimension(parts, xField, 'x', schema, config, type === 'histogram' || type === 'heatmap')
+  let y: ChartEncodingInfo
+  let yBinned = false
+  let value: ChartEncodingInfo | undefined
+  if (type === 'heatmap' && yField) {
+    // Cells are grouped by both axes and shaded by the color field
+    const dimension = addDimension(parts, yField, 'y', schema, config, true)
+    y = dimension.info
+    yBinned = dimension.binned
+    const cell = measure(colorField, schema, config.encodings?.color?.aggregate)
+    parts.select.push(`${cell.sql} AS value`)
+    value = cell.info
+  } else {
+    if (color) parts.select.push(`${quoteIdentifier(color)} AS color`)
+    const total = measure(yField, schema, config.encodings?.y?.aggregate)
+    parts.select.push(`${total.sql} AS y`)
+    y = total.info
+  }
+
+  const lines = [
+    `WITH ${parts.ctes.join(', ')}`,
+    `SELECT ${parts.select.join(', ')}`,
+    `FROM ${parts.from.join(', ')}`
+  ]
+  if (parts.where.length > 0) lines.push(`WHERE ${parts.where.join(' AND ')}`)
+  lines.push('GROUP BY ALL', 'ORDER BY ALL', `LIMIT ${limit + 1}`)
+
+  return {
+    ...query,
+    sql: lines.join('\n'),
+    x: x.info,
+    xBinned: x.binned,
+    y,
+    yBinned,
+    color: color ? raw(color) : undefined,
+    value
+  }
+}
+
+// Column names and types of a query's result, for charts over queries that have not been run
+export function buildDescribeSQL(sql: string): string | null {
+  const body = viewBodyFor(sql)
+  return body ? `DESCRIBE SELECT * FROM (${body}\n)` : null
+}
+
+export function schemaFromDescribe(rows: any[]): Column[] {
+  return rows.map(row => ({
+    name: String(row.column_name),
+    type: String(row.column_type),
+    nullable: row.null !== 'NO'
+  }))
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import { CHART_TYPES, guessCoordinateFields, measureChannel, resolveMeasure, setEncodingOverride } from './chartTypes'
+
+describe('chart types', () => {
+  it('should only require a y field where the chart cannot be drawn without one', () => {
+    const required = Object.entries(CHART_TYPES).filter(([, info]) => info.requiresY).map(([type]) => type)
+    expect(required).toEqual(['heatmap', 'grouped-boxplot', 'map'])
+    for (const info of Object.values(CHART_TYPES)) {
+      if (info.requiresY) expect(info.yLabel).not.toBeNull()
+    }
+  })
+
+  it('should guess coordinate columns from their names', () => {
+    expect(guessCoordinateFields(['city', 'lat', 'lng'])).toEqual({ longitude: 'lng', latitude: 'lat' })
+    expect(guessCoordinateFields(['pickup_longitude', 'pickup_latitude'])).toEqual({
+      longitude: 'pickup_longitude',
+      latitude: 'pickup_latitude'
+    })
+    expect(guessCoordinateFields(['Longitude', 'Latitude'])).toEqual({ longitude: 'Longitude', latitude: 'Latitude' })
+    expect(guessCoordinateFields(['category', 'plateau'])).toEqual({ longitude: undefined, latitude: undefined })
+  })
+})
+
+describe('measures', () => {
+  it('should sum numbers and count anything else by default', () => {
+    expect(resolveMeasure('amount', true)).toEqual({ aggregate: 'sum', field: 'amount', title: 'Sum of amount' })
+    expect(resolveMeasure('region', false)).toEqual({ aggregate: 'count', title: 'Count of Records' })
+    expect(resolveMeasure(undefined, false)).toEqual({ aggregate: 'count', title: 'Count of Records' })
+  })
+
+  it('should apply an explicit aggregate only where it fits the field', () => {
+    expect(resolveMeasure('amount', true, 'mean')).toEqual({ aggregate: 'mean', field: 'amount', title: 'Mean of amount' })
+    expect(resolveMeasure('region', false, 'distinct')).toEqual({ aggregate: 'distinct', field: 'region', title: 'Distinct count of region' })
+    expect(resolveMeasure('region', false, 'max').aggregate).toBe('max')
+    expect(resolveMeasure('region', false, 'sum')).toEqual({ aggregate: 'count', title: 'Count of Records' })
+  })
+
+  it('should find the channel holding the measure', () => {
+    expect(measureChannel('bar')).toBe('y')
+    expect(measureChannel('heatmap')).toBe('color')
+    expect(measureChannel('histogram')).toBeNull()
+    expect(measureChannel('map')).toBeNull()
+  })
+})
+
+describe('encoding overrides', () => {
+  it('should set and clear override settings', () => {
+    const sorted = setEncodingOverride(undefined, 'x', 'sort', 'descending')
+    expect(sorted).toEqual({ x: { sort: 'descending' } })
+    const titled = setEncodingOverride(sorted, 'x', 'title', 'Region')
+    expect(titled).toEqual({ x: { sort: 'descending', title: 'Region' } })
+    expect(setEncodingOverride(titled, 'x', 'title', '')).toEqual({ x: { sort: 'descending' } })
+    expect(setEncodingOverride(sorted, 'x', 'sort', undefined)).toEqual({})
+  })
+})
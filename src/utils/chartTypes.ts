@@ -0,0 +1,102 @@
+// Chart types offered by the chart builder and what each one reads its fields as
+
+import type {
+  ChartAggregate,
+  ChartChannel,
+  ChartEncodings,
+  ChartScaleType,
+  ChartSort,
+  ChartType,
+  EncodingOverride
+} from '../types'
+
+export interface ChartTypeInfo {
+  label: string
+  xLabel: string
+  yLabel: string | null // null when the chart has no y field
+  colorLabel: string | null // null when the chart has no color field
+  requiresY: boolean
+}
+
+export const CHART_TYPES: Record<ChartType, ChartTypeInfo> = {
+  bar: { label: 'Bar Chart', xLabel: 'X Field', yLabel: 'Y Field', colorLabel: 'Color Field (Optional)', requiresY: false },
+  'stacked-bar': { label: 'Stacked Bar Chart', xLabel: 'X Field', yLabel: 'Y Field', colorLabel: 'Stack By', requiresY: false },
+  'grouped-bar': { label: 'Grouped Bar Chart', xLabel: 'X Field', yLabel: 'Y Field', colorLabel: 'Group By', requiresY: false },
+  line: { label: 'Line Chart', xLabel: 'X Field', yLabel: 'Y Field', colorLabel: 'Color Field (Optional)', requiresY: false },
+  area: { label: 'Area Chart', xLabel: 'X Field', yLabel: 'Y Field', colorLabel: 'Stack By (Optional)', requiresY: false },
+  scatter: { label: 'Scatter Plot', xLabel: 'X Field', yLabel: 'Y Field', colorLabel: 'Color Field (Optional)', requiresY: false },
+  histogram: { label: 'Histogram', xLabel: 'X Field', yLabel: null, colorLabel: 'Color Field (Optional)', requiresY: false },
+  pie: { label: 'Pie Chart', xLabel: 'Category', yLabel: 'Value (Optional)', colorLabel: null, requiresY: false },
+  donut: { label: 'Donut Chart', xLabel: 'Category', yLabel: 'Value (Optional)', colorLabel: null, requiresY: false },
+  heatmap: { label: 'Heatmap', xLabel: 'X Field', yLabel: 'Y Field', colorLabel: 'Value Field (Optional)', requiresY: true },
+  boxplot: { label: 'Box Plot', xLabel: 'Value Field', yLabel: null, colorLabel: null, requiresY: false },
+  'grouped-boxplot': { label: 'Box Plot by Group', xLabel: 'Group Field', yLabel: 'Value Field', colorLabel: null, requiresY: true },
+  map: { label: 'Point Map', xLabel: 'Longitude', yLabel: 'Latitude', colorLabel: 'Color Field (Optional)', requiresY: true }
+}
+
+const LONGITUDE_NAME = /^(lon|lng|long|longitude|x)$|(^|_)(lon|lng|longitude)$/i
+const LATITUDE_NAME = /^(lat|latitude|y)$|(^|_)(lat|latitude)$/i
+
+// Longitude and latitude columns guessed from their names, for point maps
+export function guessCoordinateFields(columns: string[]): { longitude?: string; latitude?: string } {
+  return {
+    longitude: columns.find(column => LONGITUDE_NAME.test(column)),
+    latitude: columns.find(column => LATITUDE_NAME.test(column))
+  }
+}
+
+export const CHART_AGGREGATES: Record<ChartAggregate, string> = {
+  sum: 'Sum',
+  mean: 'Mean',
+  median: 'Median',
+  min: 'Min',
+  max: 'Max',
+  count: 'Count',
+  distinct: 'Distinct count'
+}
+
+export const CHART_SORTS: Record<ChartSort, string> = {
+  ascending: 'Ascending',
+  descending: 'Descending',
+  'value-ascending': 'By value, ascending',
+  'value-descending': 'By value, descending'
+}
+
+export const CHART_SCALES: ChartScaleType[] = ['linear', 'log', 'sqrt', 'symlog', 'pow', 'time', 'utc']
+
+const NUMERIC_AGGREGATES: ChartAggregate[] = ['sum', 'mean', 'median']
+
+export interface ChartMeasure {
+  aggregate: ChartAggregate
+  field?: string // Unset when rows are counted
+  title: string
+}
+
+// How a measure field is aggregated: an explicit aggregate where it applies to the field,
+// otherwise numbers are summed and anything else counted
+export function resolveMeasure(field: string | undefined, numeric: boolean, aggregate?: ChartAggregate): ChartMeasure {
+  const chosen = aggregate && (numeric || !NUMERIC_AGGREGATES.includes(aggregate)) ? aggregate : numeric ? 'sum' : 'count'
+  if (!field || chosen === 'count') return { aggregate: 'count', title: 'Count of Records' }
+  return { aggregate: chosen, field, title: `${CHART_AGGREGATES[chosen]} of ${field}` }
+}
+
+// Channel holding the chart's aggregated measure, if its aggregate can be chosen
+export function measureChannel(type: ChartType): ChartChannel | null {
+  if (type === 'heatmap') return 'color'
+  if (type === 'histogram' || type === 'boxplot' || type === 'grouped-boxplot' || type === 'map') return null
+  return 'y'
+}
+
+// Set or clear one override setting; channels left without settings are removed
+export function setEncodingOverride<K extends keyof EncodingOverride>(
+  encodings: ChartEncodings | undefined,
+  channel: ChartChannel,
+  key: K,
+  value: EncodingOverride[K] | undefined
+): ChartEncodings {
+  const override: EncodingOverride = { ...encodings?.[channel], [key]: value }
+  if (value === undefined || value === '') delete override[key]
+  const next: ChartEncodings = { ...encodings, [channel]: override }
+  if (Object.keys(override).length === 0) delete next[channel]
+  return next
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest'
+import { fieldTypeFor, formatValue, isNumericType, isTemporalType } from './columnTypes'
+
+describe('column type helpers', () => {
+  it('should classify DuckDB types', () => {
+    expect(isNumericType('BIGINT')).toBe(true)
+    expect(isNumericType('UINTEGER')).toBe(true)
+    expect(isNumericType('DECIMAL(18,3)')).toBe(true)
+    expect(isNumericType('VARCHAR')).toBe(false)
+    expect(isTemporalType('TIMESTAMP WITH TIME ZONE')).toBe(true)
+    expect(isTemporalType('TIME')).toBe(false)
+  })
+
+  it('should prefer the schema over sampled values', () => {
+    const schema = [
+      { name: 'zip', type: 'VARCHAR', nullable: true },
+      { name: 'day', type: 'DATE', nullable: true },
+      { name: 'total', type: 'BIGINT', nullable: true }
+    ]
+    const rows = [{ zip: '02139', day: '2024-01-01', total: '9007199254740993' }]
+    expect(fieldTypeFor(schema, rows, 'zip')).toBe('nominal')
+    expect(fieldTypeFor(schema, rows, 'day')).toBe('temporal')
+    expect(fieldTypeFor(schema, rows, 'total')).toBe('quantitative')
+  })
+
+  it('should sample values when no schema is available', () => {
+    const rows = [{ a: 1, b: 'x' }, { a: 2, b: 'y' }]
+    expect(fieldTypeFor(undefined, rows, 'a')).toBe('quantitative')
+    expect(fieldTypeFor(undefined, rows, 'b')).toBe('ordinal')
+    expect(fieldTypeFor(undefined, [], 'a')).toBe('nominal')
+  })
+
+  it('should format values for display', () => {
+    expect(formatValue(null)).toBe('NULL')
+    expect(formatValue(0)).toBe('0')
+    expect(formatValue(false)).toBe('false')
+    expect(formatValue([1, 2])).toBe('[1,2]')
+  })
+})
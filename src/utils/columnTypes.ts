@@ -0,0 +1,47 @@
+// Helpers for working with the DuckDB column types reported alongside query results
+
+import type { Column } from '../types'
+
+export type VegaFieldType = 'quantitative' | 'ordinal' | 'nominal' | 'temporal'
+
+const NUMERIC_TYPE = /^(U?(TINYINT|SMALLINT|INTEGER|BIGINT|HUGEINT)|FLOAT|DOUBLE|REAL|DECIMAL(\(\d+,\s*\d+\))?)$/i
+const TEMPORAL_TYPE = /^(DATE|TIMESTAMP( WITH TIME ZONE)?)$/i
+
+export function isNumericType(type: string): boolean {
+  return NUMERIC_TYPE.test(type.trim())
+}
+
+export function isTemporalType(type: string): boolean {
+  return TEMPORAL_TYPE.test(type.trim())
+}
+
+export function findColumnType(schema: Column[] | undefined, field: string): string | undefined {
+  const type = schema?.find(column => column.name === field)?.type
+  return type && type !== 'UNKNOWN' ? type : undefined
+}
+
+// Guess a Vega-Lite type from sampled values (results without a schema, e.g. older bundles)
+function sampleFieldType(rows: any[], field: string): VegaFieldType {
+  if (!rows || rows.length === 0) return 'nominal'
+  const sample = rows.slice(0, 10).map(row => row[field]).filter(v => v !== null && v !== undefined)
+  if (sample.length === 0) return 'nominal'
+  if (sample.every(v => !isNaN(Number(v)) && v !== '')) return 'quantitative'
+  if (sample.every(v => !isNaN(Date.parse(v)))) return 'temporal'
+  return new Set(sample).size <= 10 ? 'ordinal' : 'nominal'
+}
+
+// Vega-Lite encoding type for a result column, preferring the column's DuckDB type
+export function fieldTypeFor(schema: Column[] | undefined, rows: any[], field: string): VegaFieldType {
+  const type = findColumnType(schema, field)
+  if (!type) return sampleFieldType(rows, field)
+  if (isNumericType(type)) return 'quantitative'
+  if (isTemporalType(type)) return 'temporal'
+  return 'nominal'
+}
+
+// Display text for a result value; NULLs are shown explicitly rather than as empty cells
+export function formatValue(value: any): string {
+  if (value === null || value === undefined) return 'NULL'
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
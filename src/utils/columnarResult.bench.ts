@@ -0,0 +1,30 @@
+import { bench, describe } from 'vitest'
+import { Float64, Int32, Int64, Table, Utf8, tableToIPC, vectorFromArray } from 'apache-arrow'
+import { ColumnarResult } from './columnarResult'
+import { convertArrowRow } from '../workers/arrowConvert'
+
+// Compares the two ways a result page can cross the worker boundary: converting to row
+// objects and structured-cloning them, or transferring an Arrow IPC buffer and reading
+// only the cells that are rendered. Run with `npm run bench`
+const ROWS = 50_000
+const VISIBLE_ROWS = 50
+
+const ids = Array.from({ length: ROWS }, (_, i) => i)
+const table = new Table({
+  id: vectorFromArray(ids, new Int32()),
+  big: vectorFromArray(ids.map(i => BigInt(i) * 1000n), new Int64()),
+  score: vectorFromArray(ids.map(i => (i % 7 === 0 ? null : i / 4)), new Float64()),
+  label: vectorFromArray(ids.map(i => `row-${i}`), new Utf8())
+})
+
+describe(`result transfer of ${ROWS} rows`, () => {
+  bench('row objects', () => {
+    structuredClone(table.toArray().map(row => convertArrowRow(row, table.schema.fields)))
+  })
+
+  bench('Arrow IPC', () => {
+    const sent = tableToIPC(table, 'stream')
+    const received = ColumnarResult.fromIPC(structuredClone(sent, { transfer: [sent.buffer] }))
+    for (let row = 0; row < VISIBLE_ROWS; row++) received.getRow(row)
+  })
+})
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import { Float64, Int32, Int64, Table, Utf8, tableToIPC, vectorFromArray } from 'apache-arrow'
+import { ColumnarResult, queryResultTable } from './columnarResult'
+import { convertArrowRow } from '../workers/arrowConvert'
+
+function makeTable(rows: number, offset = 0): Table {
+  const ids = Array.from({ length: rows }, (_, i) => offset + i)
+  return new Table({
+    id: vectorFromArray(ids, new Int32()),
+    big: vectorFromArray(ids.map(i => BigInt(i) * 1000n), new Int64()),
+    score: vectorFromArray(ids.map(i => (i % 7 === 0 ? null : i / 4)), new Float64()),
+    label: vectorFromArray(ids.map(i => `row-${i}`), new Utf8())
+  })
+}
+
+describe('ColumnarResult', () => {
+  it('should read converted values lazily from an IPC stream', () => {
+    const result = ColumnarResult.fromIPC(tableToIPC(makeTable(10), 'stream'))
+
+    expect(result.columns).toEqual(['id', 'big', 'score', 'label'])
+    expect(result.numRows).toBe(10)
+    expect(result.getValue(3, 'big')).toBe(3000)
+    expect(result.getValue(7, 2)).toBeNull()
+    expect(result.getRow(1)).toEqual({ id: 1, big: 1000, score: 0.25, label: 'row-1' })
+    expect(result.getValue(10, 'id')).toBeUndefined()
+  })
+
+  it('should keep the schema of an empty page', () => {
+    const result = ColumnarResult.fromIPC(tableToIPC(makeTable(0), 'stream'))
+    expect(result.numRows).toBe(0)
+    expect(result.columns).toEqual(['id', 'big', 'score', 'label'])
+  })
+
+  it('should append further pages', () => {
+    const first = ColumnarResult.fromIPC(tableToIPC(makeTable(3), 'stream'))
+    const second = ColumnarResult.fromIPC(tableToIPC(makeTable(2, 3), 'stream'))
+    const combined = first.concat(second)
+
+    expect(combined.numRows).toBe(5)
+    expect(combined.toRows().map(row => row.id)).toEqual([0, 1, 2, 3, 4])
+    expect(combined.toRows(2)).toHaveLength(2)
+  })
+
+  it('should wrap row objects behind the same interface', () => {
+    const result = queryResultTable({ data: [{ a: 1 }, { a: null }], columns: ['a'] })
+    expect(result.numRows).toBe(2)
+    expect(result.getValue(0, 'a')).toBe(1)
+    expect(result.getValue(1, 'a')).toBeNull()
+    expect(result.concat(ColumnarResult.fromRows([{ a: 3 }], ['a'])).toRows()).toEqual([{ a: 1 }, { a: null }, { a: 3 }])
+  })
+})
+
+// A result page crosses the worker boundary either as structured-cloned row objects or as a
+// transferred Arrow IPC buffer; both must read back the same values. Timings are compared in
+// columnarResult.bench.ts
+describe('result transfer', () => {
+  const ROWS = 1_000
+
+  it('should transfer the IPC buffer without copying and read the same values', () => {
+    const table = makeTable(ROWS)
+    const cloned = structuredClone(table.toArray().map(row => convertArrowRow(row, table.schema.fields)))
+    const sent = tableToIPC(table, 'stream')
+    const received = ColumnarResult.fromIPC(structuredClone(sent, { transfer: [sent.buffer] }))
+
+    // The sender's buffer is detached by the transfer
+    expect(sent.byteLength).toBe(0)
+    expect(received.numRows).toBe(ROWS)
+    for (const row of [0, 7, ROWS - 1]) {
+      expect(received.getRow(row)).toEqual(cloned[row])
+    }
+  })
+})
@@ -0,0 +1,82 @@
+// Read-only columnar view over a query result.
+// Arrow pages from the worker stay as record batches on the main thread; cell values are
+// converted only when read, so wide or long results never become row objects up front.
+
+import { tableFromIPC, type Table, type Vector } from 'apache-arrow'
+import { fieldConverters, type ValueConverter } from '../workers/arrowConvert'
+import type { QueryResultState } from '../types'
+
+export class ColumnarResult {
+  readonly columns: string[]
+  private readonly table: Table | null
+  private readonly rows: any[] | null
+  private vectors: Array<Vector | null> | null = null
+  private converters: ValueConverter[] | null = null
+
+  private constructor(columns: string[], table: Table | null, rows: any[] | null) {
+    this.columns = columns
+    this.table = table
+    this.rows = rows
+  }
+
+  static fromTable(table: Table): ColumnarResult {
+    return new ColumnarResult(table.schema.fields.map(field => field.name), table, null)
+  }
+
+  static fromIPC(ipc: Uint8Array): ColumnarResult {
+    return ColumnarResult.fromTable(tableFromIPC(ipc))
+  }
+
+  // Wrap row objects (bundles, results restored from JSON) behind the same interface
+  static fromRows(rows: any[], columns: string[]): ColumnarResult {
+    return new ColumnarResult(columns, null, rows)
+  }
+
+  get numRows(): number {
+    return this.table ? this.table.numRows : this.rows!.length
+  }
+
+  getValue(rowIndex: number, column: string | number): any {
+    const columnIndex = typeof column === 'number' ? column : this.columns.indexOf(column)
+    if (columnIndex < 0 || rowIndex < 0 || rowIndex >= this.numRows) return undefined
+
+    if (!this.table) {
+      const value = this.rows![rowIndex]?.[this.columns[columnIndex]]
+      return value === undefined ? null : value
+    }
+
+    if (!this.vectors || !this.converters) {
+      this.vectors = this.columns.map((_, i) => this.table!.getChildAt(i))
+      this.converters = fieldConverters(this.table.schema.fields)
+    }
+    const value = this.vectors[columnIndex]?.get(rowIndex)
+    return value === null || value === undefined ? null : this.converters[columnIndex](value)
+  }
+
+  getRow(rowIndex: number): Record<string, any> {
+    const row: Record<string, any> = {}
+    this.columns.forEach((column, i) => {
+      row[column] = this.getValue(rowIndex, i)
+    })
+    return row
+  }
+
+  toRows(limit: number = this.numRows): any[] {
+    const count = Math.min(limit, this.numRows)
+    if (this.rows) return this.rows.slice(0, count)
+    return Array.from({ length: count }, (_, i) => this.getRow(i))
+  }
+
+  // Append a further page of the same result
+  concat(other: ColumnarResult): ColumnarResult {
+    if (this.table && other.table) {
+      return ColumnarResult.fromTable(this.table.concat(other.table))
+    }
+    return ColumnarResult.fromRows([...this.toRows(), ...other.toRows()], this.columns)
+  }
+}
+
+// The columnar view of a store result, whichever path produced it
+export function queryResultTable(result: Pick<QueryResultState, 'data' | 'columns' | 'table'>): ColumnarResult {
+  return result.table ?? ColumnarResult.fromRows(result.data, result.columns)
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest'
+import { buildChartDataSQL, chartResultFrom, chartSpan, clampGridCols, resizedSpan } from './dashboard'
+
+describe('dashboard layout', () => {
+  it('should keep the grid between one and four columns', () => {
+    expect(clampGridCols(-2)).toBe(1)
+    expect(clampGridCols(NaN)).toBe(2)
+    expect(clampGridCols(3)).toBe(3)
+    expect(clampGridCols(9)).toBe(4)
+  })
+
+  it('should never span a chart past the grid', () => {
+    expect(chartSpan({ width: 3, height: 2 }, 2)).toEqual({ cols: 2, rows: 2 })
+    expect(chartSpan({ width: 0, height: 20 }, 4)).toEqual({ cols: 1, rows: 6 })
+  })
+
+  it('should snap resize drags to whole cells', () => {
+    expect(resizedSpan(1, 260, 300, 4)).toBe(2)
+    expect(resizedSpan(2, -100, 300, 4)).toBe(2)
+    expect(resizedSpan(2, -900, 300, 4)).toBe(1)
+    expect(resizedSpan(1, 5000, 300, 3)).toBe(3)
+  })
+})
+
+describe('chart data', () => {
+  it('should cap the saved query one row past the limit', () => {
+    expect(buildChartDataSQL('SELECT region, sum(amount) FROM sales GROUP BY 1;', 100)).toBe(
+      'SELECT * FROM (SELECT region, sum(amount) FROM sales GROUP BY 1\n) AS chart_data LIMIT 101'
+    )
+    expect(buildChartDataSQL('CREATE TABLE t AS SELECT 1')).toBeNull()
+  })
+
+  it('should mark results cut off at the limit', () => {
+    expect(chartResultFrom([1, 2, 3], 2)).toMatchObject({ rows: [1, 2], truncated: true })
+    expect(chartResultFrom([1, 2], 2)).toMatchObject({ rows: [1, 2], truncated: false })
+  })
+})
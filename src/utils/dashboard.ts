@@ -0,0 +1,51 @@
+// Dashboard grid layout and the data each saved chart is drawn from
+
+import type { ChartQuery } from './chartSql'
+import { viewBodyFor } from './databaseFile'
+
+export const DEFAULT_GRID_COLS = 2
+export const MAX_GRID_COLS = 4
+export const DASHBOARD_ROW_HEIGHT = 160 // Pixels per grid row
+export const MAX_CHART_ROWS_SPAN = 6
+
+// Rows a dashboard chart is drawn from; larger results are cut off
+export const CHART_ROW_LIMIT = 10_000
+
+// Last refresh of a dashboard chart; kept in memory only
+export interface ChartResult {
+  rows: any[]
+  refreshedAt: string // ISO string
+  truncated?: boolean // The query returned more rows than the chart draws
+  query?: ChartQuery // Set when the rows were aggregated in DuckDB
+  error?: string
+}
+
+export function clampGridCols(cols: number): number {
+  return Math.max(1, Math.min(MAX_GRID_COLS, Math.round(cols) || DEFAULT_GRID_COLS))
+}
+
+// Grid cells a chart spans, never wider than the grid
+export function chartSpan(chart: { width: number; height: number }, gridCols: number): { cols: number; rows: number } {
+  return {
+    cols: Math.max(1, Math.min(gridCols, Math.round(chart.width) || 1)),
+    rows: Math.max(1, Math.min(MAX_CHART_ROWS_SPAN, Math.round(chart.height) || 1))
+  }
+}
+
+// Span after dragging a resize handle by delta pixels over cells of the given size
+export function resizedSpan(start: number, delta: number, cellSize: number, max: number): number {
+  if (cellSize <= 0) return start
+  return Math.max(1, Math.min(max, start + Math.round(delta / cellSize)))
+}
+
+// Query a chart runs: the saved SQL capped one row past the limit so truncation can be detected,
+// or null unless it is a single row-returning statement
+export function buildChartDataSQL(sql: string, limit: number = CHART_ROW_LIMIT): string | null {
+  const body = viewBodyFor(sql)
+  return body ? `SELECT * FROM (${body}\n) AS chart_data LIMIT ${limit + 1}` : null
+}
+
+export function chartResultFrom(rows: any[], limit: number = CHART_ROW_LIMIT): ChartResult {
+  const truncated = rows.length > limit
+  return { rows: truncated ? rows.slice(0, limit) : rows, refreshedAt: new Date().toISOString(), truncated }
+}
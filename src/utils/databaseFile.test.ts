@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import {
+  attachedRelationsFrom,
+  buildAttachSQL,
+  buildExportTableSQL,
+  buildExportViewSQL,
+  databaseAliasFor,
+  exportViewsFor,
+  isDatabaseFile,
+  qualifiedRelationName,
+  relationsBySchema,
+  uniqueDatabaseAlias,
+  viewBodyFor
+} from './databaseFile'
+
+describe('attaching database files', () => {
+  it('should recognise DuckDB files by extension', () => {
+    expect(isDatabaseFile('warehouse.duckdb')).toBe(true)
+    expect(isDatabaseFile('WAREHOUSE.DDB')).toBe(true)
+    expect(isDatabaseFile('warehouse.db')).toBe(false)
+  })
+
+  it('should derive an alias that avoids attached and reserved catalogs', () => {
+    expect(databaseAliasFor('Sales 2024.duckdb')).toBe('Sales_2024')
+    expect(databaseAliasFor('2024.duckdb')).toBe('_2024')
+    expect(uniqueDatabaseAlias('memory.duckdb', [])).toBe('memory_2')
+    expect(uniqueDatabaseAlias('sales.duckdb', ['Sales'])).toBe('sales_2')
+  })
+
+  it('should attach read-only and list relations by schema', () => {
+    expect(buildAttachSQL("it's.duckdb", 'its')).toBe(`ATTACH 'it''s.duckdb' AS its (READ_ONLY)`)
+    const relations = attachedRelationsFrom([
+      { table_schema: 'main', table_name: 'orders', table_type: 'BASE TABLE' },
+      { table_schema: 'main', table_name: 'recent', table_type: 'VIEW' },
+      { table_schema: 'staging', table_name: 'raw', table_type: 'BASE TABLE' }
+    ])
+    expect(relations[1]).toEqual({ schema: 'main', name: 'recent', type: 'view' })
+    expect(relationsBySchema(relations).map(([schema, group]) => [schema, group.length])).toEqual([['main', 2], ['staging', 1]])
+    expect(qualifiedRelationName('sales', { schema: 'main', name: 'order items', type: 'table' })).toBe('sales.main."order items"')
+  })
+})
+
+describe('exporting the session', () => {
+  it('should only turn single row-returning statements into views', () => {
+    expect(viewBodyFor('-- top regions\nSELECT region FROM sales;\n')).toBe('SELECT region FROM sales')
+    expect(viewBodyFor('WITH t AS (SELECT 1) SELECT * FROM t')).toBe('WITH t AS (SELECT 1) SELECT * FROM t')
+    expect(viewBodyFor('CREATE TABLE t AS SELECT 1')).toBeNull()
+    expect(viewBodyFor('SELECT 1; SELECT 2')).toBeNull()
+  })
+
+  it('should name views after their tabs without clashing with tables', () => {
+    const { views, skipped } = exportViewsFor([
+      { name: 'Query 1', sql: 'SELECT * FROM sales' },
+      { name: 'sales', sql: 'SELECT count(*) FROM sales' },
+      { name: 'Query 1', sql: 'FROM sales LIMIT 5' },
+      { name: 'Setup', sql: 'INSTALL spatial' },
+      { name: 'Empty', sql: '  ' }
+    ], ['sales'])
+    expect(views.map(v => v.name)).toEqual(['Query_1', 'sales_2', 'Query_1_2'])
+    expect(skipped).toEqual([{ name: 'Setup', reason: 'not a single SELECT statement' }])
+  })
+
+  it('should write tables and views into the export catalog', () => {
+    expect(buildExportTableSQL('sales')).toBe('CREATE TABLE duckboard_export.main.sales AS SELECT * FROM sales')
+    expect(buildExportViewSQL({ name: 'Query_1', sql: 'SELECT 1' })).toBe('CREATE VIEW duckboard_export.main.Query_1 AS SELECT 1')
+  })
+})
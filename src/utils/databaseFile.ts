@@ -0,0 +1,140 @@
+// DuckDB database files: attaching uploaded ones read-only, and exporting the session as one
+
+import { stripLeadingComments } from '../workers/cursor'
+import { fileExtension, sqlString, uniqueTableName } from './fileFormats'
+import { quoteIdentifier } from './sqlContext'
+
+export const DATABASE_EXTENSIONS = ['duckdb', 'ddb']
+
+export function isDatabaseFile(fileName: string): boolean {
+  return DATABASE_EXTENSIONS.includes(fileExtension(fileName))
+}
+
+export interface AttachedRelation {
+  schema: string
+  name: string
+  type: 'table' | 'view'
+}
+
+export interface AttachedDatabase {
+  alias: string // Catalog name the database is attached under
+  fileName: string // Registered file name
+  size: number
+  relations: AttachedRelation[]
+  attachedAt: string // ISO string
+}
+
+// Catalog names DuckDB reserves for itself
+const RESERVED_ALIASES = ['memory', 'system', 'temp', 'main']
+
+function identifierFor(text: string, fallback: string): string {
+  const name = text.replace(/[^a-zA-Z0-9_]/g, '_') || fallback
+  return /^[0-9]/.test(name) ? `_${name}` : name
+}
+
+// Catalog name derived from the file name, e.g. "Sales 2024.duckdb" -> Sales_2024
+export function databaseAliasFor(fileName: string): string {
+  const base = isDatabaseFile(fileName) ? fileName.slice(0, fileName.lastIndexOf('.')) : fileName
+  return identifierFor(base, 'db')
+}
+
+// Alias for a newly attached file that clashes neither with attached databases nor DuckDB's own catalogs
+export function uniqueDatabaseAlias(fileName: string, taken: string[]): string {
+  return uniqueTableName(databaseAliasFor(fileName), [...RESERVED_ALIASES, ...taken])
+}
+
+export function buildAttachSQL(fileName: string, alias: string): string {
+  return `ATTACH ${sqlString(fileName)} AS ${quoteIdentifier(alias)} (READ_ONLY)`
+}
+
+export function buildListAttachedSQL(alias: string): string {
+  return (
+    `SELECT table_schema, table_name, table_type FROM information_schema.tables ` +
+    `WHERE table_catalog = ${sqlString(alias)} ORDER BY table_schema, table_name`
+  )
+}
+
+export function attachedRelationsFrom(rows: Array<Record<string, any>>): AttachedRelation[] {
+  return rows.map(row => ({
+    schema: String(row.table_schema),
+    name: String(row.table_name),
+    type: row.table_type === 'VIEW' ? 'view' : 'table'
+  }))
+}
+
+// Fully qualified name for use in queries, e.g. sales_db.main.orders
+export function qualifiedRelationName(alias: string, relation: AttachedRelation): string {
+  return [alias, relation.schema, relation.name].map(quoteIdentifier).join('.')
+}
+
+// Relations grouped by schema, in listing order
+export function relationsBySchema(relations: AttachedRelation[]): Array<[string, AttachedRelation[]]> {
+  const groups = new Map<string, AttachedRelation[]>()
+  for (const relation of relations) {
+    const group = groups.get(relation.schema)
+    if (group) group.push(relation)
+    else groups.set(relation.schema, [relation])
+  }
+  return Array.from(groups)
+}
+
+// Catalog the export file is attached under while it is written
+export const EXPORT_DATABASE_ALIAS = 'duckboard_export'
+
+export interface ExportView {
+  name: string
+  sql: string // Single SELECT statement without the trailing semicolon
+}
+
+export interface SkippedView {
+  name: string
+  reason: string
+}
+
+export interface DatabaseExport {
+  bytes: Uint8Array
+  tables: string[]
+  views: string[]
+  skipped: SkippedView[]
+}
+
+// Body of a view for a saved query, or null unless it is a single row-returning statement
+export function viewBodyFor(sql: string): string | null {
+  const clean = stripLeadingComments(sql).replace(/;\s*$/, '').trim()
+  if (!clean || clean.includes(';')) return null
+  if (!/^(select|with|from|values|table)\b/i.test(clean)) return null
+  return clean
+}
+
+// Views for saved queries, named after their tabs and kept clear of the exported tables;
+// empty tabs are left out
+export function exportViewsFor(
+  queries: Array<{ name: string; sql: string }>,
+  tableNames: string[]
+): { views: ExportView[]; skipped: SkippedView[] } {
+  const taken = [...tableNames]
+  const views: ExportView[] = []
+  const skipped: SkippedView[] = []
+  for (const query of queries) {
+    if (!query.sql.trim()) continue
+    const body = viewBodyFor(query.sql)
+    if (!body) {
+      skipped.push({ name: query.name, reason: 'not a single SELECT statement' })
+      continue
+    }
+    const name = uniqueTableName(identifierFor(query.name, 'query'), taken)
+    taken.push(name)
+    views.push({ name, sql: body })
+  }
+  return { views, skipped }
+}
+
+export function buildExportTableSQL(tableName: string): string {
+  const target = [EXPORT_DATABASE_ALIAS, 'main', tableName].map(quoteIdentifier).join('.')
+  return `CREATE TABLE ${target} AS SELECT * FROM ${quoteIdentifier(tableName)}`
+}
+
+export function buildExportViewSQL(view: ExportView): string {
+  const target = [EXPORT_DATABASE_ALIAS, 'main', view.name].map(quoteIdentifier).join('.')
+  return `CREATE VIEW ${target} AS ${view.sql}`
+}
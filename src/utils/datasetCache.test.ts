@@ -0,0 +1,72 @@
+import 'fake-indexeddb/auto'
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import {
+  clearDatasetCache,
+  deleteCachedDataset,
+  getCachedDataset,
+  getStorageUsage,
+  listCachedDatasets,
+  putCachedDataset,
+  type CachedDataset
+} from './datasetCache'
+
+function entry(id: string, text: string): CachedDataset {
+  const bytes = new TextEncoder().encode(text)
+  return { id, fileName: `${id}.csv`, fileType: 'csv', bytes: bytes.buffer, size: bytes.byteLength, cachedAt: '2024-01-01T00:00:00.000Z' }
+}
+
+describe('datasetCache', () => {
+  beforeEach(async () => {
+    await clearDatasetCache()
+  })
+
+  afterEach(() => {
+    Reflect.deleteProperty(navigator, 'storage')
+  })
+
+  it('should store and read back dataset bytes', async () => {
+    await putCachedDataset(entry('sales', 'a\n1\n'))
+    const cached = await getCachedDataset('sales')
+    expect(cached?.fileName).toBe('sales.csv')
+    expect(new TextDecoder().decode(cached?.bytes as ArrayBuffer)).toBe('a\n1\n')
+    expect(await getCachedDataset('missing')).toBeUndefined()
+  })
+
+  it('should replace entries with the same id', async () => {
+    await putCachedDataset(entry('sales', 'a\n1\n'))
+    await putCachedDataset({ ...entry('sales', 'a\n1\n2\n'), sheet: 'Totals' })
+    const cached = await listCachedDatasets()
+    expect(cached).toHaveLength(1)
+    expect(cached[0]).toMatchObject({ id: 'sales', size: 6, sheet: 'Totals' })
+  })
+
+  it('should list metadata without the bytes', async () => {
+    await putCachedDataset(entry('sales', 'a\n1\n'))
+    await putCachedDataset(entry('regions', 'id\n'))
+    const cached = await listCachedDatasets()
+    expect(cached.map(info => info.id).sort()).toEqual(['regions', 'sales'])
+    expect(cached.every(info => !('bytes' in info))).toBe(true)
+  })
+
+  it('should evict single entries and clear the whole cache', async () => {
+    await putCachedDataset(entry('sales', 'a\n1\n'))
+    await putCachedDataset(entry('regions', 'id\n'))
+    await deleteCachedDataset('sales')
+    expect((await listCachedDatasets()).map(info => info.id)).toEqual(['regions'])
+
+    await clearDatasetCache()
+    expect(await listCachedDatasets()).toEqual([])
+  })
+
+  it('should add up cached bytes and the origin storage estimate', async () => {
+    await putCachedDataset(entry('sales', 'a\n1\n'))
+    await putCachedDataset(entry('regions', 'id\n'))
+    expect(await getStorageUsage()).toEqual({ cacheBytes: 7 })
+
+    Object.defineProperty(navigator, 'storage', {
+      configurable: true,
+      value: { estimate: async () => ({ usage: 2048, quota: 1 << 20 }) }
+    })
+    expect(await getStorageUsage()).toEqual({ cacheBytes: 7, usage: 2048, quota: 1 << 20 })
+  })
+})
@@ -0,0 +1,102 @@
+// Local dataset cache backed by IndexedDB so uploaded files survive page reloads
+
+import type { DatasetFileType } from './fileFormats'
+
+const DB_NAME = 'duckboard-cache'
+const DB_VERSION = 1
+const STORE_NAME = 'datasets'
+
+export interface CachedDataset {
+  id: string
+  fileName: string
+  fileType: DatasetFileType
+  sheet?: string // Worksheet loaded from an .xlsx workbook
+  bytes: ArrayBuffer | Blob // Uploads are kept as Blobs, which IndexedDB stores without loading them
+  size: number
+  cachedAt: string
+}
+
+export type CachedDatasetInfo = Omit<CachedDataset, 'bytes'>
+
+export interface StorageUsage {
+  cacheBytes: number
+  usage?: number
+  quota?: number
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openCache(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available'))
+  }
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: 'id' })
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openCache()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, mode)
+    const request = run(tx.objectStore(STORE_NAME))
+    tx.oncomplete = () => resolve(request.result)
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+export function isDatasetCacheAvailable(): boolean {
+  return typeof indexedDB !== 'undefined'
+}
+
+export async function putCachedDataset(entry: CachedDataset): Promise<void> {
+  await withStore('readwrite', (store) => store.put(entry))
+}
+
+export async function getCachedDataset(id: string): Promise<CachedDataset | undefined> {
+  return withStore<CachedDataset | undefined>('readonly', (store) => store.get(id))
+}
+
+export async function deleteCachedDataset(id: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id))
+}
+
+export async function clearDatasetCache(): Promise<void> {
+  if (!isDatasetCacheAvailable()) return
+  await withStore('readwrite', (store) => store.clear())
+}
+
+export async function listCachedDatasets(): Promise<CachedDatasetInfo[]> {
+  const entries = await withStore<CachedDataset[]>('readonly', (store) => store.getAll())
+  // Drop the byte payloads; callers only need metadata
+  return entries.map(({ bytes: _bytes, ...info }) => info)
+}
+
+export async function getStorageUsage(): Promise<StorageUsage> {
+  const cached = await listCachedDatasets()
+  const cacheBytes = cached.reduce((sum, entry) => sum + entry.size, 0)
+  // Origin-wide estimate includes the app shell and other storage
+  if (navigator.storage?.estimate) {
+    const { usage, quota } = await navigator.storage.estimate()
+    return { cacheBytes, usage, quota }
+  }
+  return { cacheBytes }
+}
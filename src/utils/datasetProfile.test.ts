@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildNonNullCountSQL,
+  buildTopValuesSQL,
+  columnProfileFrom,
+  datasetFieldsFromProfile,
+  topValuesFrom,
+  wantsTopValues
+} from './datasetProfile'
+
+describe('profile SQL', () => {
+  it('should count non-NULL values of every column in one query', () => {
+    expect(buildNonNullCountSQL('sales', ['region', 'unit price'])).toBe(
+      'SELECT count(*) AS row_count, count(region) AS c0, count("unit price") AS c1 FROM sales'
+    )
+  })
+
+  it('should rank the most frequent values as text', () => {
+    expect(buildTopValuesSQL('sales', 'Region', 3)).toBe(
+      'SELECT CAST(Region AS VARCHAR) AS value, count(*) AS count FROM sales WHERE Region IS NOT NULL GROUP BY 1 ORDER BY 2 DESC, 1 LIMIT 3'
+    )
+  })
+})
+
+describe('columnProfileFrom', () => {
+  const summarize = {
+    column_name: 'amount',
+    column_type: 'DOUBLE',
+    min: '1.5',
+    max: '99.0',
+    approx_unique: 42,
+    avg: '10.1',
+    count: 100,
+    null_percentage: 3.0
+  }
+
+  it('should combine SUMMARIZE with exact null counts', () => {
+    expect(columnProfileFrom(summarize, 100, 97)).toEqual({
+      name: 'amount',
+      type: 'DOUBLE',
+      stats: { nullCount: 3, distinctCount: 42, min: '1.5', max: '99.0' }
+    })
+  })
+
+  it('should cap the distinct estimate and leave out missing bounds', () => {
+    const stats = columnProfileFrom({ ...summarize, approx_unique: 105, min: null, max: null }, 100, 100).stats
+    expect(stats).toEqual({ nullCount: 0, distinctCount: 100, min: undefined, max: undefined })
+    expect(wantsTopValues(stats, 100)).toBe(false)
+  })
+})
+
+describe('top values', () => {
+  it('should only be computed when values repeat', () => {
+    expect(wantsTopValues({ nullCount: 10, distinctCount: 5 }, 100)).toBe(true)
+    expect(wantsTopValues({ nullCount: 10, distinctCount: 90 }, 100)).toBe(false)
+    expect(wantsTopValues({ nullCount: 100, distinctCount: 0 }, 100)).toBe(false)
+  })
+
+  it('should be dropped when the most frequent value occurs once', () => {
+    expect(topValuesFrom([{ value: 'north', count: 7 }, { value: 'south', count: 2 }]))
+      .toEqual([{ value: 'north', count: 7 }, { value: 'south', count: 2 }])
+    expect(topValuesFrom([{ value: 'a', count: 1 }, { value: 'b', count: 1 }])).toBeUndefined()
+    expect(topValuesFrom([])).toBeUndefined()
+  })
+})
+
+describe('datasetFieldsFromProfile', () => {
+  it('should mark columns nullable only when NULLs were found', () => {
+    const fields = datasetFieldsFromProfile({
+      rowCount: 3,
+      columns: [
+        { name: 'id', type: 'BIGINT', stats: { nullCount: 0, distinctCount: 3 } },
+        { name: 'note', type: 'VARCHAR', stats: { nullCount: 2, distinctCount: 1 } }
+      ]
+    })
+    expect(fields.rowCount).toBe(3)
+    expect(fields.columns.map(c => [c.name, c.nullable])).toEqual([['id', false], ['note', true]])
+    expect(fields.columns[1].stats?.nullCount).toBe(2)
+    expect(fields.profiledAt).toBeTruthy()
+  })
+})
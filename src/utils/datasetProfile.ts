@@ -0,0 +1,82 @@
+// Dataset profile computed after load: row count and per-column statistics from SUMMARIZE
+
+import type { Column, Dataset } from '../types'
+import { quoteIdentifier } from './sqlContext'
+
+export interface TopValue {
+  value: string // Rendered as text, like SUMMARIZE's min and max
+  count: number
+}
+
+export interface ColumnStats {
+  nullCount: number
+  distinctCount: number // approx_unique estimate, excluding NULL
+  min?: string
+  max?: string
+  topValues?: TopValue[] // Most frequent non-NULL values; omitted when every value is distinct
+}
+
+export interface ColumnProfile {
+  name: string
+  type: string
+  stats: ColumnStats
+}
+
+export interface TableProfile {
+  rowCount: number
+  columns: ColumnProfile[]
+}
+
+// Top values computed per column
+export const PROFILE_TOP_VALUES = 5
+
+// Exact non-NULL counts for every column in one scan; SUMMARIZE only reports a rounded percentage
+export function buildNonNullCountSQL(tableName: string, columns: string[]): string {
+  const counts = columns.map((name, i) => `count(${quoteIdentifier(name)}) AS c${i}`)
+  return `SELECT ${['count(*) AS row_count', ...counts].join(', ')} FROM ${quoteIdentifier(tableName)}`
+}
+
+export function buildTopValuesSQL(tableName: string, column: string, limit = PROFILE_TOP_VALUES): string {
+  const col = quoteIdentifier(column)
+  return `SELECT CAST(${col} AS VARCHAR) AS value, count(*) AS count FROM ${quoteIdentifier(tableName)} ` +
+    `WHERE ${col} IS NOT NULL GROUP BY 1 ORDER BY 2 DESC, 1 LIMIT ${Math.max(1, Math.floor(limit))}`
+}
+
+// One SUMMARIZE row plus the column's exact non-NULL count
+export function columnProfileFrom(row: Record<string, any>, rowCount: number, nonNullCount: number): ColumnProfile {
+  const text = (value: unknown) => (value === null || value === undefined ? undefined : String(value))
+  return {
+    name: String(row.column_name),
+    type: String(row.column_type),
+    stats: {
+      nullCount: rowCount - nonNullCount,
+      // The estimate can exceed the number of values it was taken from
+      distinctCount: Math.min(Number(row.approx_unique ?? 0), nonNullCount),
+      min: text(row.min),
+      max: text(row.max)
+    }
+  }
+}
+
+// Frequencies are only informative when some value repeats; the estimate decides which columns to scan
+export function wantsTopValues(stats: ColumnStats, rowCount: number): boolean {
+  const nonNull = rowCount - stats.nullCount
+  return nonNull > 0 && stats.distinctCount < nonNull
+}
+
+// Rows of buildTopValuesSQL; dropped when no value occurs more than once
+export function topValuesFrom(rows: Record<string, any>[]): TopValue[] | undefined {
+  const values = rows.map(row => ({ value: String(row.value), count: Number(row.count) }))
+  return values.length > 0 && values[0].count > 1 ? values : undefined
+}
+
+// Dataset fields replaced by a fresh profile; nullable reflects whether NULLs were found
+export function datasetFieldsFromProfile(profile: TableProfile): Pick<Dataset, 'rowCount' | 'columns' | 'profiledAt'> {
+  const columns: Column[] = profile.columns.map(column => ({
+    name: column.name,
+    type: column.type,
+    nullable: column.stats.nullCount > 0,
+    stats: column.stats
+  }))
+  return { rowCount: profile.rowCount, columns, profiledAt: new Date().toISOString() }
+}
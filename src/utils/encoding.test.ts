@@ -0,0 +1,58 @@
+// @vitest-environment node
+// jsdom's Blob cannot be read back; Node's implements arrayBuffer()
+import { describe, it, expect } from 'vitest'
+import { describeEncoding, detectEncoding, transcodeBlob } from './encoding'
+
+const bytes = (...values: number[]) => new Uint8Array(values)
+const text = async (blob: Blob) => new TextDecoder().decode(await blob.arrayBuffer())
+
+describe('detectEncoding', () => {
+  it('should accept plain UTF-8', () => {
+    expect(detectEncoding(new TextEncoder().encode('name\nZoë\n'))).toBe('utf-8')
+  })
+
+  it('should tolerate a sample cut mid-character unless it is the whole file', () => {
+    const cut = new TextEncoder().encode('Zoë').slice(0, 3)
+    expect(detectEncoding(cut, false)).toBe('utf-8')
+    expect(detectEncoding(cut, true)).toBe('windows-1252')
+  })
+
+  it('should recognise byte-order marks', () => {
+    expect(detectEncoding(bytes(0xEF, 0xBB, 0xBF, 0x61))).toBe('utf-8-bom')
+    expect(detectEncoding(bytes(0xFF, 0xFE, 0x61, 0x00))).toBe('utf-16le')
+    expect(detectEncoding(bytes(0xFE, 0xFF, 0x00, 0x61))).toBe('utf-16be')
+  })
+
+  it('should fall back to Windows-1252 for other bytes', () => {
+    // "café" in Windows-1252
+    expect(detectEncoding(bytes(0x63, 0x61, 0x66, 0xE9))).toBe('windows-1252')
+    expect(describeEncoding('windows-1252')).toBe('Windows-1252')
+  })
+})
+
+describe('transcodeBlob', () => {
+  it('should re-encode as UTF-8 and drop the byte-order mark', async () => {
+    expect(await text(await transcodeBlob(new Blob([bytes(0xFF, 0xFE, 0x61, 0x00, 0xE9, 0x00)]), 'utf-16le'))).toBe('aé')
+    expect(await text(await transcodeBlob(new Blob([bytes(0xFE, 0xFF, 0x00, 0x61, 0x00, 0xE9)]), 'utf-16be'))).toBe('aé')
+    expect(Array.from(new Uint8Array(await (await transcodeBlob(new Blob([bytes(0xEF, 0xBB, 0xBF, 0x61)]), 'utf-8-bom')).arrayBuffer())))
+      .toEqual([0x61])
+  })
+
+  it('should transcode large files in chunks and report progress', async () => {
+    // Multi-megabyte Windows-1252 text, so it is read in several chunks
+    const line = bytes(...new TextEncoder().encode('caf'), 0xE9, 0x2C, 0x35, 0xB0, 0x0A)
+    const lines = 700_000
+    const source = new Uint8Array(line.length * lines)
+    for (let i = 0; i < lines; i++) source.set(line, i * line.length)
+    const progress: number[] = []
+
+    const result = await transcodeBlob(new Blob([source]), 'windows-1252', fraction => progress.push(fraction))
+
+    const decoded = await text(result)
+    expect(decoded.length).toBe('café,5°\n'.length * lines)
+    expect(decoded.slice(0, 16)).toBe('café,5°\ncafé,5°\n')
+    expect(decoded.includes('�')).toBe(false)
+    expect(progress.length).toBeGreaterThan(1)
+    expect(progress[progress.length - 1]).toBe(1)
+  })
+})
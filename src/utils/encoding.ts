@@ -0,0 +1,63 @@
+// Text encoding detection and streaming transcoding for uploaded text files; DuckDB only reads UTF-8
+
+export type TextEncodingLabel = 'utf-8' | 'utf-8-bom' | 'utf-16le' | 'utf-16be' | 'windows-1252'
+
+// Bytes inspected to choose an encoding; a file is only transcoded when this sample is not plain UTF-8
+export const ENCODING_SAMPLE_BYTES = 1024 * 1024
+
+const TRANSCODE_CHUNK_BYTES = 4 * 1024 * 1024
+// Encoded output is gathered into Blob parts of roughly this size so the browser can page it out
+const TRANSCODE_FLUSH_BYTES = 64 * 1024 * 1024
+
+// Encoding of a file judged from its first bytes; complete is false when the sample may end mid-character
+export function detectEncoding(sample: Uint8Array, complete = true): TextEncodingLabel {
+  if (sample.length >= 2 && sample[0] === 0xFF && sample[1] === 0xFE) return 'utf-16le'
+  if (sample.length >= 2 && sample[0] === 0xFE && sample[1] === 0xFF) return 'utf-16be'
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: !complete })
+  } catch {
+    return 'windows-1252'
+  }
+  // DuckDB would read a UTF-8 byte-order mark as part of the first column name
+  return sample.length >= 3 && sample[0] === 0xEF && sample[1] === 0xBB && sample[2] === 0xBF ? 'utf-8-bom' : 'utf-8'
+}
+
+// Re-encode a file as UTF-8 chunk by chunk, without holding the decoded text in memory;
+// a byte-order mark is dropped
+export async function transcodeBlob(
+  blob: Blob,
+  encoding: TextEncodingLabel,
+  onProgress?: (fraction: number) => void
+): Promise<Blob> {
+  const decoder = new TextDecoder(encoding === 'utf-8-bom' ? 'utf-8' : encoding)
+  const encoder = new TextEncoder()
+  const parts: Blob[] = []
+  let pending: BlobPart[] = []
+  let pendingBytes = 0
+
+  for (let offset = 0; offset < blob.size; offset += TRANSCODE_CHUNK_BYTES) {
+    const end = Math.min(offset + TRANSCODE_CHUNK_BYTES, blob.size)
+    const chunk = new Uint8Array(await blob.slice(offset, end).arrayBuffer())
+    const encoded = encoder.encode(decoder.decode(chunk, { stream: end < blob.size }))
+    pending.push(encoded)
+    pendingBytes += encoded.byteLength
+    if (pendingBytes >= TRANSCODE_FLUSH_BYTES) {
+      parts.push(new Blob(pending))
+      pending = []
+      pendingBytes = 0
+    }
+    onProgress?.(end / blob.size)
+  }
+  parts.push(new Blob(pending))
+  return new Blob(parts, { type: 'text/plain;charset=utf-8' })
+}
+
+export function describeEncoding(encoding: TextEncodingLabel): string {
+  switch (encoding) {
+    case 'utf-8': return 'UTF-8'
+    case 'utf-8-bom': return 'UTF-8 with byte-order mark'
+    case 'utf-16le': return 'UTF-16 LE'
+    case 'utf-16be': return 'UTF-16 BE'
+    case 'windows-1252': return 'Windows-1252'
+  }
+}
@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildCreateViewSQL,
+  buildReadCsvSQL,
+  detectFileType,
+  isTextFileType,
+  fileNameFromUrl,
+  isValidTableName,
+  parseCsvSniff,
+  parseDatasetUrl,
+  tableNameFor,
+  uniqueFileName,
+  uniqueTableName
+} from './fileFormats'
+
+describe('detectFileType', () => {
+  it('should map extensions case-insensitively', () => {
+    expect(detectFileType('sales.CSV')).toBe('csv')
+    expect(detectFileType('events.jsonl')).toBe('ndjson')
+    expect(detectFileType('book.xlsx')).toBe('xlsx')
+    expect(detectFileType('frame.feather')).toBe('arrow')
+    expect(detectFileType('legacy.xls')).toBeNull()
+    expect(detectFileType('README')).toBeNull()
+  })
+
+  it('should only transcode text formats', () => {
+    expect(isTextFileType('json')).toBe(true)
+    expect(isTextFileType('parquet')).toBe(false)
+    expect(isTextFileType('xlsx')).toBe(false)
+  })
+})
+
+describe('tableNameFor', () => {
+  it('should derive an identifier from the file and sheet name', () => {
+    expect(tableNameFor('sales 2024.csv')).toBe('sales_2024')
+    expect(tableNameFor('Q1 report.xlsx', 'Totals & Tax')).toBe('Q1_report_Totals___Tax')
+    expect(tableNameFor('2024.parquet')).toBe('_2024')
+    expect(tableNameFor('Order.csv')).toBe('Order_table')
+  })
+})
+
+describe('dataset URLs', () => {
+  it('should only accept http and https URLs', () => {
+    expect(parseDatasetUrl(' https://example.com/data/sales.csv ')?.href).toBe('https://example.com/data/sales.csv')
+    expect(parseDatasetUrl('ftp://example.com/sales.csv')).toBeNull()
+    expect(parseDatasetUrl('sales.csv')).toBeNull()
+  })
+
+  it('should name the file after the last path segment', () => {
+    expect(fileNameFromUrl(new URL('https://example.com/2024/Q1%20sales.parquet?v=2'))).toBe('Q1 sales.parquet')
+    expect(fileNameFromUrl(new URL('https://example.com/'))).toBe('example.com')
+  })
+})
+
+describe('unique names', () => {
+  it('should suffix table names that are taken, ignoring case', () => {
+    expect(uniqueTableName('sales', ['orders'])).toBe('sales')
+    expect(uniqueTableName('sales', ['Sales', 'sales_2'])).toBe('sales_3')
+  })
+
+  it('should suffix file names before the extension', () => {
+    expect(uniqueFileName('sales.csv', [])).toBe('sales.csv')
+    expect(uniqueFileName('sales.csv', ['sales.csv'])).toBe('sales_2.csv')
+    expect(uniqueFileName('README', ['README'])).toBe('README_2')
+  })
+
+  it('should only accept plain identifiers as table names', () => {
+    expect(isValidTableName('sales_2024')).toBe(true)
+    expect(isValidTableName('_2024')).toBe(true)
+    expect(isValidTableName('2024')).toBe(false)
+    expect(isValidTableName('sales 2024')).toBe(false)
+    expect(isValidTableName('')).toBe(false)
+    expect(isValidTableName('order')).toBe(false)
+    expect(isValidTableName('orders')).toBe(true)
+  })
+})
+
+describe('buildCreateViewSQL', () => {
+  it('should read CSV with type sniffing', () => {
+    expect(buildCreateViewSQL('sales', 'sales.csv', 'csv'))
+      .toBe("CREATE OR REPLACE VIEW sales AS SELECT * FROM read_csv_auto('sales.csv', ignore_errors=true, normalize_names=true)")
+  })
+
+  it('should read CSV with the options chosen on import', () => {
+    expect(buildCreateViewSQL('sales', 'sales.csv', 'csv', { csv: { delimiter: ';', header: true } }))
+      .toBe("CREATE OR REPLACE VIEW sales AS SELECT * FROM read_csv('sales.csv', delim=';', header=true, ignore_errors=false, normalize_names=false)")
+  })
+
+  it('should read Parquet', () => {
+    expect(buildCreateViewSQL('sales', 'sales.parquet', 'parquet'))
+      .toBe("CREATE OR REPLACE VIEW sales AS SELECT * FROM read_parquet('sales.parquet')")
+  })
+
+  it('should read JSON arrays and newline-delimited JSON', () => {
+    expect(buildCreateViewSQL('events', 'events.json', 'json')).toContain("read_json_auto('events.json', format='auto')")
+    expect(buildCreateViewSQL('events', 'events.ndjson', 'ndjson')).toContain("read_json_auto('events.ndjson', format='newline_delimited')")
+  })
+
+  it('should escape quotes in file names', () => {
+    expect(buildCreateViewSQL('o', "o'brien.csv", 'csv')).toContain("read_csv_auto('o''brien.csv'")
+  })
+
+  it('should quote view names DuckDB would not accept bare', () => {
+    expect(buildCreateViewSQL('select', 'select.csv', 'csv')).toMatch(/^CREATE OR REPLACE VIEW "select" AS/)
+    expect(buildCreateViewSQL('my data', 'my data.parquet', 'parquet')).toMatch(/^CREATE OR REPLACE VIEW "my data" AS/)
+  })
+
+  it('should reject formats that are inserted rather than read', () => {
+    expect(() => buildCreateViewSQL('book', 'book.xlsx', 'xlsx')).toThrow(/Unsupported/)
+    expect(() => buildCreateViewSQL('frame', 'frame.arrow', 'arrow')).toThrow()
+  })
+})
+
+describe('buildReadCsvSQL', () => {
+  it('should pass every explicit option to read_csv', () => {
+    expect(buildReadCsvSQL('data.csv', {
+      delimiter: '\t',
+      quote: '"',
+      escape: '\\',
+      header: false,
+      skipRows: 2,
+      dateFormat: '%d/%m/%Y',
+      timestampFormat: '%d/%m/%Y %H:%M',
+      nullStrings: ['NA', "n'a"],
+      columnTypes: { id: 'BIGINT', "owner's note": 'VARCHAR' },
+      ignoreErrors: true,
+      normalizeNames: true
+    })).toBe(
+      "read_csv('data.csv', delim='\t', quote='\"', escape='\\', header=false, skip=2, dateformat='%d/%m/%Y', " +
+      "timestampformat='%d/%m/%Y %H:%M', nullstr=['NA', 'n''a'], types={'id': 'BIGINT', 'owner''s note': 'VARCHAR'}, " +
+      'ignore_errors=true, normalize_names=true)'
+    )
+  })
+
+  it('should store rejected rows instead of passing ignore_errors', () => {
+    expect(buildReadCsvSQL('data.csv', { ignoreErrors: false, normalizeNames: true }, { errors: 'errs', scans: 'scans' }))
+      .toBe("read_csv('data.csv', store_rejects=true, rejects_table='errs', rejects_scan='scans', normalize_names=true)")
+  })
+
+  it('should leave unset options to the sniffer', () => {
+    expect(buildReadCsvSQL('data.csv', { quote: '', skipRows: 0, nullStrings: [], columnTypes: {} }))
+      .toBe("read_csv('data.csv', ignore_errors=false, normalize_names=false)")
+  })
+})
+
+describe('parseCsvSniff', () => {
+  it('should read the sniff_csv() row', () => {
+    expect(parseCsvSniff({
+      Delimiter: '|',
+      Quote: '"',
+      Escape: '\0',
+      NewLineDelimiter: '\n',
+      SkipRows: 1,
+      HasHeader: true,
+      Columns: [{ name: 'id', type: 'BIGINT' }, { name: 'day', type: 'DATE' }],
+      DateFormat: '%d-%m-%Y',
+      TimestampFormat: null
+    })).toEqual({
+      delimiter: '|',
+      quote: '"',
+      escape: '',
+      header: true,
+      skipRows: 1,
+      dateFormat: '%d-%m-%Y',
+      timestampFormat: undefined,
+      columns: [{ name: 'id', type: 'BIGINT' }, { name: 'day', type: 'DATE' }]
+    })
+  })
+})
@@ -0,0 +1,212 @@
+// File formats accepted by the dataset drawer and how each one becomes a DuckDB relation
+
+import { isReservedWord, quoteIdentifier } from './sqlContext'
+
+export type DatasetFileType = 'csv' | 'parquet' | 'json' | 'ndjson' | 'xlsx' | 'arrow'
+
+// Explicit read_csv settings chosen in the import dialog; unset fields are sniffed by DuckDB
+export interface CsvOptions {
+  delimiter?: string
+  quote?: string
+  escape?: string
+  header?: boolean
+  skipRows?: number
+  dateFormat?: string // strftime-style, e.g. %d/%m/%Y
+  timestampFormat?: string
+  nullStrings?: string[]
+  columnTypes?: Record<string, string> // Column name -> DuckDB type
+  ignoreErrors?: boolean // Drop rows that fail to parse instead of failing the import
+  normalizeNames?: boolean // Lower-case column names and replace special characters
+}
+
+export interface CreateViewOptions {
+  sheet?: string // Worksheet to load from an .xlsx workbook; defaults to the first sheet
+  csv?: CsvOptions // Without options CSV files use the original read_csv_auto defaults
+}
+
+// DuckDB's sniff_csv() result, as used to pre-fill the import dialog
+export interface CsvSniffResult {
+  delimiter: string
+  quote: string
+  escape: string
+  header: boolean
+  skipRows: number
+  dateFormat?: string
+  timestampFormat?: string
+  columns: Array<{ name: string; type: string }>
+}
+
+const EXTENSION_TYPES: Record<string, DatasetFileType> = {
+  csv: 'csv',
+  parquet: 'parquet',
+  json: 'json',
+  ndjson: 'ndjson',
+  jsonl: 'ndjson',
+  xlsx: 'xlsx',
+  arrow: 'arrow',
+  ipc: 'arrow',
+  feather: 'arrow'
+}
+
+// Value for a file input's accept attribute
+export const ACCEPTED_FILE_EXTENSIONS = Object.keys(EXTENSION_TYPES).map(ext => `.${ext}`).join(',')
+
+export function fileExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf('.')
+  return dot === -1 ? '' : fileName.slice(dot + 1).toLowerCase()
+}
+
+export function detectFileType(fileName: string): DatasetFileType | null {
+  return EXTENSION_TYPES[fileExtension(fileName)] ?? null
+}
+
+// Text formats may need transcoding to UTF-8 before DuckDB reads them
+export function isTextFileType(fileType: DatasetFileType): boolean {
+  return fileType === 'csv' || fileType === 'json' || fileType === 'ndjson'
+}
+
+// Formats without a DuckDB reader are decoded in the worker and inserted as tables
+export function isInsertedFileType(fileType: DatasetFileType): boolean {
+  return fileType === 'xlsx' || fileType === 'arrow'
+}
+
+// http(s) URL a remote dataset can be read from, or null
+export function parseDatasetUrl(value: string): URL | null {
+  try {
+    const url = new URL(value.trim())
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : null
+  } catch {
+    return null
+  }
+}
+
+// File name a remote dataset is registered under: the last path segment, e.g. .../2024/sales.csv?v=2 -> sales.csv
+export function fileNameFromUrl(url: URL): string {
+  const segment = url.pathname.split('/').filter(Boolean).pop() ?? ''
+  try {
+    return decodeURIComponent(segment) || url.hostname
+  } catch {
+    return segment
+  }
+}
+
+export function sqlString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`
+}
+
+// What read_csv_auto(..., ignore_errors=true, normalize_names=true) does for datasets without options
+export const DEFAULT_CSV_OPTIONS: CsvOptions = { ignoreErrors: true, normalizeNames: true }
+
+// Temporary tables DuckDB fills with rejected rows (store_rejects)
+export interface RejectsTables {
+  errors: string
+  scans: string
+}
+
+// read_csv(...) table function call for a registered file with explicit options
+export function buildReadCsvSQL(fileName: string, options: CsvOptions, rejects?: RejectsTables): string {
+  const args = [sqlString(fileName)]
+  if (options.delimiter) args.push(`delim=${sqlString(options.delimiter)}`)
+  if (options.quote) args.push(`quote=${sqlString(options.quote)}`)
+  if (options.escape) args.push(`escape=${sqlString(options.escape)}`)
+  if (options.header !== undefined) args.push(`header=${options.header}`)
+  if (options.skipRows) args.push(`skip=${options.skipRows}`)
+  if (options.dateFormat) args.push(`dateformat=${sqlString(options.dateFormat)}`)
+  if (options.timestampFormat) args.push(`timestampformat=${sqlString(options.timestampFormat)}`)
+  if (options.nullStrings?.length) args.push(`nullstr=[${options.nullStrings.map(sqlString).join(', ')}]`)
+  const types = Object.entries(options.columnTypes ?? {})
+  if (types.length) args.push(`types={${types.map(([name, type]) => `${sqlString(name)}: ${sqlString(type)}`).join(', ')}}`)
+  if (rejects) {
+    // store_rejects skips bad rows itself and refuses an explicit ignore_errors=false
+    args.push(`store_rejects=true, rejects_table=${sqlString(rejects.errors)}, rejects_scan=${sqlString(rejects.scans)}`)
+  } else {
+    args.push(`ignore_errors=${!!options.ignoreErrors}`)
+  }
+  args.push(`normalize_names=${!!options.normalizeNames}`)
+  return `read_csv(${args.join(', ')})`
+}
+
+// DuckDB reports "no quote/escape character" as an empty string or a NUL byte
+function sniffedChar(value: unknown): string {
+  return typeof value === 'string' ? value.split('\0').join('') : ''
+}
+
+export function parseCsvSniff(row: Record<string, any>): CsvSniffResult {
+  return {
+    delimiter: sniffedChar(row.Delimiter) || ',',
+    quote: sniffedChar(row.Quote),
+    escape: sniffedChar(row.Escape),
+    header: row.HasHeader !== false,
+    skipRows: Number(row.SkipRows ?? 0),
+    dateFormat: row.DateFormat || undefined,
+    timestampFormat: row.TimestampFormat || undefined,
+    columns: (row.Columns ?? []).map((c: any) => ({ name: String(c.name), type: String(c.type) }))
+  }
+}
+
+// SQL identifier derived from a file name (and worksheet), e.g. "Q1 report.xlsx" + "Totals" -> Q1_report_Totals.
+// Reserved words get a suffix, e.g. "order.csv" -> order_table
+export function tableNameFor(fileName: string, sheet?: string): string {
+  const base = detectFileType(fileName) ? fileName.slice(0, fileName.lastIndexOf('.')) : fileName
+  const name = (sheet ? `${base}_${sheet}` : base).replace(/[^a-zA-Z0-9_]/g, '_')
+  if (/^[0-9]/.test(name)) return `_${name}`
+  return isReservedWord(name) ? `${name}_table` : name
+}
+
+// Dataset table names must work unquoted in the SQL users type, so reserved words are refused
+export function isValidTableName(name: string): boolean {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) && !isReservedWord(name)
+}
+
+// DuckDB names are case-insensitive, so "Sales" collides with "sales"
+function nextFreeName(taken: Iterable<string>, candidate: (n: number) => string): string {
+  const lower = new Set(Array.from(taken, name => name.toLowerCase()))
+  for (let n = 1; ; n++) {
+    const name = candidate(n)
+    if (!lower.has(name.toLowerCase())) return name
+  }
+}
+
+// First of name, name_2, name_3, ... not already taken
+export function uniqueTableName(name: string, taken: Iterable<string>): string {
+  return nextFreeName(taken, n => (n === 1 ? name : `${name}_${n}`))
+}
+
+// Registered file names get the same suffix before the extension, e.g. sales.csv -> sales_2.csv
+export function uniqueFileName(fileName: string, taken: Iterable<string>): string {
+  const dot = fileName.lastIndexOf('.')
+  const base = dot > 0 ? fileName.slice(0, dot) : fileName
+  const ext = dot > 0 ? fileName.slice(dot) : ''
+  return nextFreeName(taken, n => (n === 1 ? fileName : `${base}_${n}${ext}`))
+}
+
+// CREATE VIEW statement for formats DuckDB reads directly from the registered file
+export function buildCreateViewSQL(
+  viewName: string,
+  fileName: string,
+  fileType: DatasetFileType,
+  options: CreateViewOptions = {}
+): string {
+  const path = sqlString(fileName)
+  let source: string
+  switch (fileType) {
+    case 'csv':
+      source = options.csv
+        ? buildReadCsvSQL(fileName, options.csv)
+        : `read_csv_auto(${path}, ignore_errors=true, normalize_names=true)`
+      break
+    case 'parquet':
+      source = `read_parquet(${path})`
+      break
+    case 'json':
+      // A top-level array or newline-delimited records; DuckDB detects which
+      source = `read_json_auto(${path}, format='auto')`
+      break
+    case 'ndjson':
+      source = `read_json_auto(${path}, format='newline_delimited')`
+      break
+    default:
+      throw new Error(`Unsupported file type for a view: ${fileType}`)
+  }
+  return `CREATE OR REPLACE VIEW ${quoteIdentifier(viewName)} AS SELECT * FROM ${source}`
+}
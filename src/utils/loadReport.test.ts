@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest'
+import { rejectRowFrom, rejectsToCsv } from './loadReport'
+
+describe('rejectRowFrom', () => {
+  it('should map a reject_errors row', () => {
+    expect(rejectRowFrom({
+      scan_id: 1,
+      file_id: 0,
+      line: 4,
+      column_idx: 2,
+      column_name: 'amount',
+      error_type: 'CAST',
+      csv_line: '3,north,abc',
+      error_message: 'Could not convert string "abc" to \'BIGINT\''
+    })).toEqual({
+      line: 4,
+      column: 'amount',
+      errorType: 'CAST',
+      message: 'Could not convert string "abc" to \'BIGINT\'',
+      csvLine: '3,north,abc'
+    })
+  })
+
+  it('should leave out missing columns', () => {
+    expect(rejectRowFrom({ line: 9, column_name: null, error_type: 'TOO MANY COLUMNS', error_message: 'Expected 3', csv_line: null }))
+      .toEqual({ line: 9, column: undefined, errorType: 'TOO MANY COLUMNS', message: 'Expected 3', csvLine: undefined })
+  })
+})
+
+describe('rejectsToCsv', () => {
+  it('should quote fields with delimiters, quotes and newlines', () => {
+    expect(rejectsToCsv([
+      { line: 4, column: 'amount', errorType: 'CAST', message: 'Could not convert "abc"', csvLine: '3,north,abc' },
+      { line: 9, errorType: 'UNQUOTED VALUE', message: 'bad\nvalue' }
+    ])).toBe(
+      'line,column,error_type,error_message,csv_line\n' +
+      '4,amount,CAST,"Could not convert ""abc""","3,north,abc"\n' +
+      '9,,UNQUOTED VALUE,"bad\nvalue",\n'
+    )
+  })
+})
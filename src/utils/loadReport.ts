@@ -0,0 +1,54 @@
+// Per-dataset load report: how the file was decoded and which CSV rows DuckDB rejected
+
+import type { TextEncodingLabel } from './encoding'
+
+// One row from DuckDB's reject_errors table
+export interface RejectedRow {
+  line: number // 1-based line in the file
+  column?: string
+  errorType: string // CAST, MISSING COLUMNS, TOO MANY COLUMNS, UNQUOTED VALUE, ...
+  message: string
+  csvLine?: string // Raw text of the rejected line
+}
+
+export interface CsvRejectScan {
+  rowsLoaded: number
+  rowsRejected: number
+  rejects: RejectedRow[] // Up to the requested limit, in file order
+}
+
+export interface LoadReport {
+  encoding?: TextEncodingLabel // Text formats only
+  transcoded?: boolean
+  rowsLoaded?: number
+  rowsRejected?: number
+  rejects?: RejectedRow[] // First REPORT_REJECT_SAMPLE rejects; download the rest from the worker
+  rejectsDropped?: boolean // Rejected rows are skipped by the view (ignore_errors); otherwise queries fail on them
+  loadedAt: string // ISO string
+}
+
+// Rejects kept on the dataset itself, which is persisted with the session
+export const REPORT_REJECT_SAMPLE = 50
+
+export function rejectRowFrom(row: Record<string, any>): RejectedRow {
+  return {
+    line: Number(row.line),
+    column: row.column_name ?? undefined,
+    errorType: String(row.error_type ?? 'UNKNOWN'),
+    message: String(row.error_message ?? ''),
+    csvLine: row.csv_line ?? undefined
+  }
+}
+
+function csvField(value: string | number | undefined): string {
+  const text = value === undefined ? '' : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function rejectsToCsv(rejects: RejectedRow[]): string {
+  const lines = ['line,column,error_type,error_message,csv_line']
+  for (const reject of rejects) {
+    lines.push([reject.line, reject.column, reject.errorType, reject.message, reject.csvLine].map(csvField).join(','))
+  }
+  return `${lines.join('\n')}\n`
+}
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest'
+import { buildMaterializeSQL, formatLoadTime, stagingTableName } from './materialize'
+
+describe('buildMaterializeSQL', () => {
+  it('should copy the view into a staging table', () => {
+    expect(buildMaterializeSQL('sales', stagingTableName('sales'))).toBe(
+      'CREATE TABLE sales__materializing AS SELECT * FROM sales'
+    )
+  })
+
+  it('should sort by the chosen columns in order', () => {
+    expect(buildMaterializeSQL('sales', 'staging', ['region', 'order date'])).toBe(
+      'CREATE TABLE staging AS SELECT * FROM sales ORDER BY region, "order date"'
+    )
+  })
+})
+
+describe('formatLoadTime', () => {
+  it('should use milliseconds below a second', () => {
+    expect(formatLoadTime(42.4)).toBe('42 ms')
+    expect(formatLoadTime(1530)).toBe('1.5 s')
+  })
+})
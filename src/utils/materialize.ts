@@ -0,0 +1,30 @@
+// Loading a view-backed dataset into a native DuckDB table, so queries stop re-reading the file
+
+import { quoteIdentifier } from './sqlContext'
+
+export interface MaterializeOptions {
+  orderBy?: string[] // Sort columns; sorted data lets filters on them skip row groups
+}
+
+export interface MaterializedInfo extends MaterializeOptions {
+  loadMs: number
+  estimatedBytes?: number // Growth of DuckDB's in-memory table storage while the table was built
+  materializedAt: string // ISO string
+}
+
+// Staging name the table is built under before it takes the view's place
+export function stagingTableName(tableName: string): string {
+  return `${tableName}__materializing`
+}
+
+export function buildMaterializeSQL(source: string, target: string, orderBy: string[] = []): string {
+  const order = orderBy.length ? ` ORDER BY ${orderBy.map(quoteIdentifier).join(', ')}` : ''
+  return `CREATE TABLE ${quoteIdentifier(target)} AS SELECT * FROM ${quoteIdentifier(source)}${order}`
+}
+
+// Memory held by all in-memory tables
+export const TABLE_MEMORY_SQL = `SELECT memory_usage_bytes AS bytes FROM duckdb_memory() WHERE tag = 'IN_MEMORY_TABLE'`
+
+export function formatLoadTime(ms: number): string {
+  return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`
+}
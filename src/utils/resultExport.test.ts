@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest'
+import { buildExportCopySQL, exportCompression, exportFileName, isCopyFormat, xlsxCellValue } from './resultExport'
+
+describe('buildExportCopySQL', () => {
+  it('should write Parquet with the chosen compression', () => {
+    expect(buildExportCopySQL('SELECT * FROM sales;\n', 'out.parquet', { format: 'parquet' })).toBe(
+      "COPY (SELECT * FROM sales\n) TO 'out.parquet' (FORMAT PARQUET, COMPRESSION snappy)"
+    )
+    expect(buildExportCopySQL('SELECT 1', 'out.parquet', { format: 'parquet', compression: 'none' })).toContain('COMPRESSION uncompressed')
+  })
+
+  it('should pass CSV delimiter, header and gzip options', () => {
+    expect(buildExportCopySQL('SELECT 1', 'out.csv', { format: 'csv', delimiter: '\t', header: false, compression: 'gzip' })).toBe(
+      "COPY (SELECT 1\n) TO 'out.csv' (FORMAT CSV, DELIMITER '\t', HEADER false, COMPRESSION gzip)"
+    )
+  })
+
+  it('should write JSON as an array and NDJSON one object per line', () => {
+    expect(buildExportCopySQL('SELECT 1', 'out.json', { format: 'json' })).toBe(
+      "COPY (SELECT 1\n) TO 'out.json' (FORMAT JSON, ARRAY true, COMPRESSION none)"
+    )
+    expect(buildExportCopySQL('SELECT 1', 'out.ndjson', { format: 'ndjson' })).toBe(
+      "COPY (SELECT 1\n) TO 'out.ndjson' (FORMAT JSON, COMPRESSION none)"
+    )
+  })
+
+  it('should refuse formats COPY does not write', () => {
+    expect(isCopyFormat('arrow')).toBe(false)
+    expect(() => buildExportCopySQL('SELECT 1', 'out.xlsx', { format: 'xlsx' })).toThrow(/not written with COPY/)
+    expect(() => buildExportCopySQL(' ; ', 'out.csv', { format: 'csv' })).toThrow(/No SQL/)
+  })
+})
+
+describe('exportFileName', () => {
+  it('should add the extension and .gz once', () => {
+    expect(exportFileName('result', { format: 'csv' })).toBe('result.csv')
+    expect(exportFileName('sales.csv', { format: 'csv', compression: 'gzip' })).toBe('sales.csv.gz')
+    expect(exportFileName('sales.csv.gz', { format: 'csv', compression: 'gzip' })).toBe('sales.csv.gz')
+    expect(exportFileName('q1/q2', { format: 'parquet', compression: 'gzip' })).toBe('q1-q2.parquet')
+    expect(exportFileName('  ', { format: 'xlsx' })).toBe('result.xlsx')
+  })
+
+  it('should fall back to a compression the format supports', () => {
+    expect(exportCompression({ format: 'arrow', compression: 'gzip' })).toBe('none')
+    expect(exportCompression({ format: 'parquet' })).toBe('snappy')
+  })
+})
+
+describe('xlsxCellValue', () => {
+  it('should turn dates and timestamps into dates', () => {
+    expect(xlsxCellValue('2024-01-02', 'DATE')).toEqual(new Date('2024-01-02T00:00:00Z'))
+    expect(xlsxCellValue('2024-01-02 12:30:00', 'TIMESTAMP')).toEqual(new Date('2024-01-02T12:30:00Z'))
+    expect(xlsxCellValue('2024-01-02T12:30:00.000Z', 'TIMESTAMP WITH TIME ZONE')).toEqual(new Date('2024-01-02T12:30:00Z'))
+  })
+
+  it('should keep scalars and write nested values as JSON', () => {
+    expect(xlsxCellValue(1.5, 'DOUBLE')).toBe(1.5)
+    expect(xlsxCellValue('9007199254740993', 'BIGINT')).toBe('9007199254740993')
+    expect(xlsxCellValue(null, 'VARCHAR')).toBeNull()
+    expect(xlsxCellValue([1, 2], 'INTEGER[]')).toBe('[1,2]')
+  })
+})
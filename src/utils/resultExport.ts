@@ -0,0 +1,95 @@
+// Query result downloads: DuckDB's COPY for Parquet, CSV and JSON, and files built in the worker
+// for Arrow IPC and Excel
+
+import { sqlString } from './fileFormats'
+import type { CellValue } from './xlsx'
+
+export type ResultExportFormat = 'parquet' | 'csv' | 'json' | 'ndjson' | 'arrow' | 'xlsx'
+
+export type ExportCompression = 'none' | 'gzip' | 'zstd' | 'snappy'
+
+export interface ResultExportOptions {
+  format: ResultExportFormat
+  compression?: ExportCompression // Defaults to the format's first listed compression
+  delimiter?: string // CSV only
+  header?: boolean // CSV only
+}
+
+interface ExportFormatInfo {
+  label: string
+  extension: string
+  mimeType: string
+  compressions: ExportCompression[]
+}
+
+export const RESULT_EXPORT_FORMATS: Record<ResultExportFormat, ExportFormatInfo> = {
+  parquet: { label: 'Parquet', extension: 'parquet', mimeType: 'application/vnd.apache.parquet', compressions: ['snappy', 'zstd', 'gzip', 'none'] },
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv', compressions: ['none', 'gzip'] },
+  json: { label: 'JSON (array)', extension: 'json', mimeType: 'application/json', compressions: ['none', 'gzip'] },
+  ndjson: { label: 'NDJSON', extension: 'ndjson', mimeType: 'application/x-ndjson', compressions: ['none', 'gzip'] },
+  arrow: { label: 'Arrow IPC', extension: 'arrow', mimeType: 'application/vnd.apache.arrow.file', compressions: ['none'] },
+  xlsx: { label: 'Excel (.xlsx)', extension: 'xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', compressions: ['none'] }
+}
+
+// Formats DuckDB writes itself with COPY ... TO
+export function isCopyFormat(format: ResultExportFormat): boolean {
+  return format !== 'arrow' && format !== 'xlsx'
+}
+
+export function exportCompression(options: ResultExportOptions): ExportCompression {
+  const supported = RESULT_EXPORT_FORMATS[options.format].compressions
+  return options.compression && supported.includes(options.compression) ? options.compression : supported[0]
+}
+
+// COPY must wrap a single statement without its trailing semicolon
+export function stripTrailingSemicolon(sql: string): string {
+  return sql.replace(/;\s*$/, '').trim()
+}
+
+export function buildExportCopySQL(sql: string, fileName: string, options: ResultExportOptions): string {
+  const query = stripTrailingSemicolon(sql)
+  if (!query) throw new Error('No SQL to export')
+  const compression = exportCompression(options)
+  const settings: string[] = []
+  switch (options.format) {
+    case 'parquet':
+      settings.push('FORMAT PARQUET', `COMPRESSION ${compression === 'none' ? 'uncompressed' : compression}`)
+      break
+    case 'csv':
+      settings.push('FORMAT CSV', `DELIMITER ${sqlString(options.delimiter || ',')}`, `HEADER ${options.header ?? true}`)
+      break
+    case 'json':
+      settings.push('FORMAT JSON', 'ARRAY true')
+      break
+    case 'ndjson':
+      settings.push('FORMAT JSON')
+      break
+    default:
+      throw new Error(`${RESULT_EXPORT_FORMATS[options.format].label} is not written with COPY`)
+  }
+  if (options.format !== 'parquet') settings.push(`COMPRESSION ${compression}`)
+  return `COPY (${query}\n) TO ${sqlString(fileName)} (${settings.join(', ')})`
+}
+
+// Download name with the format's extension, plus .gz for gzipped text formats
+export function exportFileName(name: string, options: ResultExportOptions): string {
+  const extension = RESULT_EXPORT_FORMATS[options.format].extension
+  const gzipped = options.format !== 'parquet' && exportCompression(options) === 'gzip'
+  const base = name.trim().replace(/[\\/:*?"<>|]/g, '-').replace(/\.gz$/i, '') || 'result'
+  const withExtension = base.toLowerCase().endsWith(`.${extension}`) ? base : `${base}.${extension}`
+  return gzipped ? `${withExtension}.gz` : withExtension
+}
+
+// Converted result values as Excel cells: dates and timestamps become real dates,
+// nested values are written as JSON text
+export function xlsxCellValue(value: any, type: string): CellValue {
+  if (value === null || value === undefined) return null
+  if (typeof value === 'number' || typeof value === 'boolean') return value
+  if (typeof value === 'string') {
+    if (type === 'DATE' && /^\d{4}-\d{2}-\d{2}$/.test(value)) return new Date(`${value}T00:00:00Z`)
+    if (type === 'TIMESTAMP' && /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}/.test(value)) return new Date(`${value.replace(' ', 'T')}Z`)
+    if (type === 'TIMESTAMP WITH TIME ZONE' && !Number.isNaN(Date.parse(value))) return new Date(value)
+    return value
+  }
+  return JSON.stringify(value)
+}
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildFunctionCatalog,
+  findTableReferences,
+  getCompletionContext,
+  maskSql,
+  quoteIdentifier,
+  suggestionsFor,
+  type CompletionCatalog
+} from './sqlContext'
+
+// Context at the position marked with |
+function contextAt(sqlWithCursor: string) {
+  const offset = sqlWithCursor.indexOf('|')
+  return getCompletionContext(sqlWithCursor.replace('|', ''), offset)
+}
+
+const catalog: CompletionCatalog = {
+  tables: [
+    { name: 'sales', columns: [{ name: 'amount', type: 'DOUBLE', nullable: true }, { name: 'region id', type: 'INTEGER', nullable: true }] },
+    { name: 'regions', columns: [{ name: 'id', type: 'INTEGER', nullable: false }, { name: 'name', type: 'VARCHAR', nullable: true }] }
+  ],
+  functions: [
+    { name: 'upper', type: 'scalar', signatures: ['upper(string VARCHAR) → VARCHAR'] },
+    { name: 'read_csv', type: 'table', signatures: ['read_csv(path VARCHAR)'] }
+  ]
+}
+
+describe('findTableReferences', () => {
+  it('should collect tables and aliases from FROM and JOIN clauses', () => {
+    expect(findTableReferences('SELECT * FROM sales s JOIN regions AS r ON s.region_id = r.id WHERE 1')).toEqual([
+      { table: 'sales', alias: 's' },
+      { table: 'regions', alias: 'r' }
+    ])
+  })
+
+  it('should handle comma lists, quoted and qualified names', () => {
+    expect(findTableReferences('FROM main."my table", sales WHERE x')).toEqual([
+      { table: 'my table' },
+      { table: 'sales' }
+    ])
+  })
+
+  it('should ignore names inside strings and comments', () => {
+    expect(findTableReferences("SELECT 'from fake' -- from other\nFROM sales")).toEqual([{ table: 'sales' }])
+  })
+})
+
+describe('getCompletionContext', () => {
+  it('should detect qualified member access', () => {
+    expect(contextAt('SELECT s.am| FROM sales s')).toMatchObject({ kind: 'member', qualifier: 's', prefix: 'am' })
+  })
+
+  it('should expect a table after FROM, JOIN and FROM-list commas', () => {
+    expect(contextAt('SELECT * FROM |').kind).toBe('table')
+    expect(contextAt('SELECT * FROM sales JOIN re|').kind).toBe('table')
+    expect(contextAt('SELECT * FROM sales, |').kind).toBe('table')
+    expect(contextAt('SELECT * FROM sales |').kind).toBe('keyword')
+  })
+
+  it('should expect columns in SELECT, WHERE and ORDER BY', () => {
+    expect(contextAt('SELECT am| FROM sales')).toMatchObject({ kind: 'column', prefix: 'am', tables: [{ table: 'sales' }] })
+    expect(contextAt('SELECT * FROM sales WHERE amount > 1 AND |').kind).toBe('column')
+    expect(contextAt('SELECT * FROM sales ORDER BY |').kind).toBe('column')
+    expect(contextAt('SELECT count(| FROM sales').kind).toBe('column')
+  })
+
+  it('should only look at the statement under the cursor', () => {
+    expect(contextAt('SELECT * FROM regions; SELECT | FROM sales').tables).toEqual([{ table: 'sales' }])
+  })
+
+  it('should not complete inside strings or comments', () => {
+    expect(contextAt("SELECT 'abc|").kind).toBe('none')
+    expect(contextAt('-- SELECT |').kind).toBe('none')
+  })
+})
+
+describe('suggestionsFor', () => {
+  it('should suggest columns of an aliased table, quoting when needed', () => {
+    const suggestions = suggestionsFor(contextAt('SELECT s.| FROM sales s'), catalog)
+    expect(suggestions.map(s => s.insertText)).toEqual(['amount', '"region id"'])
+  })
+
+  it('should limit column suggestions to tables in scope', () => {
+    const labels = suggestionsFor(contextAt('SELECT | FROM regions'), catalog).filter(s => s.kind === 'column').map(s => s.label)
+    expect(labels).toEqual(['id', 'name'])
+  })
+
+  it('should offer table functions only where a table is expected', () => {
+    const fromKinds = suggestionsFor(contextAt('SELECT * FROM |'), catalog).map(s => s.label)
+    expect(fromKinds).toEqual(['sales', 'regions', 'read_csv'])
+    const selectFns = suggestionsFor(contextAt('SELECT |'), catalog).filter(s => s.kind === 'function')
+    expect(selectFns.map(s => s.insertText)).toEqual(['upper($0)'])
+  })
+})
+
+describe('buildFunctionCatalog', () => {
+  it('should group overloads into signatures', () => {
+    const functions = buildFunctionCatalog([
+      { function_name: 'round', function_type: 'scalar', description: 'Rounds x', return_type: 'DOUBLE', parameters: ['x'], parameter_types: ['DOUBLE'] },
+      { function_name: 'round', function_type: 'scalar', description: null, return_type: 'DOUBLE', parameters: ['x', 'precision'], parameter_types: ['DOUBLE', 'INTEGER'] },
+      { function_name: 'concat', function_type: 'scalar', return_type: 'VARCHAR', parameters: [], varargs: 'ANY' }
+    ])
+    expect(functions).toEqual([
+      { name: 'round', type: 'scalar', description: 'Rounds x', signatures: ['round(x DOUBLE) → DOUBLE', 'round(x DOUBLE, precision INTEGER) → DOUBLE'] },
+      { name: 'concat', type: 'scalar', signatures: ['concat(ANY...) → VARCHAR'] }
+    ])
+  })
+})
+
+describe('maskSql', () => {
+  it('should keep offsets while blanking literals', () => {
+    const sql = "SELECT 'it''s' /* c */ FROM t"
+    const { text, unterminated } = maskSql(sql)
+    expect(text).toHaveLength(sql.length)
+    expect(text).not.toContain('it')
+    expect(unterminated).toBe(false)
+  })
+})
+
+describe('quoteIdentifier', () => {
+  it('should quote names DuckDB would not accept bare', () => {
+    expect(quoteIdentifier('sales_2024')).toBe('sales_2024')
+    expect(quoteIdentifier('Select')).toBe('"Select"')
+    expect(quoteIdentifier('order')).toBe('"order"')
+    expect(quoteIdentifier('sold at')).toBe('"sold at"')
+    expect(quoteIdentifier('say "hi"')).toBe('"say ""hi"""')
+  })
+})
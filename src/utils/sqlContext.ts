@@ -0,0 +1,346 @@
+// Lightweight SQL context analysis for editor completions.
+// This is not a parser: it tokenizes the statement around the cursor and looks at the
+// nearest clause keyword to decide what kind of identifier is being typed.
+
+import type { Column, SqlFunction } from '../types'
+
+export interface TableReference {
+  table: string
+  alias?: string
+}
+
+export type CompletionKind = 'member' | 'table' | 'column' | 'keyword' | 'none'
+
+export interface CompletionContext {
+  kind: CompletionKind
+  prefix: string // partial identifier before the cursor
+  qualifier?: string // for 'member': the name before the dot
+  tables: TableReference[] // tables referenced by the statement under the cursor
+}
+
+export interface CompletionCatalog {
+  tables: Array<{ name: string; columns: Column[] }>
+  functions: SqlFunction[]
+}
+
+export type SuggestionKind = 'keyword' | 'table' | 'column' | 'function'
+
+export interface Suggestion {
+  label: string
+  kind: SuggestionKind
+  insertText: string
+  detail?: string
+  documentation?: string
+  snippet?: boolean // insertText uses snippet placeholders
+}
+
+export const SQL_KEYWORDS = [
+  'SELECT', 'FROM', 'WHERE', 'JOIN', 'LEFT', 'RIGHT', 'INNER', 'OUTER', 'FULL', 'CROSS', 'ON', 'USING',
+  'GROUP', 'BY', 'ORDER', 'HAVING', 'QUALIFY', 'LIMIT', 'OFFSET', 'UNION', 'EXCEPT', 'INTERSECT', 'ALL',
+  'DISTINCT', 'AS', 'AND', 'OR', 'NOT', 'IN', 'EXISTS', 'BETWEEN', 'LIKE', 'ILIKE', 'IS', 'NULL', 'TRUE',
+  'FALSE', 'CASE', 'WHEN', 'THEN', 'ELSE', 'END', 'CAST', 'WITH', 'ASC', 'DESC', 'CREATE', 'TABLE', 'VIEW',
+  'INSERT', 'INTO', 'VALUES', 'UPDATE', 'SET', 'DELETE', 'DROP', 'ALTER', 'DESCRIBE', 'SUMMARIZE', 'PIVOT', 'UNPIVOT'
+]
+
+// Words that end a table reference rather than naming its alias
+const NON_ALIAS_WORDS = new Set([
+  'where', 'join', 'left', 'right', 'inner', 'outer', 'full', 'cross', 'natural', 'positional', 'asof',
+  'semi', 'anti', 'lateral', 'on', 'using', 'group', 'order', 'having', 'qualify', 'window', 'limit',
+  'offset', 'union', 'except', 'intersect', 'select', 'from', 'as', 'sample', 'tablesample', 'pivot', 'unpivot'
+])
+
+// Clause keywords that decide what an identifier at the cursor refers to
+const COLUMN_CLAUSES = new Set(['select', 'where', 'on', 'by', 'having', 'qualify', 'set', 'when', 'then', 'else', 'and', 'or'])
+const TABLE_CLAUSES = new Set(['from', 'join', 'into', 'update', 'table', 'describe', 'summarize'])
+const CLAUSE_WORDS = new Set([...COLUMN_CLAUSES, ...TABLE_CLAUSES, 'limit', 'offset', 'with', 'values', 'using'])
+
+// One row of duckdb_functions(); overloads of a function appear as separate rows
+export interface FunctionRow {
+  function_name: string
+  function_type: string
+  description?: string | null
+  return_type?: string | null
+  parameters?: string[] | null
+  parameter_types?: string[] | null
+  varargs?: string | null
+}
+
+// Group duckdb_functions() rows into one entry per function name and type
+export function buildFunctionCatalog(rows: FunctionRow[]): SqlFunction[] {
+  const byKey = new Map<string, SqlFunction>()
+  for (const row of rows) {
+    const key = `${row.function_type}:${row.function_name}`
+    let fn = byKey.get(key)
+    if (!fn) {
+      fn = { name: row.function_name, type: row.function_type, signatures: [] }
+      byKey.set(key, fn)
+    }
+    if (!fn.description && row.description) fn.description = row.description
+
+    const names = row.parameters ?? []
+    const types = row.parameter_types ?? []
+    const params = names.map((name, i) => (types[i] ? `${name} ${types[i]}` : name))
+    if (row.varargs) params.push(`${row.varargs}...`)
+    const signature = `${row.function_name}(${params.join(', ')})${row.return_type ? ` → ${row.return_type}` : ''}`
+    if (!fn.signatures.includes(signature)) fn.signatures.push(signature)
+  }
+  return [...byKey.values()]
+}
+
+type Token = { type: 'word' | 'quoted' | 'punct'; value: string }
+
+// Blank out comments and string literal contents so they never look like SQL.
+// Returns the masked text and whether the end of the text lies inside a string or comment.
+export function maskSql(sql: string): { text: string; unterminated: boolean } {
+  let out = ''
+  let i = 0
+  let unterminated = false
+  while (i < sql.length) {
+    const ch = sql[i]
+    if (ch === '-' && sql[i + 1] === '-') {
+      const end = sql.indexOf('\n', i)
+      const stop = end === -1 ? sql.length : end
+      if (end === -1) unterminated = true
+      out += ' '.repeat(stop - i)
+      i = stop
+    } else if (ch === '/' && sql[i + 1] === '*') {
+      const end = sql.indexOf('*/', i + 2)
+      const stop = end === -1 ? sql.length : end + 2
+      if (end === -1) unterminated = true
+      out += ' '.repeat(stop - i)
+      i = stop
+    } else if (ch === "'") {
+      let j = i + 1
+      while (j < sql.length && !(sql[j] === "'" && sql[j + 1] !== "'")) {
+        j += sql[j] === "'" ? 2 : 1
+      }
+      if (j >= sql.length) {
+        unterminated = true
+        out += "'" + ' '.repeat(sql.length - i - 1)
+        i = sql.length
+      } else {
+        out += "'" + ' '.repeat(j - i - 1) + "'"
+        i = j + 1
+      }
+    } else {
+      out += ch
+      i++
+    }
+  }
+  return { text: out, unterminated }
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = []
+  const pattern = /"((?:[^"]|"")*)"|([A-Za-z_][\w$]*)|([(),.;*])/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(text))) {
+    if (match[1] !== undefined) {
+      tokens.push({ type: 'quoted', value: match[1].replace(/""/g, '"') })
+    } else if (match[2] !== undefined) {
+      tokens.push({ type: 'word', value: match[2] })
+    } else {
+      tokens.push({ type: 'punct', value: match[3] })
+    }
+  }
+  return tokens
+}
+
+const isWord = (token: Token | undefined, ...words: string[]) =>
+  !!token && token.type === 'word' && words.includes(token.value.toLowerCase())
+
+const isIdentifier = (token: Token | undefined) =>
+  !!token && (token.type === 'quoted' || token.type === 'word')
+
+// Tables referenced in FROM / JOIN clauses, with their aliases
+export function findTableReferences(sql: string): TableReference[] {
+  const tokens = tokenize(maskSql(sql).text)
+  const refs: TableReference[] = []
+
+  for (let i = 0; i < tokens.length; i++) {
+    if (!isWord(tokens[i], 'from', 'join')) continue
+    let j = i + 1
+    for (;;) {
+      if (!isIdentifier(tokens[j]) || isWord(tokens[j], 'select')) break
+      // Qualified names (schema.table) keep only the last part, which is what views are named by
+      let table = tokens[j].value
+      j++
+      while (tokens[j]?.value === '.' && isIdentifier(tokens[j + 1])) {
+        table = tokens[j + 1].value
+        j += 2
+      }
+      // Table functions such as read_csv('...') are not tables we know columns for
+      if (tokens[j]?.value === '(') break
+
+      let alias: string | undefined
+      if (isWord(tokens[j], 'as')) j++
+      if (isIdentifier(tokens[j]) && !(tokens[j].type === 'word' && NON_ALIAS_WORDS.has(tokens[j].value.toLowerCase()))) {
+        alias = tokens[j].value
+        j++
+      }
+      refs.push(alias ? { table, alias } : { table })
+
+      // FROM a, b
+      if (tokens[j]?.value !== ',') break
+      j++
+    }
+  }
+  return refs
+}
+
+// The statement containing the offset, and the offset relative to it
+function currentStatement(masked: string, offset: number): { text: string; offset: number } {
+  const start = masked.lastIndexOf(';', offset - 1) + 1
+  const endIndex = masked.indexOf(';', offset)
+  const end = endIndex === -1 ? masked.length : endIndex
+  return { text: masked.slice(start, end), offset: offset - start }
+}
+
+export function getCompletionContext(sql: string, offset: number): CompletionContext {
+  const before = maskSql(sql.slice(0, offset))
+  if (before.unterminated) return { kind: 'none', prefix: '', tables: [] }
+
+  const masked = maskSql(sql).text
+  const statement = currentStatement(masked, offset)
+  const tables = findTableReferences(statement.text)
+  const head = statement.text.slice(0, statement.offset)
+
+  const member = /("(?:[^"]|"")+"|[A-Za-z_][\w$]*)\.([\w$]*)$/.exec(head)
+  if (member) {
+    const qualifier = member[1].startsWith('"') ? member[1].slice(1, -1).replace(/""/g, '"') : member[1]
+    return { kind: 'member', prefix: member[2], qualifier, tables }
+  }
+
+  const prefix = /[\w$]*$/.exec(head)![0]
+  const tokens = tokenize(head.slice(0, head.length - prefix.length))
+  const previous = tokens[tokens.length - 1]
+
+  // Walk back to the nearest clause keyword, skipping over closed parenthesised groups
+  let depth = 0
+  let clause: string | undefined
+  let clauseIndex = -1
+  for (let i = tokens.length - 1; i >= 0; i--) {
+    const token = tokens[i]
+    if (token.value === ')') depth++
+    else if (token.value === '(') depth = Math.max(0, depth - 1)
+    else if (depth === 0 && token.type === 'word' && CLAUSE_WORDS.has(token.value.toLowerCase())) {
+      clause = token.value.toLowerCase()
+      clauseIndex = i
+      break
+    }
+  }
+
+  if (!clause) return { kind: 'keyword', prefix, tables }
+  if (TABLE_CLAUSES.has(clause)) {
+    // Right after FROM / JOIN or a comma in the FROM list a table name is expected
+    const expectsTable = clauseIndex === tokens.length - 1 || (clause === 'from' && previous?.value === ',')
+    return { kind: expectsTable ? 'table' : 'keyword', prefix, tables }
+  }
+  if (COLUMN_CLAUSES.has(clause)) return { kind: 'column', prefix, tables }
+  return { kind: 'keyword', prefix, tables }
+}
+
+// Resolve a qualifier (alias or table name) to a table in the catalog
+export function resolveQualifier(
+  qualifier: string,
+  tables: TableReference[],
+  catalog: CompletionCatalog
+): CompletionCatalog['tables'][number] | undefined {
+  const lower = qualifier.toLowerCase()
+  const ref = tables.find(t => t.alias?.toLowerCase() === lower) ?? tables.find(t => t.table.toLowerCase() === lower)
+  const name = (ref?.table ?? qualifier).toLowerCase()
+  return catalog.tables.find(t => t.name.toLowerCase() === name)
+}
+
+// DuckDB's reserved keywords (duckdb_keywords() WHERE keyword_category = 'reserved')
+const RESERVED_WORDS = new Set([
+  'all', 'analyse', 'analyze', 'and', 'any', 'array', 'as', 'asc', 'asymmetric', 'both', 'case', 'cast', 'check',
+  'collate', 'column', 'constraint', 'create', 'default', 'deferrable', 'desc', 'describe', 'distinct', 'do', 'else',
+  'end', 'except', 'false', 'fetch', 'for', 'foreign', 'from', 'group', 'having', 'in', 'initially', 'intersect',
+  'into', 'lambda', 'lateral', 'leading', 'limit', 'not', 'null', 'offset', 'on', 'only', 'or', 'order', 'pivot',
+  'pivot_longer', 'pivot_wider', 'placing', 'primary', 'qualify', 'references', 'returning', 'select', 'show', 'some',
+  'summarize', 'symmetric', 'table', 'then', 'to', 'trailing', 'true', 'union', 'unique', 'unpivot', 'using',
+  'variadic', 'when', 'where', 'window', 'with'
+])
+
+export function isReservedWord(name: string): boolean {
+  return RESERVED_WORDS.has(name.toLowerCase())
+}
+
+// Quote identifiers that DuckDB would not accept bare
+export function quoteIdentifier(name: string): string {
+  const bare = /^[A-Za-z_][\w$]*$/.test(name) && !isReservedWord(name)
+  return bare ? name : `"${name.replace(/"/g, '""')}"`
+}
+
+function columnSuggestions(table: CompletionCatalog['tables'][number]): Suggestion[] {
+  return table.columns.map(column => ({
+    label: column.name,
+    kind: 'column',
+    insertText: quoteIdentifier(column.name),
+    detail: `${column.type} · ${table.name}`
+  }))
+}
+
+function functionSuggestions(functions: SqlFunction[], types: string[]): Suggestion[] {
+  return functions
+    .filter(fn => types.includes(fn.type))
+    .map(fn => ({
+      label: fn.name,
+      kind: 'function',
+      insertText: /^[A-Za-z_][\w$]*$/.test(fn.name) ? `${fn.name}($0)` : fn.name,
+      snippet: /^[A-Za-z_][\w$]*$/.test(fn.name),
+      detail: fn.signatures[0],
+      documentation: fn.description
+    }))
+}
+
+const keywordSuggestions = (): Suggestion[] =>
+  SQL_KEYWORDS.map(keyword => ({ label: keyword, kind: 'keyword', insertText: keyword, detail: 'SQL Keyword' }))
+
+const tableSuggestions = (catalog: CompletionCatalog): Suggestion[] =>
+  catalog.tables.map(table => ({
+    label: table.name,
+    kind: 'table',
+    insertText: quoteIdentifier(table.name),
+    detail: `Table · ${table.columns.length} columns`
+  }))
+
+// Suggestions for a completion context; de-duplicated by label and kind
+export function suggestionsFor(context: CompletionContext, catalog: CompletionCatalog): Suggestion[] {
+  let suggestions: Suggestion[]
+  switch (context.kind) {
+    case 'none':
+      return []
+    case 'member': {
+      const table = resolveQualifier(context.qualifier!, context.tables, catalog)
+      return table ? columnSuggestions(table) : []
+    }
+    case 'table':
+      suggestions = [...tableSuggestions(catalog), ...functionSuggestions(catalog.functions, ['table', 'table_macro'])]
+      break
+    case 'column': {
+      // Columns of the tables in scope, or of every table while FROM has not been written yet
+      const inScope = context.tables
+        .map(ref => resolveQualifier(ref.alias ?? ref.table, context.tables, catalog))
+        .filter((t): t is CompletionCatalog['tables'][number] => !!t)
+      const sources = inScope.length > 0 ? inScope : catalog.tables
+      suggestions = [
+        ...sources.flatMap(columnSuggestions),
+        ...functionSuggestions(catalog.functions, ['scalar', 'aggregate', 'macro']),
+        ...keywordSuggestions()
+      ]
+      break
+    }
+    default:
+      suggestions = [...keywordSuggestions(), ...tableSuggestions(catalog)]
+  }
+
+  const seen = new Set<string>()
+  return suggestions.filter(s => {
+    const key = `${s.kind}:${s.label}`
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
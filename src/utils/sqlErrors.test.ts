@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest'
+import { closestMatch, diagnoseSqlError, formatDiagnostic, levenshtein, parseSqlError } from './sqlErrors'
+import type { CompletionCatalog } from './sqlContext'
+
+const catalog: CompletionCatalog = {
+  tables: [
+    { name: 'sales', columns: [{ name: 'amount', type: 'DOUBLE', nullable: true }, { name: 'region', type: 'VARCHAR', nullable: true }] },
+    { name: 'regions', columns: [{ name: 'id', type: 'INTEGER', nullable: false }] }
+  ],
+  functions: [{ name: 'upper', type: 'scalar', signatures: ['upper(string VARCHAR) → VARCHAR'] }]
+}
+
+describe('parseSqlError', () => {
+  it('should locate the caret under a LINE excerpt', () => {
+    const sql = 'SELECT amount\nFROM sales\nWHERE amout > 1'
+    const message = [
+      'Binder Error: Referenced column "amout" not found in FROM clause!',
+      'Candidate bindings: "sales.amount"',
+      'LINE 3: WHERE amout > 1',
+      '              ^'
+    ].join('\n')
+
+    expect(parseSqlError(message, sql)).toEqual({
+      kind: 'Binder',
+      message: 'Referenced column "amout" not found in FROM clause!',
+      line: 3,
+      column: 7,
+      length: 5,
+      identifier: 'amout',
+      identifierKind: 'column'
+    })
+  })
+
+  it('should map a caret in a truncated excerpt back onto the source line', () => {
+    const padding = 'x'.repeat(60)
+    const sql = `SELECT '${padding}' AS a, FROMM sales`
+    const message = [
+      'Parser Error: syntax error at or near "sales"',
+      `LINE 1: ...${padding}' AS a, FROMM sales`,
+      `${' '.repeat(8 + 3 + padding.length + "' AS a, FROMM ".length)}^`
+    ].join('\n')
+
+    const diagnostic = parseSqlError(message, sql)
+    expect(diagnostic.kind).toBe('Parser')
+    expect(diagnostic.line).toBe(1)
+    expect(sql.slice(diagnostic.column! - 1, diagnostic.column! - 1 + diagnostic.length!)).toBe('sales')
+  })
+
+  it('should fall back to the first occurrence of the unknown name', () => {
+    const message = 'Catalog Error: Table with name salez does not exist!\nDid you mean "sales"?'
+    expect(parseSqlError(message, 'SELECT *\n  FROM salez')).toMatchObject({
+      kind: 'Catalog',
+      line: 2,
+      column: 8,
+      length: 5,
+      identifier: 'salez',
+      identifierKind: 'table'
+    })
+  })
+
+  it('should keep messages without a position', () => {
+    expect(parseSqlError('Out of memory', 'SELECT 1')).toEqual({ kind: 'Query', message: 'Out of memory' })
+  })
+})
+
+describe('diagnoseSqlError', () => {
+  it('should suggest the closest known column, table or function', () => {
+    const column = diagnoseSqlError('Binder Error: Referenced column "s.amout" not found', 'SELECT s.amout FROM sales s', catalog)
+    expect(column.suggestion).toBe('amount')
+
+    const table = diagnoseSqlError('Catalog Error: Table with name "region" does not exist!', 'FROM region', catalog)
+    expect(table.suggestion).toBe('regions')
+
+    const fn = diagnoseSqlError('Catalog Error: Scalar Function with name uper does not exist!', 'SELECT uper(region) FROM sales', catalog)
+    expect(fn.suggestion).toBe('upper')
+  })
+
+  it('should not suggest unrelated names', () => {
+    const diagnostic = diagnoseSqlError('Binder Error: Referenced column "customer" not found', 'SELECT customer FROM sales', catalog)
+    expect(diagnostic.suggestion).toBeUndefined()
+  })
+})
+
+describe('closestMatch', () => {
+  it('should pick the nearest candidate within the edit budget', () => {
+    expect(levenshtein('kitten', 'sitting')).toBe(3)
+    expect(closestMatch('REGOIN', ['region', 'regions', 'id'])).toBe('region')
+    expect(closestMatch('region', ['region'])).toBeUndefined()
+  })
+})
+
+describe('formatDiagnostic', () => {
+  it('should include the position and hint', () => {
+    expect(formatDiagnostic({ kind: 'Binder', message: 'Unknown column', line: 2, column: 8, suggestion: 'amount' }))
+      .toBe('Binder Error (line 2, col 8): Unknown column Did you mean "amount"?')
+  })
+})
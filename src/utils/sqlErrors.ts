@@ -0,0 +1,146 @@
+// Turn DuckDB error messages into editor diagnostics: the error position (from the
+// "LINE n:" excerpt and caret DuckDB appends) and a "did you mean" hint for unknown names.
+
+import type { CompletionCatalog } from './sqlContext'
+
+export interface SqlDiagnostic {
+  kind: string // Parser, Binder, Catalog, ...
+  message: string // first line of the message without the "<Kind> Error:" prefix
+  line?: number // 1-based position in the query text
+  column?: number
+  length?: number
+  identifier?: string // unknown table, column or function named by the error
+  identifierKind?: 'table' | 'column' | 'function'
+  suggestion?: string // closest known name for identifier
+}
+
+const UNKNOWN_NAME_PATTERNS: Array<{ pattern: RegExp; kind: 'table' | 'column' | 'function' }> = [
+  { pattern: /Referenced column "([^"]+)" not found/i, kind: 'column' },
+  { pattern: /does not have a column named "([^"]+)"/i, kind: 'column' },
+  { pattern: /Referenced table "([^"]+)" not found/i, kind: 'table' },
+  { pattern: /Table with name "?([^"\s!]+)"? does not exist/i, kind: 'table' },
+  { pattern: /Function with name "?([^"\s!(]+)"? does not exist/i, kind: 'function' }
+]
+
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// Closest candidate within a small edit distance (case-insensitive), if any
+export function closestMatch(name: string, candidates: string[]): string | undefined {
+  const target = name.toLowerCase()
+  const maxDistance = Math.max(2, Math.floor(target.length / 3))
+  let best: { candidate: string; distance: number } | undefined
+  for (const candidate of new Set(candidates)) {
+    const distance = levenshtein(target, candidate.toLowerCase())
+    if (distance > 0 && distance <= maxDistance && (!best || distance < best.distance)) {
+      best = { candidate, distance }
+    }
+  }
+  return best?.candidate
+}
+
+// 1-based line/column of a caret under a "LINE n: ..." excerpt, mapped back onto the query text.
+// DuckDB trims long lines to a window around the error and marks the cut with "...".
+function locateCaret(message: string, sql: string): { line: number; column: number } | undefined {
+  const lines = message.split('\n')
+  for (let i = 0; i < lines.length - 1; i++) {
+    const excerpt = /^LINE (\d+): ?/.exec(lines[i])
+    if (!excerpt) continue
+    const caret = lines[i + 1].indexOf('^')
+    if (caret === -1) continue
+
+    const line = Number(excerpt[1])
+    const source = sql.split('\n')[line - 1] ?? ''
+    let shown = lines[i].slice(excerpt[0].length)
+    let offset = caret - excerpt[0].length
+    if (shown.startsWith('...')) {
+      shown = shown.slice(3)
+      offset -= 3
+    }
+    shown = shown.replace(/\.\.\.$/, '')
+    const start = source.indexOf(shown.slice(0, Math.max(offset, 1)))
+    return { line, column: Math.max(0, (start === -1 ? 0 : start) + offset) + 1 }
+  }
+  return undefined
+}
+
+// 1-based position of the first whole-word occurrence of name
+function locateIdentifier(sql: string, name: string): { line: number; column: number } | undefined {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  const match = new RegExp(`(^|[^\\w$"])"?(${escaped})"?(?![\\w$])`, 'i').exec(sql)
+  if (!match) return undefined
+  const index = match.index + match[1].length + match[0].slice(match[1].length).indexOf(match[2])
+  const before = sql.slice(0, index).split('\n')
+  return { line: before.length, column: before[before.length - 1].length + 1 }
+}
+
+export function parseSqlError(errorMessage: string, sql: string): SqlDiagnostic {
+  const firstLine = errorMessage.split('\n')[0].trim()
+  const heading = /^(?:Error: )?(\w+(?: \w+)?) Error: (.*)$/.exec(firstLine)
+  const diagnostic: SqlDiagnostic = {
+    kind: heading ? heading[1] : 'Query',
+    message: heading ? heading[2] : firstLine
+  }
+
+  for (const { pattern, kind } of UNKNOWN_NAME_PATTERNS) {
+    const match = pattern.exec(errorMessage)
+    if (match) {
+      diagnostic.identifier = match[1]
+      diagnostic.identifierKind = kind
+      break
+    }
+  }
+
+  const nearToken = /at or near "([^"]*)"/.exec(errorMessage)?.[1]
+  const position = locateCaret(errorMessage, sql)
+    ?? (diagnostic.identifier ? locateIdentifier(sql, diagnostic.identifier) : undefined)
+    ?? (nearToken ? locateIdentifier(sql, nearToken) : undefined)
+  if (position) {
+    diagnostic.line = position.line
+    diagnostic.column = position.column
+    const token = diagnostic.identifier ?? nearToken
+    const rest = (sql.split('\n')[position.line - 1] ?? '').slice(position.column - 1)
+    diagnostic.length = token && rest.toLowerCase().startsWith(token.toLowerCase())
+      ? token.length
+      : Math.max(1, /^[\w$]*/.exec(rest)![0].length)
+  }
+  return diagnostic
+}
+
+// Parse an error and suggest the closest known table, column or function for unknown names
+export function diagnoseSqlError(
+  errorMessage: string,
+  sql: string,
+  catalog: CompletionCatalog
+): SqlDiagnostic {
+  const diagnostic = parseSqlError(errorMessage, sql)
+  if (!diagnostic.identifier) return diagnostic
+
+  // Qualified references (s.amout) are matched on the column part
+  const name = diagnostic.identifier.split('.').pop()!
+  const candidates = diagnostic.identifierKind === 'table'
+    ? catalog.tables.map(t => t.name)
+    : diagnostic.identifierKind === 'function'
+      ? catalog.functions.map(f => f.name)
+      : catalog.tables.flatMap(t => t.columns.map(c => c.name))
+  diagnostic.suggestion = closestMatch(name, candidates)
+  return diagnostic
+}
+
+// One-line description for status displays, e.g. "Binder Error (line 2, col 8): ..."
+export function formatDiagnostic(diagnostic: SqlDiagnostic): string {
+  const where = diagnostic.line ? ` (line ${diagnostic.line}, col ${diagnostic.column})` : ''
+  const hint = diagnostic.suggestion ? ` Did you mean "${diagnostic.suggestion}"?` : ''
+  return `${diagnostic.kind} Error${where}: ${diagnostic.message}${hint}`
+}
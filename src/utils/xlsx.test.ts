@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import JSZip from 'jszip'
+import { listXlsxSheets, readXlsxSheet, sheetToArrowTable, writeXlsxSheet } from './xlsx'
+
+// Smallest workbook the reader understands: two sheets, shared strings and a date style
+async function makeWorkbook(options: { date1904?: boolean } = {}): Promise<Uint8Array> {
+  const zip = new JSZip()
+  zip.file('xl/workbook.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+  <workbookPr${options.date1904 ? ' date1904="1"' : ''}/>
+  <sheets>
+    <sheet name="Orders" sheetId="1" r:id="rId1"/>
+    <sheet name="Notes &amp; Links" sheetId="2" r:id="rId2"/>
+  </sheets>
+</workbook>`)
+  zip.file('xl/_rels/workbook.xml.rels', `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+  <Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="/xl/worksheets/sheet2.xml"/>
+</Relationships>`)
+  zip.file('xl/sharedStrings.xml', `<sst><si><t>id</t></si><si><t>customer</t></si><si><r><t>Ada </t></r><r><t>Lovelace</t></r></si><si><t>ordered</t></si><si><t xml:space="preserve">Grace &amp; co</t></si></sst>`)
+  zip.file('xl/styles.xml', `<styleSheet>
+  <numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy\\-mm\\-dd"/></numFmts>
+  <cellXfs count="3"><xf numFmtId="0"/><xf numFmtId="164"/><xf numFmtId="2"/></cellXfs>
+</styleSheet>`)
+  zip.file('xl/worksheets/sheet1.xml', `<worksheet><sheetData>
+  <row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="s"><v>3</v></c><c r="D1" t="inlineStr"><is><t>total</t></is></c><c r="E1" t="inlineStr"><is><t>paid</t></is></c><c r="F1" t="s"><v>0</v></c></row>
+  <row r="2"><c r="A2"><v>1</v></c><c r="B2" t="s"><v>2</v></c><c r="C2" s="1"><v>45292</v></c><c r="D2" s="2"><v>10.5</v></c><c r="E2" t="b"><v>1</v></c><c r="F2" t="e"><v>#N/A</v></c></row>
+  <row r="3"><c r="A3"><v>2</v></c><c r="B3" t="s"><v>4</v></c><c r="C3" s="1"><v>45293.5</v></c><c r="E3" t="b"><v>0</v></c><c r="F3" t="str"><v>x</v></c></row>
+</sheetData></worksheet>`)
+  zip.file('xl/worksheets/sheet2.xml', '<worksheet><sheetData><row r="2"><c r="B2" t="inlineStr"><is><t>note</t></is></c></row><row r="3"><c r="B3" t="inlineStr"><is><t>see &lt;wiki&gt;</t></is></c></row></sheetData></worksheet>')
+  return zip.generateAsync({ type: 'uint8array' })
+}
+
+describe('listXlsxSheets', () => {
+  it('should list worksheets in workbook order', async () => {
+    expect(await listXlsxSheets(await makeWorkbook())).toEqual(['Orders', 'Notes & Links'])
+  })
+
+  it('should reject files that are not workbooks', async () => {
+    const zip = new JSZip()
+    zip.file('readme.txt', 'hello')
+    await expect(listXlsxSheets(await zip.generateAsync({ type: 'uint8array' }))).rejects.toThrow(/workbook/)
+  })
+})
+
+describe('readXlsxSheet', () => {
+  it('should read typed cells under a de-duplicated header', async () => {
+    const sheet = await readXlsxSheet(await makeWorkbook())
+
+    expect(sheet.name).toBe('Orders')
+    expect(sheet.columns).toEqual(['id', 'customer', 'ordered', 'total', 'paid', 'id_2'])
+    expect(sheet.rows).toEqual([
+      [1, 'Ada Lovelace', new Date('2024-01-01T00:00:00Z'), 10.5, true, null],
+      [2, 'Grace & co', new Date('2024-01-02T12:00:00Z'), null, false, 'x']
+    ])
+  })
+
+  it('should honour the 1904 date system', async () => {
+    const sheet = await readXlsxSheet(await makeWorkbook({ date1904: true }))
+    expect(sheet.rows[0][2]).toEqual(new Date('2028-01-02T00:00:00Z'))
+  })
+
+  it('should pick a sheet by name and skip leading empty rows and columns', async () => {
+    const sheet = await readXlsxSheet(await makeWorkbook(), 'Notes & Links')
+    expect(sheet.columns).toEqual(['column1', 'note'])
+    expect(sheet.rows).toEqual([[null, 'see <wiki>']])
+    await expect(readXlsxSheet(await makeWorkbook(), 'Missing')).rejects.toThrow(/not found/)
+  })
+})
+
+describe('sheetToArrowTable', () => {
+  it('should type columns from their values', async () => {
+    const table = sheetToArrowTable(await readXlsxSheet(await makeWorkbook()))
+
+    expect(table.numRows).toBe(2)
+    expect(table.schema.fields.map(f => `${f.name}:${f.type}`)).toEqual([
+      'id:Int64',
+      'customer:Utf8',
+      'ordered:Timestamp<MILLISECOND>',
+      'total:Float64',
+      'paid:Bool',
+      'id_2:Utf8'
+    ])
+    expect(table.get(1)?.toJSON()).toMatchObject({ customer: 'Grace & co', total: null, paid: false })
+    expect(table.getChild('ordered')?.get(0)).toBe(Date.UTC(2024, 0, 1))
+  })
+})
+
+describe('writeXlsxSheet', () => {
+  it('should write a workbook the reader reads back', async () => {
+    const bytes = await writeXlsxSheet({
+      name: 'Result: Q1/Q2',
+      columns: ['id', 'note', 'when', 'ok'],
+      rows: [
+        [1, 'Ada & <co>', new Date('2024-01-02T12:00:00Z'), true],
+        [2.5, null, null, false]
+      ]
+    })
+    expect(await listXlsxSheets(bytes)).toEqual(['Result_ Q1_Q2'])
+    const sheet = await readXlsxSheet(bytes)
+    expect(sheet.columns).toEqual(['id', 'note', 'when', 'ok'])
+    expect(sheet.rows).toEqual([
+      [1, 'Ada & <co>', new Date('2024-01-02T12:00:00Z'), true],
+      [2.5, null, null, false]
+    ])
+  })
+})
@@ -0,0 +1,318 @@
+// Minimal .xlsx reader and writer: worksheet cells from the workbook's XML parts, converted to an Arrow
+// table, and single-sheet workbooks for exports. Uses regular expressions and strings rather than
+// DOMParser so it also runs inside the DuckDB worker.
+
+import JSZip from 'jszip'
+import {
+  Bool,
+  Float64,
+  Int64,
+  Table,
+  TimestampMillisecond,
+  Utf8,
+  vectorFromArray,
+  type DataType,
+  type Vector
+} from 'apache-arrow'
+
+export type CellValue = string | number | boolean | Date | null
+
+export interface SheetData {
+  name: string
+  columns: string[]
+  rows: CellValue[][]
+}
+
+interface SheetEntry {
+  name: string
+  path: string
+}
+
+// Built-in number formats that display dates or times
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47])
+const MS_PER_DAY = 86_400_000
+// Serial day 25569 is 1970-01-01 in the 1900 date system; the 1904 system starts 1462 days later
+const UNIX_EPOCH_SERIAL = 25569
+const DATE_1904_OFFSET = 1462
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/_x([0-9A-Fa-f]{4})_/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&(#x[0-9A-Fa-f]+|#\d+|lt|gt|quot|apos|amp);/g, (_, entity: string) => {
+      if (entity[0] === '#') {
+        return String.fromCodePoint(entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10))
+      }
+      return { lt: '<', gt: '>', quot: '"', apos: "'", amp: '&' }[entity]!
+    })
+}
+
+function attributes(tag: string): Record<string, string> {
+  const attrs: Record<string, string> = {}
+  for (const [, name, value] of tag.matchAll(/([\w:]+)="([^"]*)"/g)) {
+    attrs[name] = decodeXml(value)
+  }
+  return attrs
+}
+
+// Concatenated <t> runs of a string item, skipping phonetic hints
+function textContent(xml: string): string {
+  const visible = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '')
+  let text = ''
+  for (const [, run] of visible.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)) text += run
+  return decodeXml(text)
+}
+
+function encodeXml(text: string): string {
+  return text
+    .replace(/[^\t\n\r\u0020-\uFFFF]/g, '') // Control characters are not allowed in XML 1.0
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// 0-based column index of a cell reference such as "AB12"
+function columnIndex(ref: string): number {
+  let index = 0
+  for (const ch of /^[A-Z]+/i.exec(ref)?.[0].toUpperCase() ?? '') {
+    index = index * 26 + ch.charCodeAt(0) - 64
+  }
+  return index - 1
+}
+
+function isDateFormatCode(code: string): boolean {
+  const stripped = code.replace(/"[^"]*"|\[[^\]]*\]|\\./g, '')
+  return /[dmyhs]/i.test(stripped)
+}
+
+function resolvePath(target: string): string {
+  return target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`
+}
+
+async function readPart(zip: JSZip, path: string): Promise<string | null> {
+  const file = zip.file(path)
+  return file ? file.async('string') : null
+}
+
+async function readSheetEntries(zip: JSZip): Promise<SheetEntry[]> {
+  const workbook = await readPart(zip, 'xl/workbook.xml')
+  if (!workbook) throw new Error('Not an Excel workbook: xl/workbook.xml is missing')
+  const rels = await readPart(zip, 'xl/_rels/workbook.xml.rels') ?? ''
+  const targets = new Map<string, string>()
+  for (const [tag] of rels.matchAll(/<Relationship\b[^>]*>/g)) {
+    const { Id, Target } = attributes(tag)
+    if (Id && Target) targets.set(Id, resolvePath(Target))
+  }
+  const entries: SheetEntry[] = []
+  for (const [tag] of workbook.matchAll(/<sheet\b[^>]*>/g)) {
+    const attrs = attributes(tag)
+    const path = targets.get(attrs['r:id'])
+    if (attrs.name && path) entries.push({ name: attrs.name, path })
+  }
+  return entries
+}
+
+export async function listXlsxSheets(bytes: Uint8Array | ArrayBuffer): Promise<string[]> {
+  const zip = await JSZip.loadAsync(bytes)
+  return (await readSheetEntries(zip)).map(entry => entry.name)
+}
+
+// Unique, non-empty column names from the header row
+function headerNames(header: CellValue[], width: number): string[] {
+  const seen = new Set<string>()
+  return Array.from({ length: width }, (_, i) => {
+    const value = header[i]
+    const base = (value instanceof Date ? value.toISOString() : value == null ? '' : String(value)).trim() || `column${i + 1}`
+    let name = base
+    for (let n = 2; seen.has(name.toLowerCase()); n++) name = `${base}_${n}`
+    seen.add(name.toLowerCase())
+    return name
+  })
+}
+
+// Reads one worksheet (the first when no name is given); the first non-empty row is the header
+export async function readXlsxSheet(bytes: Uint8Array | ArrayBuffer, sheetName?: string): Promise<SheetData> {
+  const zip = await JSZip.loadAsync(bytes)
+  const entries = await readSheetEntries(zip)
+  const entry = sheetName === undefined ? entries[0] : entries.find(e => e.name === sheetName)
+  if (!entry) throw new Error(sheetName ? `Worksheet "${sheetName}" not found` : 'Workbook has no worksheets')
+
+  const workbook = (await readPart(zip, 'xl/workbook.xml'))!
+  const date1904 = /<workbookPr\b[^>]*date1904="(1|true)"/.test(workbook)
+
+  const sharedStrings: string[] = []
+  const shared = await readPart(zip, 'xl/sharedStrings.xml')
+  if (shared) {
+    for (const [, item] of shared.matchAll(/<si\b[^>]*>([\s\S]*?)<\/si>/g)) sharedStrings.push(textContent(item))
+  }
+
+  // Style index -> whether the cell's number format is a date
+  const dateStyles: boolean[] = []
+  const styles = await readPart(zip, 'xl/styles.xml')
+  if (styles) {
+    const customDateFormats = new Set<number>()
+    for (const [tag] of styles.matchAll(/<numFmt\b[^>]*>/g)) {
+      const { numFmtId, formatCode } = attributes(tag)
+      if (formatCode && isDateFormatCode(formatCode)) customDateFormats.add(Number(numFmtId))
+    }
+    const cellXfs = /<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/.exec(styles)?.[1] ?? ''
+    for (const [tag] of cellXfs.matchAll(/<xf\b[^>]*>/g)) {
+      const id = Number(attributes(tag).numFmtId ?? 0)
+      dateStyles.push(DATE_FORMAT_IDS.has(id) || customDateFormats.has(id))
+    }
+  }
+
+  const toDate = (serial: number) => new Date(
+    Math.round((serial + (date1904 ? DATE_1904_OFFSET : 0) - UNIX_EPOCH_SERIAL) * MS_PER_DAY)
+  )
+
+  const xml = await readPart(zip, entry.path)
+  if (!xml) throw new Error(`Worksheet "${entry.name}" is missing from the workbook`)
+  const grid: CellValue[][] = []
+  for (const [, , rowBody = ''] of xml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const row: CellValue[] = []
+    let next = 0
+    for (const [, attrText, body = ''] of rowBody.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attrs = attributes(attrText)
+      const index = attrs.r ? columnIndex(attrs.r) : next
+      next = index + 1
+      const raw = /<v\b[^>]*>([\s\S]*?)<\/v>/.exec(body)?.[1]
+      let value: CellValue = null
+      switch (attrs.t) {
+        case 's':
+          value = raw === undefined ? null : sharedStrings[Number(raw)] ?? null
+          break
+        case 'inlineStr':
+          value = textContent(/<is\b[^>]*>([\s\S]*?)<\/is>/.exec(body)?.[1] ?? '')
+          break
+        case 'str':
+          value = raw === undefined ? null : decodeXml(raw)
+          break
+        case 'b':
+          value = raw === undefined ? null : raw === '1'
+          break
+        case 'd':
+          value = raw === undefined ? null : new Date(decodeXml(raw))
+          break
+        case 'e':
+          value = null // #N/A, #DIV/0! ...
+          break
+        default:
+          if (raw !== undefined && raw !== '') {
+            const number = Number(raw)
+            value = dateStyles[Number(attrs.s ?? 0)] ? toDate(number) : number
+          }
+      }
+      row[index] = value
+    }
+    grid.push(Array.from(row, v => v ?? null))
+  }
+
+  const nonEmpty = grid.filter(row => row.some(v => v !== null && v !== ''))
+  if (nonEmpty.length === 0) return { name: entry.name, columns: [], rows: [] }
+  const width = Math.max(...nonEmpty.map(row => row.length))
+  const columns = headerNames(nonEmpty[0], width)
+  const rows = nonEmpty.slice(1).map(row => Array.from({ length: width }, (_, i) => row[i] ?? null))
+  return { name: entry.name, columns, rows }
+}
+
+// Column vectors typed by their values: integers, floats, booleans and dates keep their
+// types; mixed columns fall back to text
+function columnVector(values: CellValue[]): Vector {
+  const present = values.filter((v): v is Exclude<CellValue, null> => v !== null)
+  const all = (check: (v: Exclude<CellValue, null>) => boolean) => present.length > 0 && present.every(check)
+
+  if (all(v => typeof v === 'number' && Number.isSafeInteger(v))) {
+    return vectorFromArray(values.map(v => (v === null ? null : BigInt(v as number))), new Int64())
+  }
+  if (all(v => typeof v === 'number')) {
+    return vectorFromArray(values as (number | null)[], new Float64())
+  }
+  if (all(v => typeof v === 'boolean')) {
+    return vectorFromArray(values as (boolean | null)[], new Bool())
+  }
+  if (all(v => v instanceof Date)) {
+    return vectorFromArray(values.map(v => (v === null ? null : (v as Date).getTime())), new TimestampMillisecond() as DataType)
+  }
+  return vectorFromArray(
+    values.map(v => (v === null ? null : v instanceof Date ? v.toISOString() : String(v))),
+    new Utf8()
+  )
+}
+
+export function sheetToArrowTable(sheet: SheetData): Table {
+  const vectors: Record<string, Vector> = {}
+  sheet.columns.forEach((column, i) => {
+    vectors[column] = columnVector(sheet.rows.map(row => row[i]))
+  })
+  return new Table(vectors)
+}
+
+// Rows a worksheet holds, including the header row
+export const XLSX_MAX_ROWS = 1_048_576
+
+// Column letters of a 0-based index, e.g. 27 -> "AB"
+function columnLetters(index: number): string {
+  let letters = ''
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters
+  }
+  return letters
+}
+
+// Worksheet names are at most 31 characters and may not contain []:*?/\
+function safeSheetName(name: string): string {
+  return name.replace(/[[\]:*?/\\]/g, '_').slice(0, 31) || 'Sheet1'
+}
+
+function cellXml(ref: string, value: CellValue): string {
+  if (value === null) return ''
+  if (typeof value === 'number' && Number.isFinite(value)) return `<c r="${ref}"><v>${value}</v></c>`
+  if (typeof value === 'boolean') return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`
+  if (value instanceof Date) {
+    // Style 1 is the built-in date-time format
+    return `<c r="${ref}" s="1"><v>${value.getTime() / MS_PER_DAY + UNIX_EPOCH_SERIAL}</v></c>`
+  }
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${encodeXml(String(value))}</t></is></c>`
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main'
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships'
+const PACKAGE_REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships'
+
+// Workbook with one worksheet: the column names as a header row, then the rows with strings inline
+export async function writeXlsxSheet(sheet: SheetData): Promise<Uint8Array> {
+  if (sheet.rows.length + 1 > XLSX_MAX_ROWS) {
+    throw new Error(`Excel worksheets hold at most ${(XLSX_MAX_ROWS - 1).toLocaleString()} rows below the header`)
+  }
+  const rowXml = (values: CellValue[], r: number) =>
+    `<row r="${r}">${values.map((value, i) => cellXml(`${columnLetters(i)}${r}`, value)).join('')}</row>`
+  const rows = [rowXml(sheet.columns, 1), ...sheet.rows.map((row, i) => rowXml(row, i + 2))]
+
+  const zip = new JSZip()
+  zip.file('[Content_Types].xml', `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    '</Types>')
+  zip.file('_rels/.rels', `${XML_HEADER}<Relationships xmlns="${PACKAGE_REL_NS}">` +
+    `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/></Relationships>`)
+  zip.file('xl/workbook.xml', `${XML_HEADER}<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">` +
+    `<sheets><sheet name="${encodeXml(safeSheetName(sheet.name))}" sheetId="1" r:id="rId1"/></sheets></workbook>`)
+  zip.file('xl/_rels/workbook.xml.rels', `${XML_HEADER}<Relationships xmlns="${PACKAGE_REL_NS}">` +
+    `<Relationship Id="rId1" Type="${REL_NS}/worksheet" Target="worksheets/sheet1.xml"/>` +
+    `<Relationship Id="rId2" Type="${REL_NS}/styles" Target="styles.xml"/></Relationships>`)
+  zip.file('xl/styles.xml', `${XML_HEADER}<styleSheet xmlns="${MAIN_NS}">` +
+    '<fonts count="1"><font><sz val="11"/><name val="Calibri"/></font></fonts>' +
+    '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+    '<xf numFmtId="22" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs>' +
+    '</styleSheet>')
+  zip.file('xl/worksheets/sheet1.xml', `${XML_HEADER}<worksheet xmlns="${MAIN_NS}"><sheetData>${rows.join('')}</sheetData></worksheet>`)
+  return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' })
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest'
+import {
+  Bool,
+  DateDay,
+  Decimal,
+  Float64,
+  Int32,
+  Int64,
+  TimestampMillisecond,
+  Utf8,
+  vectorFromArray,
+  Table
+} from 'apache-arrow'
+import { convertArrowRow, describeFields, duckdbTypeName } from './arrowConvert'
+
+function rowsOf(table: Table): any[] {
+  return table.toArray().map(row => convertArrowRow(row, table.schema.fields))
+}
+
+describe('convertArrowRow', () => {
+  it('should keep numbers, booleans and strings native and nulls as null', () => {
+    const table = new Table({
+      i: vectorFromArray([1, null], new Int32()),
+      f: vectorFromArray([1.5, 2], new Float64()),
+      b: vectorFromArray([true, null], new Bool()),
+      s: vectorFromArray(['a', null], new Utf8())
+    })
+
+    expect(rowsOf(table)).toEqual([
+      { i: 1, f: 1.5, b: true, s: 'a' },
+      { i: null, f: 2, b: null, s: null }
+    ])
+  })
+
+  it('should return BIGINT as a number when safe and as an exact string otherwise', () => {
+    const table = new Table({ n: vectorFromArray([42n, 9007199254740993n], new Int64()) })
+    expect(rowsOf(table)).toEqual([{ n: 42 }, { n: '9007199254740993' }])
+  })
+
+  it('should format dates and naive timestamps as wall-clock strings', () => {
+    const ms = Date.UTC(2024, 0, 31, 13, 5, 9)
+    const table = new Table({
+      d: vectorFromArray([new Date(Date.UTC(2024, 0, 31))], new DateDay()),
+      ts: vectorFromArray([ms], new TimestampMillisecond())
+    })
+    expect(rowsOf(table)).toEqual([{ d: '2024-01-31', ts: '2024-01-31 13:05:09' }])
+  })
+
+  it('should scale decimals', () => {
+    // Unscaled value 12345 with scale 2, stored as 128-bit little-endian words
+    const narrow = vectorFromArray([new Uint32Array([12345, 0, 0, 0])] as any, new Decimal(2, 10, 128))
+    const wide = vectorFromArray([new Uint32Array([12345, 0, 0, 0])] as any, new Decimal(2, 38, 128))
+    const table = new Table({ narrow, wide })
+    expect(rowsOf(table)).toEqual([{ narrow: 123.45, wide: '123.45' }])
+  })
+})
+
+describe('describeFields', () => {
+  it('should report DuckDB type names', () => {
+    const table = new Table({
+      a: vectorFromArray([1n], new Int64()),
+      b: vectorFromArray(['x'], new Utf8())
+    })
+    expect(describeFields(table.schema.fields)).toEqual([
+      { name: 'a', type: 'BIGINT', nullable: true },
+      { name: 'b', type: 'VARCHAR', nullable: true }
+    ])
+    expect(duckdbTypeName(new Decimal(3, 18, 128))).toBe('DECIMAL(18,3)')
+  })
+
+  it('should fall back to UNKNOWN for fields without a type', () => {
+    expect(describeFields([{ name: 'x' }])).toEqual([{ name: 'x', type: 'UNKNOWN', nullable: true }])
+  })
+})
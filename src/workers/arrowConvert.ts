@@ -0,0 +1,156 @@
+// Arrow → JS conversion for query results. Values keep their native types where
+// they can be cloned to the main thread safely; 64-bit integers and wide decimals
+// that do not fit a double are returned as exact strings.
+
+import { DataType, TimeUnit, util } from 'apache-arrow'
+import type { Column } from '../types'
+
+export type ValueConverter = (value: any) => any
+
+export type ArrowFieldLike = { name: string; type?: DataType; nullable?: boolean }
+
+const MAX_SAFE_DECIMAL_PRECISION = 15
+
+// DuckDB type name for an Arrow data type
+export function duckdbTypeName(type: DataType): string {
+  if (DataType.isNull(type)) return 'NULL'
+  if (DataType.isBool(type)) return 'BOOLEAN'
+  if (DataType.isInt(type)) {
+    const names: Record<number, string> = { 8: 'TINYINT', 16: 'SMALLINT', 32: 'INTEGER', 64: 'BIGINT' }
+    return `${type.isSigned ? '' : 'U'}${names[type.bitWidth]}`
+  }
+  if (DataType.isFloat(type)) return type.precision === 2 ? 'DOUBLE' : 'FLOAT'
+  if (DataType.isDecimal(type)) return `DECIMAL(${type.precision},${type.scale})`
+  if (DataType.isUtf8(type) || DataType.isLargeUtf8(type)) return 'VARCHAR'
+  if (DataType.isBinary(type) || DataType.isLargeBinary(type) || DataType.isFixedSizeBinary(type)) return 'BLOB'
+  if (DataType.isDate(type)) return 'DATE'
+  if (DataType.isTime(type)) return 'TIME'
+  if (DataType.isTimestamp(type)) return type.timezone ? 'TIMESTAMP WITH TIME ZONE' : 'TIMESTAMP'
+  if (DataType.isInterval(type) || DataType.isDuration(type)) return 'INTERVAL'
+  if (DataType.isDictionary(type)) return duckdbTypeName(type.dictionary)
+  if (DataType.isList(type) || DataType.isFixedSizeList(type)) return `${duckdbTypeName(type.children[0].type)}[]`
+  if (DataType.isStruct(type)) return 'STRUCT'
+  if (DataType.isMap(type)) return 'MAP'
+  return String(type)
+}
+
+export function describeFields(fields: ArrowFieldLike[]): Column[] {
+  return fields.map(field => ({
+    name: field.name,
+    type: field.type ? duckdbTypeName(field.type) : 'UNKNOWN',
+    nullable: field.nullable ?? true
+  }))
+}
+
+function bigintToSafe(value: bigint): number | string {
+  const asNumber = Number(value)
+  return Number.isSafeInteger(asNumber) ? asNumber : value.toString()
+}
+
+// Insert the decimal point into an unscaled integer string
+function scaleDecimalString(unscaled: bigint, scale: number): string {
+  const negative = unscaled < 0n
+  const digits = (negative ? -unscaled : unscaled).toString().padStart(scale + 1, '0')
+  const whole = scale > 0 ? `${digits.slice(0, -scale)}.${digits.slice(-scale)}` : digits
+  return negative ? `-${whole}` : whole
+}
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0')
+
+function formatDate(ms: number): string {
+  const d = new Date(ms)
+  return `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`
+}
+
+// Naive timestamps keep their wall-clock value; zoned ones are rendered in UTC (ISO 8601)
+function formatTimestamp(ms: number, zoned: boolean): string {
+  const d = new Date(ms)
+  if (zoned) return d.toISOString()
+  const millis = d.getUTCMilliseconds()
+  return `${formatDate(ms)} ${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}:${pad(d.getUTCSeconds())}${millis ? `.${pad(millis, 3)}` : ''}`
+}
+
+function formatTime(value: number | bigint, unit: TimeUnit): string {
+  const divisors: Record<number, bigint> = {
+    [TimeUnit.SECOND]: 1n,
+    [TimeUnit.MILLISECOND]: 1_000n,
+    [TimeUnit.MICROSECOND]: 1_000_000n,
+    [TimeUnit.NANOSECOND]: 1_000_000_000n
+  }
+  const divisor = divisors[unit]
+  const total = BigInt(value)
+  const seconds = Number(total / divisor)
+  const fraction = total % divisor
+  const base = `${pad(Math.floor(seconds / 3600))}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}`
+  return fraction ? `${base}.${fraction.toString().padStart(divisor.toString().length - 1, '0')}` : base
+}
+
+// Nested values (lists, structs, maps) become plain JSON-compatible structures
+function toPlain(value: any): any {
+  if (value === null || value === undefined) return null
+  if (typeof value === 'bigint') return bigintToSafe(value)
+  if (Array.isArray(value)) return value.map(toPlain)
+  if (typeof value === 'object') {
+    if (typeof value.toJSON === 'function') return toPlain(value.toJSON())
+    if (typeof value[Symbol.iterator] === 'function') return Array.from(value as Iterable<any>, toPlain)
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, toPlain(v)]))
+  }
+  return value
+}
+
+function makeConverter(type: DataType): ValueConverter {
+  if (DataType.isInt(type)) {
+    return type.bitWidth === 64 ? (v) => bigintToSafe(BigInt(v)) : (v) => v
+  }
+  if (DataType.isFloat(type) || DataType.isBool(type) || DataType.isUtf8(type) || DataType.isLargeUtf8(type)) {
+    return (v) => v
+  }
+  if (DataType.isDecimal(type)) {
+    const { precision, scale } = type
+    return precision <= MAX_SAFE_DECIMAL_PRECISION
+      ? (v) => util.bigNumToNumber(v, scale)
+      : (v) => scaleDecimalString(util.bigNumToBigInt(v), scale)
+  }
+  if (DataType.isDate(type)) return (v) => formatDate(Number(v))
+  if (DataType.isTimestamp(type)) {
+    const zoned = !!type.timezone
+    return (v) => formatTimestamp(Number(v), zoned)
+  }
+  if (DataType.isTime(type)) {
+    const unit = type.unit
+    return (v) => formatTime(v, unit)
+  }
+  if (DataType.isBinary(type) || DataType.isLargeBinary(type) || DataType.isFixedSizeBinary(type)) {
+    return (v: Uint8Array) => `\\x${Array.from(v, b => b.toString(16).padStart(2, '0')).join('')}`
+  }
+  if (DataType.isDictionary(type)) return makeConverter(type.dictionary)
+  if (DataType.isList(type) || DataType.isFixedSizeList(type) || DataType.isStruct(type) || DataType.isMap(type)) {
+    return toPlain
+  }
+  // Intervals, durations and anything exotic fall back to their string form
+  return (v) => (typeof v?.toString === 'function' ? v.toString() : String(v))
+}
+
+const convertersBySchema = new WeakMap<object, ValueConverter[]>()
+
+// Per-field value converters, cached for the lifetime of the fields array
+export function fieldConverters(fields: ArrowFieldLike[]): ValueConverter[] {
+  let converters = convertersBySchema.get(fields)
+  if (!converters) {
+    converters = fields.map(field => (field.type ? makeConverter(field.type) : (v: any) => v))
+    convertersBySchema.set(fields, converters)
+  }
+  return converters
+}
+
+// Convert an Arrow row to a plain object keyed by field name; nulls stay null
+export function convertArrowRow(row: any, fields: ArrowFieldLike[]): any {
+  const converters = fieldConverters(fields)
+
+  const obj: any = {}
+  for (let i = 0; i < fields.length; i++) {
+    const value = row[fields[i].name]
+    obj[fields[i].name] = value === null || value === undefined ? null : converters[i](value)
+  }
+  return obj
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest'
+import { QueryCursor, buildCountQuery, readerFromBatches, stripLeadingComments, type RecordBatchLike } from './cursor'
+
+const fields = [{ name: 'n' }]
+
+function makeBatch(start: number, size: number): RecordBatchLike {
+  return {
+    numRows: size,
+    get: (index: number) => ({ n: start + index }),
+    slice: (begin: number, end: number) => makeBatch(start + begin, end - begin)
+  }
+}
+
+const toObject = (row: any) => ({ n: row.n })
+
+describe('QueryCursor', () => {
+  it('should page rows across record batch boundaries', async () => {
+    const reader = readerFromBatches({ fields }, [makeBatch(0, 3), makeBatch(3, 3), makeBatch(6, 2)])
+    const cursor = new QueryCursor('c1', reader, toObject)
+
+    expect(cursor.columns).toEqual(['n'])
+
+    const first = await cursor.fetch(4)
+    expect(first.rows.map(r => r.n)).toEqual([0, 1, 2, 3])
+    expect(first.done).toBe(false)
+
+    const second = await cursor.fetch(10)
+    expect(second.rows.map(r => r.n)).toEqual([4, 5, 6, 7])
+    expect(second.done).toBe(true)
+    expect(cursor.rowsFetched).toBe(8)
+  })
+
+  it('should slice record batches at page boundaries', async () => {
+    const first = makeBatch(0, 3)
+    const reader = readerFromBatches({ fields }, [first, makeBatch(3, 3)])
+    const cursor = new QueryCursor('c1', reader, toObject)
+
+    const page = await cursor.fetchBatches(4)
+    expect(page.numRows).toBe(4)
+    expect(page.batches[0]).toBe(first)
+    expect(page.batches[1].numRows).toBe(1)
+    expect(page.batches[1].get(0)).toEqual({ n: 3 })
+    expect(page.done).toBe(false)
+
+    const rest = await cursor.fetch(10)
+    expect(rest.rows.map(r => r.n)).toEqual([4, 5])
+  })
+
+  it('should report done for an empty result', async () => {
+    const cursor = new QueryCursor('c1', readerFromBatches({ fields }, []), toObject)
+    const page = await cursor.fetch(10)
+    expect(page).toEqual({ rows: [], done: true })
+  })
+
+  it('should refuse to fetch after close', async () => {
+    const cursor = new QueryCursor('c1', readerFromBatches({ fields }, [makeBatch(0, 5)]), toObject)
+    await cursor.close()
+    await expect(cursor.fetch(1)).rejects.toThrow('closed')
+  })
+})
+
+describe('buildCountQuery', () => {
+  it('should wrap row-returning statements', () => {
+    expect(buildCountQuery('-- comment\nSELECT * FROM t;')).toBe('SELECT count(*) AS total FROM (SELECT * FROM t\n) AS counted')
+    expect(buildCountQuery('WITH x AS (SELECT 1) SELECT * FROM x')).not.toBeNull()
+  })
+
+  it('should skip statements that cannot be counted', () => {
+    expect(buildCountQuery('CREATE TABLE t AS SELECT 1')).toBeNull()
+    expect(buildCountQuery('SELECT 1; SELECT 2')).toBeNull()
+    expect(buildCountQuery('   ')).toBeNull()
+  })
+
+  it('should strip block and line comments', () => {
+    expect(stripLeadingComments('/* a */ -- b\n  SELECT 1')).toBe('SELECT 1')
+  })
+})
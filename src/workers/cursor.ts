@@ -0,0 +1,153 @@
+// Forward-only cursor over a streamed DuckDB result.
+// Rows are pulled from the Arrow record batch reader only as pages are requested,
+// so a large result never has to be materialised in the worker at once.
+
+export interface RecordBatchLike {
+  numRows: number
+  get(index: number): any
+  slice(begin: number, end: number): RecordBatchLike
+}
+
+export interface RecordBatchReaderLike {
+  schema: { fields: Array<{ name: string; type?: any; nullable?: boolean }> }
+  next(): Promise<IteratorResult<RecordBatchLike | null | undefined>>
+  return?(value?: any): Promise<IteratorResult<any>>
+}
+
+export type RowConverter = (row: any, fields: RecordBatchReaderLike['schema']['fields']) => any
+
+export interface CursorPage {
+  rows: any[]
+  done: boolean
+}
+
+// A page of raw record batches, for callers that serialize Arrow directly
+export interface CursorBatchPage {
+  schema: RecordBatchReaderLike['schema']
+  batches: RecordBatchLike[]
+  numRows: number
+  done: boolean
+}
+
+// A page serialized as an Arrow IPC stream; the buffer is transferred to the main thread, not cloned
+export interface ArrowPage {
+  ipc: Uint8Array
+  numRows: number
+  done: boolean
+}
+
+export class QueryCursor {
+  readonly id: string
+  readonly columns: string[]
+  readonly fields: RecordBatchReaderLike['schema']['fields']
+  private readonly reader: RecordBatchReaderLike
+  private readonly convertRow: RowConverter
+  private batch: RecordBatchLike | null = null
+  private batchOffset = 0
+  private exhausted = false
+  private closed = false
+  rowsFetched = 0
+
+  constructor(id: string, reader: RecordBatchReaderLike, convertRow: RowConverter) {
+    this.id = id
+    this.reader = reader
+    this.convertRow = convertRow
+    this.fields = reader.schema.fields
+    this.columns = this.fields.map(field => field.name)
+  }
+
+  get isDone(): boolean {
+    return this.closed || this.exhausted
+  }
+
+  async fetch(count: number): Promise<CursorPage> {
+    const { batches, done } = await this.fetchBatches(count)
+    const rows: any[] = []
+    for (const batch of batches) {
+      for (let i = 0; i < batch.numRows; i++) {
+        rows.push(this.convertRow(batch.get(i), this.fields))
+      }
+    }
+    return { rows, done }
+  }
+
+  async fetchBatches(count: number): Promise<CursorBatchPage> {
+    if (this.closed) throw new Error(`Cursor ${this.id} is closed`)
+
+    const batches: RecordBatchLike[] = []
+    let numRows = 0
+    while (numRows < count && !this.exhausted) {
+      // Pull the next record batch once the current one is consumed
+      if (!this.batch || this.batchOffset >= this.batch.numRows) {
+        const next = await this.reader.next()
+        if (next.done || !next.value) {
+          this.exhausted = true
+          break
+        }
+        this.batch = next.value
+        this.batchOffset = 0
+        continue
+      }
+
+      const take = Math.min(count - numRows, this.batch.numRows - this.batchOffset)
+      // Whole batches are passed through; only page boundaries need a (zero-copy) slice
+      batches.push(this.batchOffset === 0 && take === this.batch.numRows
+        ? this.batch
+        : this.batch.slice(this.batchOffset, this.batchOffset + take))
+      this.batchOffset += take
+      numRows += take
+    }
+
+    this.rowsFetched += numRows
+    return { schema: this.reader.schema, batches, numRows, done: this.exhausted }
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return
+    this.closed = true
+    this.batch = null
+    if (!this.exhausted && this.reader.return) {
+      try {
+        await this.reader.return()
+      } catch (_e) {
+        // Reader may already be invalidated by a newer query on the same connection
+      }
+    }
+  }
+}
+
+// Adapt an already materialised Arrow table to the reader interface
+export function readerFromBatches(
+  schema: RecordBatchReaderLike['schema'],
+  batches: RecordBatchLike[]
+): RecordBatchReaderLike {
+  const iterator = batches[Symbol.iterator]()
+  return {
+    schema,
+    next: async () => iterator.next(),
+  }
+}
+
+// Strip leading comments so statement-type checks see the first keyword
+export function stripLeadingComments(sql: string): string {
+  let text = sql.trimStart()
+  for (;;) {
+    if (text.startsWith('--')) {
+      const end = text.indexOf('\n')
+      text = end === -1 ? '' : text.slice(end + 1).trimStart()
+    } else if (text.startsWith('/*')) {
+      const end = text.indexOf('*/')
+      text = end === -1 ? '' : text.slice(end + 2).trimStart()
+    } else {
+      return text
+    }
+  }
+}
+
+// Build a COUNT(*) wrapper for row-returning statements, or null when counting is not possible
+export function buildCountQuery(sql: string): string | null {
+  const clean = stripLeadingComments(sql).replace(/;\s*$/, '')
+  if (!clean || clean.includes(';')) return null
+  if (!/^(select|with|from|values|table)\b/i.test(clean)) return null
+  return `SELECT count(*) AS total FROM (${clean}\n) AS counted`
+}
@@ -1,17 +1,91 @@
 import * as Comlink from 'comlink'
 import * as duckdb from '@duckdb/duckdb-wasm'
+import { Table, tableToIPC, type RecordBatch, type Schema } from 'apache-arrow'
+import { stripLeadingComments, type ArrowPage, type CursorPage } from './cursor'
+import { QuerySession, type OpenCursorResult } from './querySession'
+import { convertArrowRow, describeFields, fieldConverters } from './arrowConvert'
+import { buildFunctionCatalog, quoteIdentifier, type FunctionRow } from '../utils/sqlContext'
+import {
+  buildCreateViewSQL,
+  buildReadCsvSQL,
+  DEFAULT_CSV_OPTIONS,
+  isInsertedFileType,
+  sqlString,
+  type CreateViewOptions,
+  type CsvOptions,
+  type DatasetFileType
+} from '../utils/fileFormats'
+import { rejectRowFrom, type CsvRejectScan } from '../utils/loadReport'
+import {
+  buildNonNullCountSQL,
+  buildTopValuesSQL,
+  columnProfileFrom,
+  PROFILE_TOP_VALUES,
+  topValuesFrom,
+  wantsTopValues,
+  type TableProfile
+} from '../utils/datasetProfile'
+import { buildMaterializeSQL, stagingTableName, TABLE_MEMORY_SQL, type MaterializedInfo } from '../utils/materialize'
+import {
+  attachedRelationsFrom,
+  buildAttachSQL,
+  buildExportTableSQL,
+  buildExportViewSQL,
+  buildListAttachedSQL,
+  EXPORT_DATABASE_ALIAS,
+  type AttachedRelation,
+  type DatabaseExport,
+  type ExportView
+} from '../utils/databaseFile'
+import {
+  buildExportCopySQL,
+  isCopyFormat,
+  RESULT_EXPORT_FORMATS,
+  stripTrailingSemicolon,
+  xlsxCellValue,
+  type ResultExportOptions
+} from '../utils/resultExport'
+import { writeXlsxSheet } from '../utils/xlsx'
+import { decodeToArrowStream } from './fileDecode'
+import type { SqlFunction, WorkerResponse } from '../types'
+import { ENCODING_SAMPLE_BYTES, detectEncoding, transcodeBlob, type TextEncodingLabel } from '../utils/encoding'
 
 export interface DuckDBWorker {
   initialize(): Promise<void>
   registerFile(name: string, buffer: ArrayBuffer): Promise<void>
+  registerFileHandle(
+    name: string,
+    file: Blob,
+    options?: RegisterFileOptions,
+    onProgress?: (update: WorkerResponse) => void
+  ): Promise<RegisteredFile>
+  registerUrl(name: string, url: string): Promise<void>
+  readFile(name: string): Promise<Uint8Array>
   query(sql: string): Promise<any[]>
-  queryStream(sql: string, batchSize?: number): Promise<{ columns: string[], data: any[][], totalRows: number }>
+  openCursor(sql: string): Promise<OpenCursorResult>
+  fetchRows(cursorId: string, count: number): Promise<CursorPage>
+  fetchArrow(cursorId: string, count: number): Promise<ArrowPage>
+  countRows(cursorId: string): Promise<number | null>
+  closeCursor(cursorId: string): Promise<void>
   cancelQuery(): Promise<void>
   getTableInfo(tableName: string): Promise<{ columns: Array<{ name: string; type: string }> }>
-  createView(viewName: string, fileName: string, fileType: 'csv' | 'parquet'): Promise<void>
+  getFunctions(): Promise<SqlFunction[]>
+  validateQuery(sql: string): Promise<string | null>
+  createView(viewName: string, fileName: string, fileType: DatasetFileType, options?: CreateViewOptions): Promise<void>
+  scanCsvRejects(fileName: string, options?: CsvOptions, limit?: number): Promise<CsvRejectScan>
+  profileTable(tableName: string, topValues?: number): Promise<TableProfile>
+  materializeTable(tableName: string, orderBy?: string[]): Promise<MaterializedInfo>
+  listRelations(): Promise<string[]>
+  renameRelation(from: string, to: string): Promise<void>
+  dropRelation(name: string): Promise<void>
+  unregisterFile(name: string): Promise<void>
+  attachDatabase(fileName: string, alias: string): Promise<AttachedRelation[]>
+  detachDatabase(alias: string): Promise<void>
+  resetSession(): Promise<void>
+  exportDatabase(fileName: string, views?: ExportView[]): Promise<DatabaseExport>
   ping(): Promise<string>
   getMethods(): Promise<string[]>
-  copyQueryToParquet(sql: string, fileName?: string): Promise<Uint8Array>
+  exportQuery(sql: string, options: ResultExportOptions): Promise<Uint8Array>
   getDiagnostics(): Promise<{
     crossOriginIsolated: boolean
     threads: boolean
@@ -22,10 +96,25 @@ export interface DuckDBWorker {
   }>
 }
 
+export interface RegisterFileOptions {
+  text?: boolean // Check the encoding and transcode to UTF-8 when needed
+}
+
+export interface RegisteredFile {
+  size: number // Bytes registered with DuckDB
+  encoding?: TextEncodingLabel // Text files only
+  transcoded: boolean
+  file?: Blob // The UTF-8 copy DuckDB reads when the original was transcoded
+}
+
 class DuckDBWorkerImpl implements DuckDBWorker {
   private db: duckdb.AsyncDuckDB | null = null
   private conn: duckdb.AsyncDuckDBConnection | null = null
-  private currentQueryController: AbortController | null = null
+  // User queries run on dedicated connections so streaming results are not invalidated
+  // by internal queries (table info, exports) issued on the main connection
+  private session: QuerySession | null = null
+  private rejectScans = 0 // Numbers the temporary rejects tables of each scan
+  private exports = 0 // Numbers the temporary files COPY exports write
   private lastBundle: { mainModule?: string; pthreadWorker?: string | undefined } | null = null
   private initializationTimeMs: number | undefined
 
@@ -61,6 +150,14 @@ class DuckDBWorkerImpl implements DuckDBWorker {
       // Normalize null to undefined for pthreadWorker to satisfy typings
       await this.db.instantiate(bundle.mainModule, bundle.pthreadWorker ?? undefined)
       this.conn = await this.db.connect()
+      const queryConn = await this.db.connect()
+      const countConn = await this.db.connect()
+      this.session = new QuerySession(
+        queryConn,
+        countConn,
+        convertArrowRow,
+        describeFields
+      )
       this.lastBundle = { mainModule: bundle.mainModule, pthreadWorker: bundle.pthreadWorker ?? undefined }
       this.initializationTimeMs = performance.now() - initStart
       
@@ -83,82 +180,127 @@ class DuckDBWorkerImpl implements DuckDBWorker {
     }
   }
 
+  // Register a browser File (or Blob) that DuckDB reads lazily instead of copying it into memory;
+  // text files in another encoding are first transcoded to a UTF-8 Blob in a streaming pass
+  async registerFileHandle(
+    name: string,
+    file: Blob,
+    options: RegisterFileOptions = {},
+    onProgress?: (update: WorkerResponse) => void
+  ): Promise<RegisteredFile> {
+    if (!this.db) throw new Error('Database not initialized')
+
+    try {
+      const report = (progress: number) => onProgress?.({ type: 'progress', id: name, progress })
+      let handle = file
+      let encoding: TextEncodingLabel | undefined
+      if (options.text) {
+        const sample = new Uint8Array(await file.slice(0, ENCODING_SAMPLE_BYTES).arrayBuffer())
+        encoding = detectEncoding(sample, file.size <= ENCODING_SAMPLE_BYTES)
+        if (encoding !== 'utf-8') handle = await transcodeBlob(file, encoding, report)
+      }
+      await this.db.registerFileHandle(name, handle, duckdb.DuckDBDataProtocol.BROWSER_FILEREADER, true)
+      report(1)
+      const transcoded = handle !== file
+      return { size: handle.size, encoding, transcoded, file: transcoded ? handle : undefined }
+    } catch (error) {
+      console.error(`Failed to register file handle ${name}:`, error)
+      throw new Error(`File registration failed: ${error}`)
+    }
+  }
+
+  // Register an http(s) URL; DuckDB fetches it on demand, with range requests where the format allows
+  async registerUrl(name: string, url: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized')
+
+    try {
+      await this.db.registerFileURL(name, url, duckdb.DuckDBDataProtocol.HTTP, false)
+    } catch (error) {
+      console.error(`Failed to register URL ${url}:`, error)
+      throw new Error(`URL registration failed: ${error}`)
+    }
+  }
+
+  async readFile(name: string): Promise<Uint8Array> {
+    if (!this.db) throw new Error('Database not initialized')
+
+    try {
+      // Read a registered file back out of the virtual filesystem
+      return await this.db.copyFileToBuffer(name)
+    } catch (error) {
+      console.error(`Failed to read file ${name}:`, error)
+      throw new Error(`File read failed: ${error}`)
+    }
+  }
+
   async query(sql: string): Promise<any[]> {
     if (!this.conn) throw new Error('Database not connected')
     
-    // Cancel any running query
-    if (this.currentQueryController) {
-      this.currentQueryController.abort()
-    }
-    
-    this.currentQueryController = new AbortController()
-    
     try {
       const result = await this.conn.query(sql)
       
       
-      // Convert Arrow result to plain objects via field names
-      const rows = result.toArray().map((row: any) => {
-        const obj: any = {}
-        for (let i = 0; i < result.schema.fields.length; i++) {
-          const field = result.schema.fields[i]
-          const value = row[field.name]
-          obj[field.name] = (value && typeof value?.toString === 'function') ? value.toString() : String(value)
-        }
-        return obj
-      })
+      // Convert Arrow result to plain objects via field names, keeping native value types
+      const rows = result.toArray().map((row: any) => convertArrowRow(row, result.schema.fields))
       
       return rows
     } catch (error) {
-      if (error instanceof Error && error.name === 'AbortError') {
-        return []
-      }
       console.error('Query execution failed:', error)
       throw error
-    } finally {
-      this.currentQueryController = null
     }
   }
 
-  async queryStream(sql: string, _batchSize?: number): Promise<{ columns: string[], data: any[][], totalRows: number }> {
-    if (!this.conn) throw new Error('Database not connected')
-    
+  async openCursor(sql: string): Promise<OpenCursorResult> {
+    if (!this.session) throw new Error('Database not connected')
+
     try {
-      const result = await this.conn.query(sql)
-      
-      
-      // Get column names
-      const columns = result.schema.fields.map(field => field.name)
-      
-      // Convert Arrow result to array format for better performance
-      const rows = result.toArray()
-      const totalRows = rows.length
-      
-      // Convert to array-of-arrays via field names
-      const data = rows.map((row: any) => {
-        const rowData: any[] = []
-        for (let i = 0; i < result.schema.fields.length; i++) {
-          const field = result.schema.fields[i]
-          const value = row[field.name]
-          rowData.push((value && typeof value?.toString === 'function') ? value.toString() : String(value))
-        }
-        return rowData
-      })
-      
-      return { columns, data, totalRows }
+      return await this.session.open(sql)
     } catch (error) {
-      console.error('Streaming query execution failed:', error)
+      console.error('Opening query cursor failed:', error)
       throw error
     }
   }
 
-  async cancelQuery(): Promise<void> {
-    if (this.currentQueryController) {
-      this.currentQueryController.abort()
-      this.currentQueryController = null
+  async fetchRows(cursorId: string, count: number): Promise<CursorPage> {
+    if (!this.session) throw new Error('Database not connected')
+
+    try {
+      return await this.session.fetch(cursorId, count)
+    } catch (error) {
+      console.error('Fetching rows failed:', error)
+      throw error
     }
   }
 
+  async fetchArrow(cursorId: string, count: number): Promise<ArrowPage> {
+    if (!this.session) throw new Error('Database not connected')
+
+    try {
+      const page = await this.session.fetchBatches(cursorId, count)
+      // Serialize the page as an IPC stream; an empty page still carries the schema
+      const table = new Table(page.schema as Schema, page.batches as RecordBatch[])
+      const ipc = tableToIPC(table, 'stream')
+      return Comlink.transfer({ ipc, numRows: page.numRows, done: page.done }, [ipc.buffer])
+    } catch (error) {
+      console.error('Fetching Arrow batches failed:', error)
+      throw error
+    }
+  }
+
+  async countRows(cursorId: string): Promise<number | null> {
+    if (!this.session) throw new Error('Database not connected')
+    return this.session.count(cursorId)
+  }
+
+  async closeCursor(cursorId: string): Promise<void> {
+    await this.session?.close(cursorId)
+  }
+
+  async cancelQuery(): Promise<void> {
+    // Interrupts the pending DuckDB query; the connection stays open for the next one
+    await this.session?.cancel()
+  }
+
   async getTableInfo(tableName: string): Promise<{ columns: Array<{ name: string; type: string }> }> {
     if (!this.conn) throw new Error('Database not connected')
     
@@ -178,57 +320,356 @@ class DuckDBWorkerImpl implements DuckDBWorker {
     }
   }
 
-  async createView(viewName: string, fileName: string, fileType: 'csv' | 'parquet'): Promise<void> {
+  async getFunctions(): Promise<SqlFunction[]> {
+    if (!this.conn) throw new Error('Database not connected')
+
+    try {
+      // Built-in functions for editor completions; internal helpers start with a double underscore
+      const rows = await this.query(`
+        SELECT function_name, function_type, description, return_type, parameters, parameter_types, varargs
+        FROM duckdb_functions()
+        WHERE NOT starts_with(function_name, '__')
+        ORDER BY function_name
+      `)
+      return buildFunctionCatalog(rows as FunctionRow[])
+    } catch (error) {
+      console.error('Failed to list DuckDB functions:', error)
+      throw error
+    }
+  }
+
+  // Plan the query with EXPLAIN without running it; returns the error message, or null when valid
+  async validateQuery(sql: string): Promise<string | null> {
     if (!this.conn) throw new Error('Database not connected')
+
+    // Only single row-returning statements can be explained safely
+    const clean = stripLeadingComments(sql).replace(/;\s*$/, '')
+    if (!clean || clean.includes(';') || !/^(select|with|from|values|table|pivot|unpivot)\b/i.test(clean)) {
+      return null
+    }
+    try {
+      // Explain the text as written (comments included) so reported line numbers match the editor
+      await this.conn.query(`EXPLAIN ${sql.replace(/;\s*$/, '')}`)
+      return null
+    } catch (error) {
+      // Errors quote the "EXPLAIN ..." text; shift the first-line excerpt and caret back onto the query
+      const message = error instanceof Error ? error.message : String(error)
+      return message.replace(/^(LINE 1: )EXPLAIN ([^\n]*\n) {8}/m, '$1$2')
+    }
+  }
+
+  async createView(viewName: string, fileName: string, fileType: DatasetFileType, options: CreateViewOptions = {}): Promise<void> {
+    if (!this.db || !this.conn) throw new Error('Database not connected')
     
     try {
-      let createViewSQL: string
-      
-      if (fileType === 'csv') {
-        createViewSQL = `
-          CREATE OR REPLACE VIEW ${viewName} AS
-          SELECT * FROM read_csv_auto('${fileName}', ignore_errors=true, normalize_names=true)
-        `
-      } else if (fileType === 'parquet') {
-        createViewSQL = `
-          CREATE OR REPLACE VIEW ${viewName} AS
-          SELECT * FROM read_parquet('${fileName}')
-        `
-      } else {
-        throw new Error(`Unsupported file type: ${fileType}`)
+      // A replacement file may change a view into a table or back; each kind only replaces its own
+      const existing = await this.relationType(viewName)
+
+      if (isInsertedFileType(fileType)) {
+        // No DuckDB reader for these: decode the registered bytes here and insert them as a table
+        const stream = await decodeToArrowStream(await this.db.copyFileToBuffer(fileName), fileType, options)
+        if (existing) await this.conn.query(`DROP ${existing} ${quoteIdentifier(viewName)}`)
+        await this.conn.insertArrowFromIPCStream(stream, { name: viewName, create: true })
+        return
       }
       
-      await this.conn.query(createViewSQL)
+      if (existing === 'TABLE') await this.conn.query(`DROP TABLE ${quoteIdentifier(viewName)}`)
+      await this.conn.query(buildCreateViewSQL(viewName, fileName, fileType, options))
     } catch (error) {
       console.error(`Failed to create view ${viewName}:`, error)
       throw error
     }
   }
 
+  // Read a CSV once with store_rejects to count loaded rows and collect the rows DuckDB rejects;
+  // limit caps the returned rejects (all when omitted)
+  async scanCsvRejects(fileName: string, options: CsvOptions = DEFAULT_CSV_OPTIONS, limit?: number): Promise<CsvRejectScan> {
+    if (!this.conn) throw new Error('Database not connected')
+
+    const id = ++this.rejectScans
+    const rejects = { errors: `duckboard_reject_errors_${id}`, scans: `duckboard_reject_scans_${id}` }
+    try {
+      const [loaded] = await this.query(`SELECT count(*) AS n FROM ${buildReadCsvSQL(fileName, options, rejects)}`)
+      const [rejected] = await this.query(`SELECT count(*) AS n FROM ${rejects.errors}`)
+      const rows = await this.query(
+        `SELECT line, column_name, error_type, error_message, csv_line FROM ${rejects.errors} ORDER BY line` +
+        (limit !== undefined ? ` LIMIT ${Math.max(0, Math.floor(limit))}` : '')
+      )
+      return {
+        rowsLoaded: Number(loaded.n),
+        rowsRejected: Number(rejected.n),
+        rejects: rows.map(rejectRowFrom)
+      }
+    } catch (error) {
+      console.error(`Failed to scan ${fileName} for rejected rows:`, error)
+      throw error
+    } finally {
+      for (const table of [rejects.errors, rejects.scans]) {
+        await this.conn.query(`DROP TABLE IF EXISTS ${table}`)
+          .catch(e => console.warn(`Unable to drop ${table}:`, e))
+      }
+    }
+  }
+
+  async profileTable(tableName: string, topValues: number = PROFILE_TOP_VALUES): Promise<TableProfile> {
+    if (!this.conn) throw new Error('Database not connected')
+
+    try {
+      const summary = await this.query(`SUMMARIZE ${quoteIdentifier(tableName)}`)
+      const names = summary.map(row => String(row.column_name))
+      const [counts] = await this.query(buildNonNullCountSQL(tableName, names))
+      const rowCount = Number(counts.row_count)
+      const columns = summary.map((row, i) => columnProfileFrom(row, rowCount, Number(counts[`c${i}`])))
+
+      for (const column of columns) {
+        if (topValues > 0 && wantsTopValues(column.stats, rowCount)) {
+          column.stats.topValues = topValuesFrom(await this.query(buildTopValuesSQL(tableName, column.name, topValues)))
+        }
+      }
+      return { rowCount, columns }
+    } catch (error) {
+      console.error(`Failed to profile ${tableName}:`, error)
+      throw error
+    }
+  }
+
+  // Replace a dataset's view (or table) with a native table holding its rows, optionally sorted
+  async materializeTable(tableName: string, orderBy: string[] = []): Promise<MaterializedInfo> {
+    if (!this.conn) throw new Error('Database not connected')
+
+    const staging = stagingTableName(tableName)
+    try {
+      const type = await this.relationType(tableName)
+      if (!type) throw new Error(`No table or view named ${tableName}`)
+
+      const before = await this.tableMemory()
+      const started = performance.now()
+      await this.conn.query(`DROP TABLE IF EXISTS ${quoteIdentifier(staging)}`)
+      await this.conn.query(buildMaterializeSQL(tableName, staging, orderBy))
+      const loadMs = performance.now() - started
+      // Measured before the previous relation is dropped, so re-materializing a table counts only the new one
+      const after = await this.tableMemory()
+
+      await this.conn.query(`DROP ${type} ${quoteIdentifier(tableName)}`)
+      await this.conn.query(`ALTER TABLE ${quoteIdentifier(staging)} RENAME TO ${quoteIdentifier(tableName)}`)
+      return {
+        orderBy: orderBy.length ? orderBy : undefined,
+        loadMs,
+        estimatedBytes: before !== null && after !== null ? Math.max(0, after - before) : undefined,
+        materializedAt: new Date().toISOString()
+      }
+    } catch (error) {
+      console.error(`Failed to materialize ${tableName}:`, error)
+      await this.conn.query(`DROP TABLE IF EXISTS ${quoteIdentifier(staging)}`)
+        .catch(e => console.warn(`Unable to drop ${staging}:`, e))
+      throw error
+    }
+  }
+
+  // Bytes held by in-memory tables; null when this DuckDB build does not report it
+  private async tableMemory(): Promise<number | null> {
+    try {
+      const [row] = (await this.conn!.query(TABLE_MEMORY_SQL)).toArray() as any[]
+      return row ? Number(row.bytes) : 0
+    } catch {
+      return null
+    }
+  }
+
+  // Whether a name in the main schema is a view or a table, or null when it does not exist
+  private async relationType(name: string): Promise<'VIEW' | 'TABLE' | null> {
+    const [row] = await this.query(
+      `SELECT table_type FROM information_schema.tables WHERE table_catalog = current_database() ` +
+      `AND table_schema = 'main' AND lower(table_name) = lower(${sqlString(name)})`
+    )
+    if (!row) return null
+    return row.table_type === 'VIEW' ? 'VIEW' : 'TABLE'
+  }
+
+  // Views and tables in the main schema, including ones created from SQL
+  async listRelations(): Promise<string[]> {
+    if (!this.conn) throw new Error('Database not connected')
+
+    try {
+      const rows = await this.query(
+        `SELECT table_name FROM information_schema.tables WHERE table_catalog = current_database() AND table_schema = 'main'`
+      )
+      return rows.map(row => String(row.table_name))
+    } catch (error) {
+      console.error('Failed to list tables:', error)
+      throw error
+    }
+  }
+
+  async renameRelation(from: string, to: string): Promise<void> {
+    if (!this.conn) throw new Error('Database not connected')
+
+    try {
+      const type = await this.relationType(from)
+      if (!type) throw new Error(`No table or view named ${from}`)
+      if (from.toLowerCase() !== to.toLowerCase() && await this.relationType(to)) {
+        throw new Error(`A table or view named ${to} already exists`)
+      }
+      await this.conn.query(`ALTER ${type} ${quoteIdentifier(from)} RENAME TO ${quoteIdentifier(to)}`)
+    } catch (error) {
+      console.error(`Failed to rename ${from} to ${to}:`, error)
+      throw error
+    }
+  }
+
+  async dropRelation(name: string): Promise<void> {
+    if (!this.conn) throw new Error('Database not connected')
+
+    try {
+      const type = await this.relationType(name)
+      if (type) await this.conn.query(`DROP ${type} ${quoteIdentifier(name)}`)
+    } catch (error) {
+      console.error(`Failed to drop ${name}:`, error)
+      throw error
+    }
+  }
+
+  async unregisterFile(name: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized')
+
+    try {
+      await this.db.dropFile(name)
+    } catch (error) {
+      console.error(`Failed to unregister file ${name}:`, error)
+      throw error
+    }
+  }
+
+  // Attach a registered .duckdb file read-only and list the tables and views it holds
+  async attachDatabase(fileName: string, alias: string): Promise<AttachedRelation[]> {
+    if (!this.conn) throw new Error('Database not connected')
+
+    try {
+      await this.conn.query(buildAttachSQL(fileName, alias))
+      try {
+        return attachedRelationsFrom(await this.query(buildListAttachedSQL(alias)))
+      } catch (error) {
+        await this.conn.query(`DETACH DATABASE IF EXISTS ${quoteIdentifier(alias)}`)
+        throw error
+      }
+    } catch (error) {
+      console.error(`Failed to attach ${fileName}:`, error)
+      throw error
+    }
+  }
+
+  async detachDatabase(alias: string): Promise<void> {
+    if (!this.conn) throw new Error('Database not connected')
+
+    try {
+      await this.conn.query(`DETACH DATABASE IF EXISTS ${quoteIdentifier(alias)}`)
+    } catch (error) {
+      console.error(`Failed to detach ${alias}:`, error)
+      throw error
+    }
+  }
+
+  // Detach every attached database, drop every table and view and unregister every file,
+  // so a new session (e.g. an imported bundle) starts from an empty database
+  async resetSession(): Promise<void> {
+    if (!this.conn || !this.db) throw new Error('Database not connected')
+
+    try {
+      const databases = await this.query(
+        `SELECT database_name FROM duckdb_databases() WHERE NOT internal AND database_name <> current_database()`
+      )
+      for (const { database_name } of databases) {
+        await this.conn.query(`DETACH DATABASE IF EXISTS ${quoteIdentifier(String(database_name))}`)
+      }
+      const relations = await this.query(
+        `SELECT table_name, table_type FROM information_schema.tables WHERE table_catalog = current_database() AND table_schema = 'main'`
+      )
+      for (const { table_name, table_type } of relations) {
+        const type = table_type === 'VIEW' ? 'VIEW' : 'TABLE'
+        await this.conn.query(`DROP ${type} IF EXISTS ${quoteIdentifier(String(table_name))}`)
+      }
+      await this.db.dropFiles()
+    } catch (error) {
+      console.error('Failed to reset the session:', error)
+      throw error
+    }
+  }
+
+  // Write every table and view of the session into a new database file as tables,
+  // plus the given views; views that fail to bind are skipped rather than failing the export
+  async exportDatabase(fileName: string, views: ExportView[] = []): Promise<DatabaseExport> {
+    if (!this.conn || !this.db) throw new Error('Database not connected')
+
+    try {
+      const tables = await this.listRelations()
+      const exported: string[] = []
+      const skipped: DatabaseExport['skipped'] = []
+      await this.conn.query(`ATTACH ${sqlString(fileName)} AS ${EXPORT_DATABASE_ALIAS}`)
+      try {
+        for (const table of tables) {
+          await this.conn.query(buildExportTableSQL(table))
+        }
+        for (const view of views) {
+          try {
+            await this.conn.query(buildExportViewSQL(view))
+            exported.push(view.name)
+          } catch (error) {
+            skipped.push({ name: view.name, reason: error instanceof Error ? error.message : String(error) })
+          }
+        }
+      } finally {
+        // Detaching checkpoints the file so it is complete before it is read back
+        await this.conn.query(`DETACH DATABASE IF EXISTS ${EXPORT_DATABASE_ALIAS}`)
+      }
+      const bytes = await this.db.copyFileToBuffer(fileName)
+      return { bytes, tables, views: exported, skipped }
+    } catch (error) {
+      console.error('Database export failed:', error)
+      throw error
+    } finally {
+      await this.db.dropFile(fileName).catch(() => undefined)
+      await this.db.dropFile(`${fileName}.wal`).catch(() => undefined)
+    }
+  }
+
   async ping(): Promise<string> {
     return 'ok'
   }
 
   async getMethods(): Promise<string[]> {
-    return ['initialize', 'registerFile', 'query', 'queryStream', 'cancelQuery', 'getTableInfo', 'createView', 'ping', 'copyQueryToParquet', 'getDiagnostics']
+    return ['initialize', 'registerFile', 'registerFileHandle', 'registerUrl', 'readFile', 'query', 'openCursor', 'fetchRows', 'fetchArrow', 'countRows', 'closeCursor', 'cancelQuery', 'getTableInfo', 'getFunctions', 'validateQuery', 'createView', 'scanCsvRejects', 'profileTable', 'materializeTable', 'listRelations', 'renameRelation', 'dropRelation', 'unregisterFile', 'attachDatabase', 'detachDatabase', 'resetSession', 'exportDatabase', 'ping', 'exportQuery', 'getDiagnostics']
   }
 
-  async copyQueryToParquet(sql: string, fileName: string = 'result.parquet'): Promise<Uint8Array> {
+  // Query result as a downloadable file. COPY writes Parquet, CSV and JSON into the virtual
+  // filesystem, which is cleaned up once read back; Arrow and Excel files are built from the result here
+  async exportQuery(sql: string, options: ResultExportOptions): Promise<Uint8Array> {
     if (!this.conn || !this.db) throw new Error('Database not connected')
+
     try {
-      // Sanitize: DuckDB COPY subquery must not end with a semicolon
-      const cleanSql = (sql ?? '').replace(/;\s*$/m, '')
-      if (!cleanSql.trim()) throw new Error('No SQL provided for COPY-to-Parquet')
-      // Write Parquet directly inside DuckDB WASM virtual filesystem
-      const copySql = `COPY (${cleanSql}) TO '${fileName}' (FORMAT PARQUET)`
-      await this.conn.query(copySql)
-
-      // Read the generated file back as a Uint8Array for streaming to main thread
-      // AsyncDuckDB exposes copy-to-buffer utility for the virtual FS
-      const buffer: Uint8Array = await (this.db as any).copyFileToBuffer(fileName)
-      return buffer
+      if (!isCopyFormat(options.format)) {
+        const query = stripTrailingSemicolon(sql)
+        if (!query) throw new Error('No SQL to export')
+        const table = await this.conn.query(query)
+        if (options.format === 'arrow') return tableToIPC(table, 'file')
+        const fields = table.schema.fields
+        const converters = fieldConverters(fields)
+        const types = describeFields(fields).map(column => column.type)
+        const columns = fields.map((_, i) => table.getChildAt(i))
+        const rows = Array.from({ length: table.numRows }, (_, r) =>
+          columns.map((column, i) => xlsxCellValue(converters[i](column?.get(r)), types[i]))
+        )
+        return await writeXlsxSheet({ name: 'Result', columns: fields.map(f => f.name), rows })
+      }
+
+      const fileName = `duckboard_export_${++this.exports}.${RESULT_EXPORT_FORMATS[options.format].extension}`
+      try {
+        await this.conn.query(buildExportCopySQL(sql, fileName, options))
+        return await this.db.copyFileToBuffer(fileName)
+      } finally {
+        await this.db.dropFile(fileName).catch(e => console.warn(`Unable to drop ${fileName}:`, e))
+      }
     } catch (error) {
-      console.error('COPY-to-Parquet failed:', error)
+      console.error(`Export to ${options.format} failed:`, error)
       throw error
     }
   }
@@ -288,14 +729,34 @@ self.addEventListener('message', (event: MessageEvent) => {
     const api: DuckDBWorker = {
       initialize: () => workerImpl.initialize(),
       registerFile: (name, buffer) => workerImpl.registerFile(name, buffer),
+      registerFileHandle: (name, file, options, onProgress) => workerImpl.registerFileHandle(name, file, options, onProgress),
+      registerUrl: (name, url) => workerImpl.registerUrl(name, url),
+      readFile: (name) => workerImpl.readFile(name),
       query: (sql) => workerImpl.query(sql),
-      queryStream: (sql, batchSize) => workerImpl.queryStream(sql, batchSize),
+      openCursor: (sql) => workerImpl.openCursor(sql),
+      fetchRows: (cursorId, count) => workerImpl.fetchRows(cursorId, count),
+      fetchArrow: (cursorId, count) => workerImpl.fetchArrow(cursorId, count),
+      countRows: (cursorId) => workerImpl.countRows(cursorId),
+      closeCursor: (cursorId) => workerImpl.closeCursor(cursorId),
       cancelQuery: () => workerImpl.cancelQuery(),
       getTableInfo: (tableName) => workerImpl.getTableInfo(tableName),
-      createView: (viewName, fileName, fileType) => workerImpl.createView(viewName, fileName, fileType),
+      getFunctions: () => workerImpl.getFunctions(),
+      validateQuery: (sql) => workerImpl.validateQuery(sql),
+      createView: (viewName, fileName, fileType, options) => workerImpl.createView(viewName, fileName, fileType, options),
+      scanCsvRejects: (fileName, options, limit) => workerImpl.scanCsvRejects(fileName, options, limit),
+      profileTable: (tableName, topValues) => workerImpl.profileTable(tableName, topValues),
+      materializeTable: (tableName, orderBy) => workerImpl.materializeTable(tableName, orderBy),
+      listRelations: () => workerImpl.listRelations(),
+      renameRelation: (from, to) => workerImpl.renameRelation(from, to),
+      dropRelation: (name) => workerImpl.dropRelation(name),
+      unregisterFile: (name) => workerImpl.unregisterFile(name),
+      attachDatabase: (fileName, alias) => workerImpl.attachDatabase(fileName, alias),
+      detachDatabase: (alias) => workerImpl.detachDatabase(alias),
+      resetSession: () => workerImpl.resetSession(),
+      exportDatabase: (fileName, views) => workerImpl.exportDatabase(fileName, views),
       ping: () => workerImpl.ping(),
       getMethods: () => workerImpl.getMethods(),
-      copyQueryToParquet: (sql, fileName) => workerImpl.copyQueryToParquet(sql, fileName),
+      exportQuery: (sql, options) => workerImpl.exportQuery(sql, options),
       getDiagnostics: () => workerImpl.getDiagnostics(),
     }
     Comlink.expose(api, port)
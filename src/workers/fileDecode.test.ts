@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+import { Int32, Table, Utf8, tableFromIPC, tableToIPC, vectorFromArray } from 'apache-arrow'
+import JSZip from 'jszip'
+import { decodeToArrowStream } from './fileDecode'
+
+const STREAM_MAGIC = [0xff, 0xff, 0xff, 0xff]
+
+function makeTable(): Table {
+  return new Table({
+    id: vectorFromArray([1, 2], new Int32()),
+    name: vectorFromArray(['a', null], new Utf8())
+  })
+}
+
+describe('decodeToArrowStream', () => {
+  it('should re-encode Arrow IPC files as a stream', async () => {
+    const stream = await decodeToArrowStream(tableToIPC(makeTable(), 'file'), 'arrow')
+
+    expect(Array.from(stream.slice(0, 4))).toEqual(STREAM_MAGIC)
+    expect(tableFromIPC(stream).toArray().map(row => row.toJSON())).toEqual([
+      { id: 1, name: 'a' },
+      { id: 2, name: null }
+    ])
+  })
+
+  it('should pass Arrow IPC streams through', async () => {
+    const stream = await decodeToArrowStream(tableToIPC(makeTable(), 'stream'), 'arrow')
+    expect(tableFromIPC(stream).numRows).toBe(2)
+  })
+
+  it('should convert the chosen worksheet of a workbook', async () => {
+    const zip = new JSZip()
+    zip.file('xl/workbook.xml', '<workbook><sheets><sheet name="Data" sheetId="1" r:id="rId1"/></sheets></workbook>')
+    zip.file('xl/_rels/workbook.xml.rels', '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>')
+    zip.file('xl/worksheets/sheet1.xml', '<worksheet><sheetData><row><c t="inlineStr"><is><t>n</t></is></c></row><row><c><v>3</v></c></row></sheetData></worksheet>')
+    const bytes = await zip.generateAsync({ type: 'uint8array' })
+
+    const table = tableFromIPC(await decodeToArrowStream(bytes, 'xlsx', { sheet: 'Data' }))
+    expect(table.getChild('n')?.toArray()).toEqual(new BigInt64Array([3n]))
+  })
+
+  it('should refuse formats DuckDB reads itself', async () => {
+    await expect(decodeToArrowStream(new Uint8Array(), 'csv')).rejects.toThrow(/directly/)
+  })
+})
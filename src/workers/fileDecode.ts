@@ -0,0 +1,20 @@
+import { tableFromIPC, tableToIPC } from 'apache-arrow'
+import type { CreateViewOptions, DatasetFileType } from '../utils/fileFormats'
+import { readXlsxSheet, sheetToArrowTable } from '../utils/xlsx'
+
+// Arrow IPC stream for files DuckDB cannot read itself, ready for insertArrowFromIPCStream
+export async function decodeToArrowStream(
+  bytes: Uint8Array,
+  fileType: DatasetFileType,
+  options: CreateViewOptions = {}
+): Promise<Uint8Array> {
+  switch (fileType) {
+    case 'xlsx':
+      return tableToIPC(sheetToArrowTable(await readXlsxSheet(bytes, options.sheet)), 'stream')
+    case 'arrow':
+      // .arrow files may use the IPC file format; DuckDB only ingests the stream format
+      return tableToIPC(tableFromIPC(bytes), 'stream')
+    default:
+      throw new Error(`${fileType} files are read by DuckDB directly`)
+  }
+}
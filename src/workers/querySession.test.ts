@@ -0,0 +1,134 @@
+import { describe, it, expect, vi } from 'vitest'
+import { QuerySession, isQueryCancelledError, type SessionConnection } from './querySession'
+import { readerFromBatches, type RecordBatchLike, type RecordBatchReaderLike } from './cursor'
+
+function batchOf(rows: any[]): RecordBatchLike {
+  return { numRows: rows.length, get: (i: number) => rows[i], slice: (b: number, e: number) => batchOf(rows.slice(b, e)) }
+}
+
+// Fake connection: queries containing SLEEP stay pending until cancelSent() is called,
+// mirroring DuckDB-WASM's pending-query polling
+class FakeConnection implements SessionConnection {
+  pending: { reject: (error: Error) => void } | null = null
+  cancelCalls = 0
+  sent: string[] = []
+
+  async send(sql: string): Promise<RecordBatchReaderLike> {
+    this.sent.push(sql)
+    if (this.pending) throw new Error('Connection busy')
+    if (sql.includes('SLEEP')) {
+      return new Promise((_resolve, reject) => {
+        this.pending = { reject }
+      })
+    }
+    const total = /count\(\*\)/.test(sql) ? 3 : undefined
+    const rows = total !== undefined ? [{ total }] : [{ n: 1 }, { n: 2 }, { n: 3 }]
+    return readerFromBatches(
+      { fields: [{ name: total !== undefined ? 'total' : 'n' }] },
+      [batchOf(rows)]
+    )
+  }
+
+  async query(): Promise<{ schema: RecordBatchReaderLike['schema']; batches: any[] }> {
+    return { schema: { fields: [] }, batches: [] }
+  }
+
+  async cancelSent(): Promise<boolean> {
+    this.cancelCalls++
+    if (!this.pending) return false
+    this.pending.reject(new Error('Query was canceled'))
+    this.pending = null
+    return true
+  }
+}
+
+const toObject = (row: any, fields: Array<{ name: string }>) =>
+  Object.fromEntries(fields.map(f => [f.name, row[f.name]]))
+
+const describeNames = (fields: Array<{ name: string }>) =>
+  fields.map(f => ({ name: f.name, type: 'INTEGER', nullable: true }))
+
+function makeSession(conn: SessionConnection, countConn: SessionConnection = new FakeConnection()) {
+  return new QuerySession(conn, countConn, toObject, describeNames)
+}
+
+describe('QuerySession cancellation', () => {
+  it('should reject a pending query with a cancellation error', async () => {
+    const conn = new FakeConnection()
+    const session = makeSession(conn)
+
+    const running = session.open('SELECT SLEEP()')
+    await vi.waitFor(() => expect(conn.pending).not.toBeNull())
+    await session.cancel()
+
+    const error = await running.catch(e => e)
+    expect(isQueryCancelledError(error)).toBe(true)
+    expect(conn.cancelCalls).toBeGreaterThan(0)
+  })
+
+  it('should leave the connection usable after a cancel', async () => {
+    const conn = new FakeConnection()
+    const session = makeSession(conn)
+
+    const running = session.open('SELECT SLEEP()')
+    await vi.waitFor(() => expect(conn.pending).not.toBeNull())
+    await session.cancel()
+    await running.catch(() => undefined)
+
+    const cursor = await session.open('SELECT n FROM t')
+    const page = await session.fetch(cursor.cursorId, 10)
+    expect(cursor.schema).toEqual([{ name: 'n', type: 'INTEGER', nullable: true }])
+    expect(page.rows).toEqual([{ n: 1 }, { n: 2 }, { n: 3 }])
+    expect(page.done).toBe(true)
+  })
+
+  it('should close the open cursor when cancelled', async () => {
+    const session = makeSession(new FakeConnection())
+
+    const cursor = await session.open('SELECT n FROM t')
+    await session.cancel()
+
+    const error = await session.fetch(cursor.cursorId, 1).catch(e => e)
+    expect(isQueryCancelledError(error)).toBe(true)
+  })
+
+  it('should cancel a query that has not reached DuckDB yet', async () => {
+    const conn = new FakeConnection()
+    const session = makeSession(conn)
+
+    const running = session.open('SELECT SLEEP()')
+    await session.cancel()
+
+    expect(isQueryCancelledError(await running.catch(e => e))).toBe(true)
+    expect(conn.pending).toBeNull()
+  })
+
+  it('should not report unrelated failures as cancellations', async () => {
+    const conn = new FakeConnection()
+    conn.send = async () => { throw new Error('Parser Error: syntax error') }
+    const session = makeSession(conn)
+
+    const error = await session.open('SELEC 1').catch(e => e)
+    expect(isQueryCancelledError(error)).toBe(false)
+    expect(error.message).toContain('Parser Error')
+  })
+
+  it('should page raw record batches', async () => {
+    const session = makeSession(new FakeConnection())
+
+    const cursor = await session.open('SELECT n FROM t')
+    const page = await session.fetchBatches(cursor.cursorId, 2)
+    expect(page.numRows).toBe(2)
+    expect(page.batches[0].get(1)).toEqual({ n: 2 })
+    expect(page.done).toBe(false)
+  })
+
+  it('should count rows of the open cursor on the side connection', async () => {
+    const countConn = new FakeConnection()
+    const session = makeSession(new FakeConnection(), countConn)
+
+    const cursor = await session.open('SELECT n FROM t')
+    expect(await session.count(cursor.cursorId)).toBe(3)
+    expect(countConn.sent.some(sql => sql.startsWith('SELECT count(*)'))).toBe(true)
+  })
+})
@@ -0,0 +1,147 @@
+// User query lifecycle on a dedicated DuckDB connection: streaming cursors,
+// lazy row counts and cancellation of whatever is currently pending.
+
+import { QueryCursor, buildCountQuery, readerFromBatches, type CursorBatchPage, type CursorPage, type RecordBatchReaderLike, type RowConverter } from './cursor'
+import type { Column } from '../types'
+
+export const QUERY_CANCELLED_MESSAGE = 'Query cancelled'
+
+export function isQueryCancelledError(error: unknown): boolean {
+  return error instanceof Error && error.message === QUERY_CANCELLED_MESSAGE
+}
+
+// The subset of AsyncDuckDBConnection used by the session
+export interface SessionConnection {
+  send(sql: string, allowStreamResult?: boolean): Promise<RecordBatchReaderLike>
+  query(sql: string): Promise<{ schema: RecordBatchReaderLike['schema']; batches: any[] }>
+  cancelSent(): Promise<boolean>
+}
+
+export type SchemaDescriber = (fields: RecordBatchReaderLike['schema']['fields']) => Column[]
+
+export interface OpenCursorResult {
+  cursorId: string
+  columns: string[]
+  schema: Column[]
+}
+
+export class QuerySession {
+  private readonly conn: SessionConnection
+  private readonly countConn: SessionConnection
+  private readonly convertRow: RowConverter
+  private readonly describeSchema: SchemaDescriber
+  private cursor: QueryCursor | null = null
+  private cursorSql = ''
+  private cursorSeq = 0
+  private cancelRequested = false
+
+  constructor(
+    conn: SessionConnection,
+    countConn: SessionConnection,
+    convertRow: RowConverter,
+    describeSchema: SchemaDescriber
+  ) {
+    this.conn = conn
+    this.countConn = countConn
+    this.convertRow = convertRow
+    this.describeSchema = describeSchema
+  }
+
+  async open(sql: string): Promise<OpenCursorResult> {
+    this.cancelRequested = false
+    // Only one user query streams at a time; a new query supersedes the previous cursor
+    await this.release()
+    await this.countConn.cancelSent()
+    if (this.cancelRequested) throw new Error(QUERY_CANCELLED_MESSAGE)
+
+    let reader: RecordBatchReaderLike
+    try {
+      reader = await this.conn.send(sql, true)
+    } catch (error) {
+      if (this.cancelRequested) throw new Error(QUERY_CANCELLED_MESSAGE)
+      // Scripts with several statements cannot be streamed; run them eagerly instead
+      if (!/single statement|multiple statements/i.test(String(error))) throw error
+      const table = await this.conn.query(sql)
+      reader = readerFromBatches(table.schema, table.batches)
+    }
+
+    // The cancel may have landed after the result header arrived
+    if (this.cancelRequested) {
+      await reader.return?.()
+      throw new Error(QUERY_CANCELLED_MESSAGE)
+    }
+
+    const cursor = new QueryCursor(`cursor-${++this.cursorSeq}`, reader, this.convertRow)
+    this.cursor = cursor
+    this.cursorSql = sql
+    return { cursorId: cursor.id, columns: cursor.columns, schema: this.describeSchema(cursor.fields) }
+  }
+
+  fetch(cursorId: string, count: number): Promise<CursorPage> {
+    return this.read(cursorId, cursor => cursor.fetch(count))
+  }
+
+  fetchBatches(cursorId: string, count: number): Promise<CursorBatchPage> {
+    return this.read(cursorId, cursor => cursor.fetchBatches(count))
+  }
+
+  // Count the rows of an open cursor on the side connection; null when not countable
+  async count(cursorId: string): Promise<number | null> {
+    if (this.cursor?.id !== cursorId) return null
+    const countSql = buildCountQuery(this.cursorSql)
+    if (!countSql) return null
+
+    try {
+      const reader = await this.countConn.send(countSql)
+      const next = await reader.next()
+      await reader.return?.()
+      const total = next.value?.get(0)?.total
+      return total === undefined || total === null ? null : Number(total)
+    } catch (_error) {
+      // e.g. cancelled, or the query references temporary objects of the query connection
+      return null
+    }
+  }
+
+  async close(cursorId: string): Promise<void> {
+    if (this.cursor?.id === cursorId) {
+      await this.release()
+    }
+  }
+
+  // Interrupt pending work on both connections; they remain usable for the next query
+  async cancel(): Promise<void> {
+    this.cancelRequested = true
+    await Promise.all([this.conn.cancelSent(), this.countConn.cancelSent()])
+    await this.release()
+  }
+
+  // Read a page from the open cursor, releasing it once exhausted or failed
+  private async read<T extends { done: boolean }>(cursorId: string, readPage: (cursor: QueryCursor) => Promise<T>): Promise<T> {
+    const cursor = this.cursor
+    if (!cursor || cursor.id !== cursorId) {
+      if (!cursor && this.cancelRequested) throw new Error(QUERY_CANCELLED_MESSAGE)
+      throw new Error(`Cursor ${cursorId} is no longer open`)
+    }
+
+    try {
+      const page = await readPage(cursor)
+      if (page.done) {
+        await this.release()
+      }
+      return page
+    } catch (error) {
+      await this.release()
+      if (this.cancelRequested) throw new Error(QUERY_CANCELLED_MESSAGE)
+      throw error
+    }
+  }
+
+  private async release(): Promise<void> {
+    const cursor = this.cursor
+    this.cursor = null
+    if (cursor) {
+      await cursor.close()
+    }
+  }
+}